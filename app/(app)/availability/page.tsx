@@ -1,21 +1,34 @@
 import { auth } from "@clerk/nextjs/server";
+import { addWeeks, startOfWeek } from "date-fns";
+import { cookies } from "next/headers";
+import Link from "next/link";
 import { redirect } from "next/navigation";
-import { startOfWeek, addWeeks } from "date-fns";
-import { sanityFetch } from "@/sanity/lib/live";
-import { USER_WITH_AVAILABILITY_QUERY } from "@/sanity/queries/users";
-import { HOST_UPCOMING_BOOKINGS_QUERY } from "@/sanity/queries/bookings";
-import { getGoogleBusyTimes } from "@/lib/actions/calendar";
-import { processBookingsWithStatuses } from "@/lib/booking-utils";
 import { AvailabilityCalendar } from "@/components/calendar";
+import { ScheduleSwitcher } from "@/components/calendar/components/schedule-switcher";
 import { ShareLinkDialog } from "@/components/calendar/components/share-link-dialog";
-import { RefreshButton } from "@/components/ui/refresh-button";
 import type {
-  TimeBlock,
-  BusyBlock,
   BookedBlock,
+  BusyBlock,
+  TimeBlock,
 } from "@/components/calendar/types";
+import { RefreshButton } from "@/components/ui/refresh-button";
+import { getGoogleBusyTimes } from "@/lib/actions/calendar";
+import { DEFAULT_TIMEZONE } from "@/lib/availability";
+import { processBookingsWithStatuses } from "@/lib/booking-utils";
+import { sanityFetch } from "@/sanity/lib/live";
+import { HOST_UPCOMING_BOOKINGS_QUERY } from "@/sanity/queries/bookings";
+import { MEETING_TYPES_BY_HOST_QUERY } from "@/sanity/queries/meetingTypes";
+import {
+  SCHEDULE_WITH_AVAILABILITY_QUERY,
+  SCHEDULES_BY_HOST_QUERY,
+} from "@/sanity/queries/schedules";
+import { USER_WITH_AVAILABILITY_QUERY } from "@/sanity/queries/users";
 
-export default async function AvailabilityPage() {
+export default async function AvailabilityPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ schedule?: string }>;
+}) {
   const { userId } = await auth();
 
   if (!userId) {
@@ -27,11 +40,32 @@ export default async function AvailabilityPage() {
   const rangeStart = startOfWeek(now);
   const rangeEnd = addWeeks(rangeStart, 8); // 8 weeks ahead
 
-  const [{ data: user }, { data: bookings }, busyTimes] = await Promise.all([
+  const { schedule: scheduleId } = await searchParams;
+
+  const [
+    { data: user },
+    { data: schedule },
+    { data: schedules },
+    { data: meetingTypes },
+    { data: bookings },
+    busyTimes,
+  ] = await Promise.all([
     sanityFetch({
       query: USER_WITH_AVAILABILITY_QUERY,
       params: { clerkId: userId },
     }),
+    sanityFetch({
+      query: SCHEDULE_WITH_AVAILABILITY_QUERY,
+      params: { clerkId: userId, scheduleId: scheduleId ?? "" },
+    }),
+    sanityFetch({
+      query: SCHEDULES_BY_HOST_QUERY,
+      params: { clerkId: userId },
+    }),
+    sanityFetch({
+      query: MEETING_TYPES_BY_HOST_QUERY,
+      params: { clerkId: userId },
+    }),
     sanityFetch({
       query: HOST_UPCOMING_BOOKINGS_QUERY,
       params: { clerkId: userId, startDate: rangeStart.toISOString() },
@@ -39,7 +73,28 @@ export default async function AvailabilityPage() {
     getGoogleBusyTimes(rangeStart, rangeEnd),
   ]);
 
-  const availability = user?.availability ?? [];
+  // Edit the selected named schedule, or the host's default availability
+  // (also when the schedule doesn't exist or belongs to someone else)
+  const source = schedule ?? user;
+  const availability = source?.availability ?? [];
+  const availabilityRules = source?.availabilityRules ?? [];
+  const availabilityOverrides = source?.availabilityOverrides ?? [];
+
+  // Show times in the host's timezone, falling back to the browser's
+  // (from the TimezoneDetector cookie) until one has been saved
+  const cookieStore = await cookies();
+  let hostTimezone =
+    user?.timezone ?? cookieStore.get("timezone")?.value ?? DEFAULT_TIMEZONE;
+
+  // Validate timezone is a real IANA timezone (prevents crash from tampered cookie)
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: hostTimezone });
+  } catch {
+    hostTimezone = DEFAULT_TIMEZONE;
+  }
+
+  // A named schedule's times are in its own timezone
+  const timezone = schedule?.timezone ?? hostTimezone;
 
   // Process bookings with Google Calendar statuses
   const { activeBookings } = await processBookingsWithStatuses(bookings ?? []);
@@ -90,10 +145,37 @@ export default async function AvailabilityPage() {
         <div>
           <h1 className="text-2xl font-bold">Set Your Availability</h1>
           <p className="mt-1 text-muted-foreground">
-            Drag to create time blocks. Click a block to remove it. Changes save
-            automatically.
+            Set recurring weekly hours, then drag to add one-off time blocks.
+            Click a block to remove it.
+          </p>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Times shown in {timezone.replace(/_/g, " ")}
+            {!schedule && (
+              <>
+                {" "}
+                ·{" "}
+                <Link
+                  href="/settings"
+                  className="underline hover:text-foreground"
+                >
+                  Change
+                </Link>
+              </>
+            )}
           </p>
           <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+            {availabilityRules.length > 0 && (
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 bg-blue-100 border border-dashed border-blue-300 rounded" />
+                Weekly hours
+              </span>
+            )}
+            {availabilityOverrides.length > 0 && (
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 bg-amber-100 border border-amber-400 rounded" />
+                Time off & overrides
+              </span>
+            )}
             {bookedBlocks.length > 0 && (
               <>
                 <span className="flex items-center gap-1">
@@ -122,13 +204,25 @@ export default async function AvailabilityPage() {
             )}
           </div>
         </div>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
           <RefreshButton />
+          <ScheduleSwitcher
+            schedules={schedules}
+            selectedScheduleId={schedule?._id}
+            meetingTypes={meetingTypes}
+            timezone={hostTimezone}
+          />
           <ShareLinkDialog />
         </div>
       </div>
       <AvailabilityCalendar
+        key={schedule?._id ?? "default"}
+        timezone={timezone}
+        scheduleId={schedule?._id}
         initialBlocks={initialBlocks}
+        initialRevision={source?._rev ?? null}
+        initialRules={availabilityRules}
+        initialOverrides={availabilityOverrides}
         busyBlocks={initialBusyBlocks}
         bookedBlocks={bookedBlocks}
       />
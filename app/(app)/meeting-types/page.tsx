@@ -0,0 +1,43 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { HostInvitations } from "@/components/meeting-types/host-invitations";
+import { MeetingTypesManager } from "@/components/meeting-types/meeting-types-manager";
+import { sanityFetch } from "@/sanity/lib/live";
+import {
+  HOST_INVITATIONS_QUERY,
+  MEETING_TYPES_BY_HOST_QUERY,
+} from "@/sanity/queries/meetingTypes";
+
+export default async function MeetingTypesPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const [{ data: meetingTypes }, { data: invitations }] = await Promise.all([
+    sanityFetch({
+      query: MEETING_TYPES_BY_HOST_QUERY,
+      params: { clerkId: userId },
+    }),
+    sanityFetch({
+      query: HOST_INVITATIONS_QUERY,
+      params: { clerkId: userId },
+    }),
+  ]);
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-2xl">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold">Meeting Types</h1>
+        <p className="mt-1 text-muted-foreground">
+          Edit, reorder and archive the meetings guests can book.
+        </p>
+      </div>
+
+      {invitations.length > 0 && <HostInvitations invitations={invitations} />}
+
+      <MeetingTypesManager meetingTypes={meetingTypes} />
+    </main>
+  );
+}
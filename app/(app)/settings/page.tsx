@@ -1,11 +1,13 @@
 import { auth } from "@clerk/nextjs/server";
-import { redirect } from "next/navigation";
-import Link from "next/link";
 import { CreditCard } from "lucide-react";
-import { sanityFetch } from "@/sanity/lib/live";
-import { USER_CONNECTED_ACCOUNTS_DISPLAY_QUERY } from "@/sanity/queries/users";
+import Link from "next/link";
+import { redirect } from "next/navigation";
 import { AccountManager } from "@/components/settings/account-manager";
+import { AvailabilityCalendarSettings } from "@/components/settings/availability-calendar-settings";
+import { TimezoneSettings } from "@/components/settings/timezone-settings";
 import { getUserPlanLimits } from "@/lib/features";
+import { sanityFetch } from "@/sanity/lib/live";
+import { USER_CONNECTED_ACCOUNTS_DISPLAY_QUERY } from "@/sanity/queries/users";
 
 export default async function SettingsPage({
   searchParams,
@@ -69,6 +71,19 @@ export default async function SettingsPage({
         plan={planLimits.plan}
       />
 
+      {/* Availability Calendar Section */}
+      <div className="mt-8 pt-8 border-t">
+        <AvailabilityCalendarSettings
+          connectedAccounts={connectedAccounts}
+          setting={user?.availabilityCalendar ?? null}
+        />
+      </div>
+
+      {/* Timezone Section */}
+      <div className="mt-8 pt-8 border-t">
+        <TimezoneSettings timezone={user?.timezone} />
+      </div>
+
       {/* Billing Section */}
       <div className="mt-8 pt-8 border-t">
         <h2 className="text-lg font-semibold mb-4">Billing</h2>
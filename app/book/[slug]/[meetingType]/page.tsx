@@ -1,29 +1,72 @@
-import { notFound } from "next/navigation";
+import { addDays, differenceInMinutes, parseISO } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
 import { cookies } from "next/headers";
-import { sanityFetch } from "@/sanity/lib/live";
-import { MEETING_TYPE_BY_SLUGS_QUERY } from "@/sanity/queries/meetingTypes";
-import { ALL_BOOKINGS_BY_HOST_SLUG_QUERY } from "@/sanity/queries/bookings";
+import { notFound, redirect } from "next/navigation";
 import { BookingCalendar } from "@/components/booking/booking-calendar";
+import { HostHeader } from "@/components/booking/host-header";
 import { QuotaExceeded } from "@/components/booking/quota-exceeded";
 import {
-  computeAvailableDates,
-  computeAvailableSlots,
-} from "@/lib/availability";
+  applyAvailabilityCalendar,
+  applyCoHosts,
+  getGoogleBusyTimes,
+  getRoundRobinPool,
+} from "@/lib/actions/booking";
 import { getActivebookingIds } from "@/lib/actions/calendar";
-import { getGoogleBusyTimes } from "@/lib/actions/booking";
+import {
+  type BusyTime,
+  computePoolSlotsInRange,
+  computeSlotsInRange,
+  getAvailabilityHorizon,
+  getBookableRange,
+  getDayBoundsInTimeZone,
+  getSeatedMeetings,
+  getSeatKey,
+  RECURRING_AVAILABILITY_WINDOW_DAYS,
+  toDateInTimeZone,
+  toHostAvailability,
+} from "@/lib/availability";
+import {
+  describeBookingLinkStatus,
+  getBookingLinkStatus,
+} from "@/lib/booking-links";
+import {
+  describeUnchangeableBooking,
+  isBookingChangeable,
+} from "@/lib/booking-management";
+import { getDurationChoices } from "@/lib/durations";
 import { getHostBookingQuotaStatus } from "@/lib/features";
-import { HostHeader } from "@/components/booking/host-header";
-import { startOfDay, parseISO } from "date-fns";
-import { formatInTimeZone } from "date-fns-tz";
+import { resolveIntakeQuestions } from "@/lib/intake-questions";
+import {
+  describeMeetingLocation,
+  resolveMeetingLocation,
+} from "@/lib/locations";
+import { hasBookableHosts, resolveSchedulingType } from "@/lib/scheduling";
+import { sanityFetch } from "@/sanity/lib/live";
+import { BOOKING_LINK_BY_TOKEN_QUERY } from "@/sanity/queries/bookingLinks";
+import {
+  ALL_BOOKINGS_BY_HOST_SLUG_QUERY,
+  BOOKING_BY_MANAGE_TOKEN_QUERY,
+} from "@/sanity/queries/bookings";
+import {
+  MEETING_TYPE_BY_SLUGS_QUERY,
+  MEETING_TYPE_SLUG_REDIRECT_QUERY,
+} from "@/sanity/queries/meetingTypes";
 
 interface BookingPageProps {
   params: Promise<{ slug: string; meetingType: string }>;
+  searchParams: Promise<{
+    duration?: string;
+    token?: string;
+    reschedule?: string;
+  }>;
 }
 
 export default async function MeetingTypeBookingPage({
   params,
+  searchParams,
 }: BookingPageProps) {
   const { slug, meetingType } = await params;
+  const { duration: requestedDuration, token, reschedule } = await searchParams;
 
   // ============================================================================
   // BOOKING QUOTA CHECK
@@ -62,19 +105,179 @@ export default async function MeetingTypeBookingPage({
     }),
   ]);
 
-  if (!meetingTypeData || !meetingTypeData.host) {
+  if (!meetingTypeData) {
+    // Links made before the meeting type's slug was changed still work
+    const { data: currentSlug } = await sanityFetch({
+      query: MEETING_TYPE_SLUG_REDIRECT_QUERY,
+      params: { hostSlug: slug, meetingTypeSlug: meetingType },
+    });
+    if (currentSlug) {
+      const query = new URLSearchParams(
+        Object.entries({
+          duration: requestedDuration,
+          token,
+          reschedule,
+        }).filter((entry): entry is [string, string] => !!entry[1]),
+      ).toString();
+      redirect(`/book/${slug}/${currentSlug}${query ? `?${query}` : ""}`);
+    }
+    notFound();
+  }
+
+  if (!meetingTypeData.host) {
     notFound();
   }
 
   const host = meetingTypeData.host;
 
-  // If host has exceeded their monthly booking quota, show the quota exceeded page
-  if (quotaStatus.isExceeded) {
+  // Guests moving a booking (?reschedule=) pick a new time for that booking
+  const { data: bookingToMove } = reschedule
+    ? await sanityFetch({
+        query: BOOKING_BY_MANAGE_TOKEN_QUERY,
+        params: { manageToken: reschedule },
+      })
+    : { data: null };
+  if (
+    reschedule &&
+    (bookingToMove?.meetingTypeId !== meetingTypeData._id ||
+      !isBookingChangeable(bookingToMove.startTime))
+  ) {
+    return (
+      <main className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+        <div className="container mx-auto px-4 py-12 max-w-4xl">
+          <HostHeader
+            hostName={host.name}
+            subtitle={describeUnchangeableBooking(bookingToMove)}
+          />
+        </div>
+      </main>
+    );
+  }
+
+  // Meeting types still waiting on their hosts can't be booked yet
+  if (!hasBookableHosts(meetingTypeData)) {
+    return (
+      <main className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+        <div className="container mx-auto px-4 py-12 max-w-4xl">
+          <HostHeader
+            hostName={host.name}
+            subtitle={`This meeting type isn't taking bookings yet. Please check back later or contact ${host.name ?? "the host"}.`}
+          />
+        </div>
+      </main>
+    );
+  }
+
+  const schedulingType = resolveSchedulingType(meetingTypeData.schedulingType);
+
+  // If host has exceeded their monthly booking quota, show the quota exceeded
+  // page (moving a booking doesn't add one)
+  if (
+    schedulingType !== "roundRobin" &&
+    quotaStatus.isExceeded &&
+    !bookingToMove
+  ) {
+    return <QuotaExceeded hostName={host.name ?? "This host"} />;
+  }
+
+  // Round-robin bookings count against the pool member they go to, so
+  // members over their quota are passed over, and the quota exceeded page
+  // shows once everyone is (a round-robin booking being moved stays with the
+  // host it was given)
+  const roundRobinPool = (meetingTypeData.roundRobinHosts ?? []).filter(
+    (entry) => entry.host,
+  );
+  const roundRobinQuotas =
+    schedulingType === "roundRobin" && !bookingToMove
+      ? await Promise.all(
+          roundRobinPool.map((entry) =>
+            getHostBookingQuotaStatus(entry.host?.slug?.current ?? ""),
+          ),
+        )
+      : [];
+  const roundRobinHosts =
+    schedulingType === "roundRobin"
+      ? roundRobinPool.filter((entry, index) =>
+          bookingToMove
+            ? entry.host?._id === bookingToMove.host?._id
+            : !roundRobinQuotas[index].isExceeded,
+        )
+      : [];
+  if (
+    schedulingType === "roundRobin" &&
+    roundRobinHosts.length === 0 &&
+    !bookingToMove
+  ) {
     return <QuotaExceeded hostName={host.name ?? "This host"} />;
   }
 
-  const duration = meetingTypeData.duration ?? 30;
-  const availability = host.availability ?? [];
+  // One-off links (?token=) only work until they're used or expire
+  if (token) {
+    const { data: bookingLink } = await sanityFetch({
+      query: BOOKING_LINK_BY_TOKEN_QUERY,
+      params: {
+        linkToken: token,
+        hostSlug: slug,
+        meetingTypeSlug: meetingType,
+      },
+    });
+    const linkStatus = getBookingLinkStatus(bookingLink);
+    if (linkStatus !== "valid") {
+      return (
+        <main className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+          <div className="container mx-auto px-4 py-12 max-w-4xl">
+            <HostHeader
+              hostName={host.name}
+              subtitle={`${describeBookingLinkStatus(linkStatus)} Please ask ${host.name ?? "the host"} for a new one.`}
+            />
+          </div>
+        </main>
+      );
+    }
+  }
+
+  // The guest picks from the durations the meeting type offers (?duration=),
+  // starting with its default. A booking being moved keeps its length.
+  const defaultDuration = meetingTypeData.duration ?? 30;
+  const durationChoices = bookingToMove
+    ? [
+        bookingToMove.duration ??
+          differenceInMinutes(
+            parseISO(bookingToMove.endTime),
+            parseISO(bookingToMove.startTime),
+          ),
+      ]
+    : getDurationChoices(defaultDuration, meetingTypeData.durationOptions);
+  const duration = durationChoices.includes(Number(requestedDuration))
+    ? Number(requestedDuration)
+    : durationChoices[0];
+  const slotOptions = {
+    bufferBefore: meetingTypeData.bufferBefore ?? 0,
+    bufferAfter: meetingTypeData.bufferAfter ?? 0,
+    slotInterval: meetingTypeData.slotInterval,
+    minimumNotice: meetingTypeData.minimumNotice,
+    bookingWindow: meetingTypeData.bookingWindow,
+    hostCaps: {
+      perDay: host.maxBookingsPerDay,
+      perWeek: host.maxBookingsPerWeek,
+    },
+    meetingTypeCaps: {
+      meetingTypeId: meetingTypeData._id,
+      perDay: meetingTypeData.maxBookingsPerDay,
+      perWeek: meetingTypeData.maxBookingsPerWeek,
+    },
+    // Group events take several guests per slot
+    seats:
+      (meetingTypeData.seats ?? 1) > 1
+        ? {
+            meetingTypeId: meetingTypeData._id,
+            capacity: meetingTypeData.seats ?? 1,
+          }
+        : null,
+  };
+  // One-off blocks, recurring rules and date overrides (all via Sanity Live)
+  // from the meeting type's schedule, or the host's own availability
+  const baseAvailability = toHostAvailability(meetingTypeData.schedule ?? host);
   const allBookingsRaw = bookings ?? [];
 
   // ============================================================================
@@ -101,8 +304,16 @@ export default async function MeetingTypeBookingPage({
     })),
   );
 
-  // Only include active bookings (not cancelled in Google Calendar)
-  const allBookings = allBookingsRaw.filter((b) => activeBookingIds.has(b._id));
+  // Only include active bookings (not cancelled in Google Calendar), apart
+  // from the booking being moved
+  const allBookings = allBookingsRaw.filter(
+    (b) => activeBookingIds.has(b._id) && b._id !== bookingToMove?._id,
+  );
+
+  // The booking being moved doesn't block its own time in anyone's calendar
+  const isNotMovedEvent = (busy: BusyTime) =>
+    !bookingToMove?.googleEventId ||
+    busy.eventId !== bookingToMove.googleEventId;
 
   // ============================================================================
   // FETCH GOOGLE CALENDAR BUSY TIMES
@@ -110,98 +321,176 @@ export default async function MeetingTypeBookingPage({
   // Block time slots that overlap with existing Google Calendar events.
   // This prevents double-booking when the host has other meetings.
   // ============================================================================
-  const today = startOfDay(new Date());
+  // "Today" and all day boundaries are in the schedule's timezone
+  const hostTimezone = baseAvailability.timezone;
+  const now = new Date();
+  const today = getDayBoundsInTimeZone(
+    toDateInTimeZone(now, hostTimezone),
+    hostTimezone,
+  ).start;
 
-  // Find the latest availability block end date
-  const latestEndDate = availability.reduce<Date>((latest, slot) => {
-    const slotEnd = parseISO(slot.endDateTime);
-    return slotEnd > latest ? slotEnd : latest;
-  }, today);
+  // Guests can only book between the minimum notice and the booking horizon
+  const { earliest, latest } = getBookableRange(slotOptions, now, hostTimezone);
+
+  // The host's own availability also takes in their availability calendar
+  // (read up to the booking horizon, or the rolling recurring window)
+  const hostAvailability = meetingTypeData.schedule
+    ? baseAvailability
+    : await applyAvailabilityCalendar(
+        host,
+        baseAvailability,
+        today,
+        latest ?? addDays(today, RECURRING_AVAILABILITY_WINDOW_DAYS),
+      );
+
+  // Find the latest point the host could be available
+  const latestEndDate = getAvailabilityHorizon(hostAvailability, today, latest);
+
+  // Collective meeting types are only offered when every co-host is free as
+  // well; bookings the host attends as someone's co-host block them too
+  const coHosts =
+    schedulingType === "collective" ? (meetingTypeData.coHosts ?? []) : [];
 
   // Fetch busy times from all connected Google Calendar accounts
-  const busyTimes = await getGoogleBusyTimes(
-    host.connectedAccounts,
-    today,
-    latestEndDate,
+  const [hostBusyTimes, { availability, busyTimes: coHostBusyTimes }] =
+    await Promise.all([
+      getGoogleBusyTimes(host.connectedAccounts, today, latestEndDate),
+      applyCoHosts(host._id, coHosts, hostAvailability, today, latestEndDate),
+    ]);
+  const busyTimes = [...hostBusyTimes, ...coHostBusyTimes].filter(
+    isNotMovedEvent,
   );
 
   // ============================================================================
   // SERVER-SIDE SLOT COMPUTATION
   // ============================================================================
-  // Slots are computed server-side and grouped by date using the VISITOR'S
+  // Slots for the whole range are computed server-side in one pass (days run
+  // in the HOST'S timezone), then grouped by date using the VISITOR'S
   // timezone (from cookie). This ensures correct calendar day display.
   // ============================================================================
+  // Round-robin meeting types offer every slot at least one host in the
+  // pool can take, each host with their own availability and calendar
+  const poolEnd = latest ?? addDays(today, RECURRING_AVAILABILITY_WINDOW_DAYS);
+  const slots =
+    schedulingType === "roundRobin"
+      ? computePoolSlotsInRange(
+          (
+            await getRoundRobinPool(
+              roundRobinHosts,
+              slotOptions,
+              today,
+              poolEnd,
+            )
+          ).map((member) => ({
+            ...member,
+            bookings: member.bookings.filter(
+              (b) => b._id !== bookingToMove?._id,
+            ),
+            busyTimes: member.busyTimes.filter(isNotMovedEvent),
+          })),
+          today,
+          poolEnd,
+          duration,
+        )
+      : computeSlotsInRange(
+          availability,
+          allBookings,
+          today,
+          latestEndDate,
+          duration,
+          busyTimes,
+          slotOptions,
+        );
 
-  // Compute available dates (for iteration only)
-  const serverDates = computeAvailableDates(
-    availability,
-    allBookings,
-    today,
-    latestEndDate,
-    duration,
-    busyTimes,
-  );
+  // Group events show how many seats each slot has left
+  const seatedMeetings = getSeatedMeetings(allBookings, slotOptions);
+  const slotsByDate: Record<
+    string,
+    Array<{ start: string; end: string; seatsLeft?: number }>
+  > = {};
 
-  // Compute all slots and group by date in VISITOR'S TIMEZONE
-  const slotsByDate: Record<string, Array<{ start: string; end: string }>> = {};
-
-  for (const dateStr of serverDates) {
-    const date = new Date(dateStr);
-    const slots = computeAvailableSlots(
-      availability,
-      allBookings,
-      date,
-      duration,
-      busyTimes,
+  // Group each slot by its date in the VISITOR'S timezone
+  for (const slot of slots) {
+    // Format date key using visitor's timezone (e.g., "2024-01-15")
+    const localDateKey = formatInTimeZone(
+      slot.start,
+      visitorTimezone,
+      "yyyy-MM-dd",
     );
 
-    // Group each slot by its date in the VISITOR'S timezone
-    for (const slot of slots) {
-      // Format date key using visitor's timezone (e.g., "2024-01-15")
-      const localDateKey = formatInTimeZone(
-        slot.start,
-        visitorTimezone,
-        "yyyy-MM-dd",
-      );
-
-      if (!slotsByDate[localDateKey]) {
-        slotsByDate[localDateKey] = [];
-      }
-
-      slotsByDate[localDateKey].push({
-        start: slot.start.toISOString(),
-        end: slot.end.toISOString(),
-      });
+    if (!slotsByDate[localDateKey]) {
+      slotsByDate[localDateKey] = [];
     }
+
+    slotsByDate[localDateKey].push({
+      start: slot.start.toISOString(),
+      end: slot.end.toISOString(),
+      ...(slotOptions.seats && {
+        seatsLeft:
+          slotOptions.seats.capacity -
+          (seatedMeetings.get(getSeatKey(slot.start, slot.end))?.guests ?? 0),
+      }),
+    });
   }
 
   // Get unique available dates (now correctly in visitor's timezone)
   const availableDates = Object.keys(slotsByDate).sort();
 
+  const location = resolveMeetingLocation(meetingTypeData.location);
+  // "Ann and Bob" for collective meetings, "Ann or Bob" for round robin
+  const hostNames = new Intl.ListFormat("en", {
+    type: schedulingType === "roundRobin" ? "disjunction" : "conjunction",
+  }).format(
+    (schedulingType === "roundRobin"
+      ? roundRobinHosts.map((entry) => entry.host?.name)
+      : [host.name, ...coHosts.map((coHost) => coHost.name)]
+    ).filter((name): name is string => !!name),
+  );
+
   return (
     <main className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
       <div className="container mx-auto px-4 py-12 max-w-4xl">
         <HostHeader
-          hostName={host.name}
+          hostName={hostNames || host.name}
           meetingType={{
             name: meetingTypeData.name,
-            duration: meetingTypeData.duration ?? 30,
+            duration,
             description: meetingTypeData.description,
+            location: describeMeetingLocation(location),
           }}
         />
 
         {/* Booking Calendar - receives slots pre-grouped by visitor's timezone */}
         <BookingCalendar
           hostSlug={slug}
-          hostName={host.name ?? "Host"}
+          hostName={hostNames || "Host"}
           meetingTypeSlug={meetingType}
           meetingTypeName={meetingTypeData.name ?? "Meeting"}
           duration={duration}
+          durationChoices={durationChoices}
+          questions={resolveIntakeQuestions(meetingTypeData.questions)}
+          asksForPhone={location.type === "guestPhone"}
           availableDates={availableDates}
           slotsByDate={slotsByDate}
+          bookableFrom={formatInTimeZone(
+            earliest,
+            visitorTimezone,
+            "yyyy-MM-dd",
+          )}
+          bookableUntil={
+            latest
+              ? formatInTimeZone(latest, visitorTimezone, "yyyy-MM-dd")
+              : undefined
+          }
           timezone={visitorTimezone}
+          linkToken={token}
+          reschedule={
+            bookingToMove && reschedule
+              ? { token: reschedule, currentStartTime: bookingToMove.startTime }
+              : undefined
+          }
         />
       </div>
     </main>
   );
-}
\ No newline at end of file
+}
@@ -1,11 +1,7 @@
-import { notFound, redirect } from "next/navigation";
+import { Clock } from "lucide-react";
 import Link from "next/link";
-import { sanityFetch } from "@/sanity/lib/live";
-import { USER_BY_SLUG_QUERY } from "@/sanity/queries/users";
-import {
-  MEETING_TYPES_BY_HOST_SLUG_QUERY,
-  type MeetingTypePublic,
-} from "@/sanity/queries/meetingTypes";
+import { notFound, redirect } from "next/navigation";
+import { HostHeader } from "@/components/booking/host-header";
 import {
   Card,
   CardContent,
@@ -13,8 +9,13 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Clock } from "lucide-react";
-import { HostHeader } from "@/components/booking/host-header";
+import { formatDuration, getDurationChoices } from "@/lib/durations";
+import { sanityFetch } from "@/sanity/lib/live";
+import {
+  MEETING_TYPES_BY_HOST_SLUG_QUERY,
+  type MeetingTypePublic,
+} from "@/sanity/queries/meetingTypes";
+import { USER_BY_SLUG_QUERY } from "@/sanity/queries/users";
 
 interface BookingPageProps {
   params: Promise<{ slug: string }>;
@@ -88,7 +89,12 @@ export default async function BookingPage({ params }: BookingPageProps) {
                     </CardTitle>
                     <div className="flex items-center gap-1.5 text-sm font-medium text-blue-600 dark:text-blue-400">
                       <Clock className="h-4 w-4" />
-                      {meetingType.duration} min
+                      {getDurationChoices(
+                        meetingType.duration ?? 30,
+                        meetingType.durationOptions,
+                      )
+                        .map(formatDuration)
+                        .join(" / ")}
                     </div>
                   </div>
                 </CardHeader>
@@ -104,4 +110,4 @@ export default async function BookingPage({ params }: BookingPageProps) {
       </div>
     </main>
   );
-}
\ No newline at end of file
+}
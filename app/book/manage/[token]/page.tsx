@@ -0,0 +1,124 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { CalendarClock, Clock, MapPin } from "lucide-react";
+import { cookies } from "next/headers";
+import Link from "next/link";
+import { CancelBookingForm } from "@/components/booking/cancel-booking-form";
+import { HostHeader } from "@/components/booking/host-header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  describeUnchangeableBooking,
+  getRescheduleBookingPath,
+  isBookingChangeable,
+} from "@/lib/booking-management";
+import { describeBookingLocation } from "@/lib/locations";
+import { sanityFetch } from "@/sanity/lib/live";
+import { BOOKING_BY_MANAGE_TOKEN_QUERY } from "@/sanity/queries/bookings";
+
+interface ManageBookingPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function ManageBookingPage({
+  params,
+}: ManageBookingPageProps) {
+  const { token } = await params;
+
+  // Times are shown in the visitor's timezone (cookie set by
+  // TimezoneDetector), falling back to UTC
+  const cookieStore = await cookies();
+  let visitorTimezone = cookieStore.get("timezone")?.value ?? "UTC";
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: visitorTimezone });
+  } catch {
+    visitorTimezone = "UTC";
+  }
+
+  const { data: booking } = await sanityFetch({
+    query: BOOKING_BY_MANAGE_TOKEN_QUERY,
+    params: { manageToken: token },
+  });
+
+  if (!booking || !isBookingChangeable(booking.startTime)) {
+    return (
+      <main className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+        <div className="container mx-auto px-4 py-12 max-w-4xl">
+          <HostHeader
+            hostName={booking?.host?.name ?? null}
+            subtitle={describeUnchangeableBooking(booking)}
+          />
+        </div>
+      </main>
+    );
+  }
+
+  // Meetings can only move to another slot of a meeting type still offered
+  const canReschedule =
+    !!booking.meetingTypeSlug && booking.meetingTypeArchived !== true;
+
+  return (
+    <main className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="container mx-auto px-4 py-12 max-w-lg">
+        <HostHeader
+          hostName={booking.host?.name ?? null}
+          subtitle={`Your ${booking.meetingTypeName ?? "meeting"} with ${booking.host?.name ?? "the host"}`}
+        />
+
+        <Card>
+          <CardContent className="space-y-6 p-6">
+            <div className="space-y-3 rounded-lg bg-slate-50 dark:bg-slate-800 p-4">
+              <div className="flex items-center gap-3">
+                <Clock className="h-5 w-5 shrink-0 text-slate-400" />
+                <div>
+                  <p className="font-medium text-slate-900 dark:text-white">
+                    {formatInTimeZone(
+                      booking.startTime,
+                      visitorTimezone,
+                      "EEEE, MMMM d, yyyy",
+                    )}
+                  </p>
+                  <p className="text-sm text-slate-600 dark:text-slate-400">
+                    {formatInTimeZone(
+                      booking.startTime,
+                      visitorTimezone,
+                      "h:mm a",
+                    )}{" "}
+                    -{" "}
+                    {formatInTimeZone(
+                      booking.endTime,
+                      visitorTimezone,
+                      "h:mm a",
+                    )}{" "}
+                    ({visitorTimezone.replace(/_/g, " ")})
+                  </p>
+                </div>
+              </div>
+              {booking.location?.type && (
+                <div className="flex items-center gap-3">
+                  <MapPin className="h-5 w-5 shrink-0 text-slate-400" />
+                  <p className="text-sm text-slate-600 dark:text-slate-400 whitespace-pre-line break-all">
+                    {describeBookingLocation({
+                      type: booking.location.type,
+                      value: booking.location.value ?? "",
+                    })}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {canReschedule && (
+              <Button asChild variant="outline" className="w-full">
+                <Link href={getRescheduleBookingPath(token)}>
+                  <CalendarClock className="mr-2 h-4 w-4" />
+                  Pick Another Time
+                </Link>
+              </Button>
+            )}
+
+            <CancelBookingForm manageToken={token} />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,54 @@
+import { redirect } from "next/navigation";
+import { HostHeader } from "@/components/booking/host-header";
+import {
+  describeUnchangeableBooking,
+  isBookingChangeable,
+} from "@/lib/booking-management";
+import { sanityFetch } from "@/sanity/lib/live";
+import { BOOKING_BY_MANAGE_TOKEN_QUERY } from "@/sanity/queries/bookings";
+
+interface RescheduleBookingPageProps {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * The reschedule link in the guest's invite: opens the meeting type's
+ * booking page to pick a new time for the booking
+ */
+export default async function RescheduleBookingPage({
+  params,
+}: RescheduleBookingPageProps) {
+  const { token } = await params;
+
+  const { data: booking } = await sanityFetch({
+    query: BOOKING_BY_MANAGE_TOKEN_QUERY,
+    params: { manageToken: token },
+  });
+
+  const isChangeable = !!booking && isBookingChangeable(booking.startTime);
+  if (
+    isChangeable &&
+    booking.meetingTypeHostSlug &&
+    booking.meetingTypeSlug &&
+    booking.meetingTypeArchived !== true
+  ) {
+    redirect(
+      `/book/${booking.meetingTypeHostSlug}/${booking.meetingTypeSlug}?reschedule=${token}`,
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="container mx-auto px-4 py-12 max-w-4xl">
+        <HostHeader
+          hostName={booking?.host?.name ?? null}
+          subtitle={
+            isChangeable
+              ? `This meeting type can no longer be booked. Please contact ${booking.host?.name ?? "the host"} to find another time.`
+              : describeUnchangeableBooking(booking)
+          }
+        />
+      </div>
+    </main>
+  );
+}
@@ -1,13 +1,13 @@
 "use client";
 
-import { Suspense, useState, useCallback, useEffect, useMemo } from "react";
 import {
-  useDocuments,
-  useDocumentProjection,
   type DocumentHandle,
+  useDocumentProjection,
+  useDocuments,
 } from "@sanity/sdk-react";
-import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
-import { TrendingUpIcon, TrendingDownIcon, MinusIcon, CalendarCheckIcon } from "lucide-react";
+import { CalendarCheckIcon, MinusIcon, TrendingDownIcon, TrendingUpIcon } from "lucide-react";
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 interface BookingProjection {
   startTime: string | null;
@@ -59,6 +59,8 @@ function getWeekRange(weeksAgo: number): { start: Date; end: Date } {
 export function BookingTrendCard() {
   const { data: bookings } = useDocuments({
     documentType: "booking",
+    // A rescheduled booking is counted once, at its new time
+    filter: 'status != "rescheduled"',
   });
 
   const [dateMap, setDateMap] = useState<Record<string, string>>({});
@@ -3,12 +3,14 @@
 "use client";
 
 import { useDocuments } from "@sanity/sdk-react";
-import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import type { LucideIcon } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 interface DocumentCountCardProps {
   /** The Sanity document type to count */
   documentType: string;
+  /** Optional GROQ filter narrowing which documents are counted */
+  filter?: string;
   /** The title displayed on the card */
   title: string;
   /** Optional icon to display */
@@ -21,11 +23,13 @@ interface DocumentCountCardProps {
  */
 export function DocumentCountCard({
   documentType,
+  filter,
   title,
   icon: Icon,
 }: DocumentCountCardProps) {
   const { data: documents } = useDocuments({
     documentType,
+    filter,
   });
 
   const count = documents?.length ?? 0;
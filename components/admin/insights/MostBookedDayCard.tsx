@@ -1,13 +1,13 @@
 "use client";
 
-import { Suspense, useState, useCallback, useEffect } from "react";
 import {
-  useDocuments,
-  useDocumentProjection,
   type DocumentHandle,
+  useDocumentProjection,
+  useDocuments,
 } from "@sanity/sdk-react";
-import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { CalendarDaysIcon } from "lucide-react";
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 const DAYS = [
   "Sunday",
@@ -53,6 +53,8 @@ function BookingDayReporter({
 export function MostBookedDayCard() {
   const { data: bookings } = useDocuments({
     documentType: "booking",
+    // A rescheduled booking is counted once, at its new time
+    filter: 'status != "rescheduled"',
   });
 
   const [dayMap, setDayMap] = useState<Record<string, number>>({});
@@ -3,6 +3,7 @@
 import { CalendarCheckIcon } from "lucide-react";
 import { DocumentCountCard } from "./DocumentCountCard";
 
+// A rescheduled booking is counted once, as the booking at its new time
 export function TotalBookingsCard() {
-  return <DocumentCountCard documentType="booking" title="Total Bookings" icon={CalendarCheckIcon} />;
+  return <DocumentCountCard documentType="booking" filter={'status != "rescheduled"'} title="Total Bookings" icon={CalendarCheckIcon} />;
 }
\ No newline at end of file
@@ -1,13 +1,20 @@
 "use client";
 
+import { UserButton } from "@clerk/nextjs";
+import {
+  Calendar,
+  CalendarCheck,
+  Clock,
+  MessageSquare,
+  Settings,
+} from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { UserButton } from "@clerk/nextjs";
-import { Calendar, CalendarCheck, MessageSquare, Settings } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const leftNavItems = [
   { href: "/availability", label: "Availability", icon: Calendar },
+  { href: "/meeting-types", label: "Meeting Types", icon: Clock },
   { href: "/bookings", label: "Bookings", icon: CalendarCheck },
 ];
 
@@ -71,4 +78,4 @@ export function AppHeader() {
       </div>
     </header>
   );
-}
\ No newline at end of file
+}
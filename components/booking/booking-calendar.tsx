@@ -1,27 +1,47 @@
 "use client";
 
-import { useState, useTransition } from "react";
-import { format, startOfDay, isBefore } from "date-fns";
+import { format, isBefore, startOfDay } from "date-fns";
 import {
-  Loader2,
+  Check,
   Clock,
-  User,
+  Globe,
+  Loader2,
   Mail,
+  MapPin,
   MessageSquare,
-  Check,
-  Globe,
+  Phone,
+  User,
 } from "lucide-react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { createBooking } from "@/lib/actions/booking";
+import { createBooking, rescheduleBooking } from "@/lib/actions/booking";
+import {
+  getCancelBookingPath,
+  getRescheduleBookingPath,
+} from "@/lib/booking-management";
+import { formatDuration } from "@/lib/durations";
+import {
+  type IntakeAnswerValues,
+  type IntakeQuestion,
+  validateIntakeAnswers,
+} from "@/lib/intake-questions";
+import {
+  type BookingLocation,
+  describeBookingLocation,
+  isVideoLocation,
+} from "@/lib/locations";
+import { IntakeQuestionField } from "./intake-question-field";
 
-// Slot types
-type SerializedSlot = { start: string; end: string };
-type TimeSlot = { start: Date; end: Date };
+// Slot types (group events say how many seats each slot has left)
+type SerializedSlot = { start: string; end: string; seatsLeft?: number };
+type TimeSlot = { start: Date; end: Date; seatsLeft?: number };
 
 interface BookingCalendarProps {
   hostSlug: string;
@@ -29,11 +49,26 @@ interface BookingCalendarProps {
   meetingTypeSlug: string;
   meetingTypeName: string;
   duration: number;
+  // Durations the guest can pick from (slots are computed for `duration`)
+  durationChoices?: number[];
+  // The meeting type's intake questions, asked with the guest's details
+  questions?: IntakeQuestion[];
+  // Whether the host calls the guest, so the form asks for their number
+  asksForPhone?: boolean;
   // Server pre-computes these using the visitor's timezone (from cookie)
   availableDates: string[];
   slotsByDate: Record<string, SerializedSlot[]>;
+  // First and last bookable dates (YYYY-MM-DD, visitor's timezone) from the
+  // meeting type's minimum notice and booking horizon
+  bookableFrom?: string;
+  bookableUntil?: string;
   // Visitor's detected timezone (e.g., "America/New_York")
   timezone: string;
+  // Token of the one-off link the guest came from, checked when booking
+  linkToken?: string;
+  // The booking being moved (from the guest's reschedule link): picking a
+  // time moves it instead of asking for the guest's details
+  reschedule?: { token: string; currentStartTime: string };
 }
 
 type BookingStep = "select-time" | "enter-details" | "confirmed";
@@ -44,22 +79,48 @@ export function BookingCalendar({
   meetingTypeSlug,
   meetingTypeName,
   duration,
+  durationChoices = [duration],
+  questions = [],
+  asksForPhone = false,
   availableDates,
   slotsByDate,
+  bookableFrom,
+  bookableUntil,
   timezone,
+  linkToken,
+  reschedule,
 }: BookingCalendarProps) {
   const [date, setDate] = useState<Date | undefined>(undefined);
   const [month, setMonth] = useState<Date>(new Date());
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
   const [step, setStep] = useState<BookingStep>("select-time");
   const [isPending, startTransition] = useTransition();
+  const [isChangingDuration, startDurationTransition] = useTransition();
+  const [prevDuration, setPrevDuration] = useState(duration);
+  const router = useRouter();
+  const pathname = usePathname();
 
   // Form state
   const [guestName, setGuestName] = useState("");
   const [guestEmail, setGuestEmail] = useState("");
   const [notes, setNotes] = useState("");
+  const [guestPhone, setGuestPhone] = useState("");
+  const [answers, setAnswers] = useState<IntakeAnswerValues>({});
+  const [location, setLocation] = useState<BookingLocation | null>(null);
+  // Round-robin bookings are given to one host from the pool
+  const [bookedHostName, setBookedHostName] = useState<string | null>(null);
+  // Secret for the guest's links to change the booking afterwards
+  const [manageToken, setManageToken] = useState<string | null>(
+    reschedule?.token ?? null,
+  );
   const [error, setError] = useState<string | null>(null);
 
+  // Slots change with the duration, so the picked slot no longer applies
+  if (duration !== prevDuration) {
+    setPrevDuration(duration);
+    setSelectedSlot(null);
+  }
+
   const today = startOfDay(new Date());
 
   // Convert to Set for O(1) lookup
@@ -71,6 +132,20 @@ export function BookingCalendar({
     return availableDatesSet.has(dateStr);
   };
 
+  // Check if a date is outside the meeting type's booking window
+  const isOutsideBookingWindow = (day: Date) => {
+    const dateStr = format(day, "yyyy-MM-dd");
+    return (
+      (!!bookableFrom && dateStr < bookableFrom) ||
+      (!!bookableUntil && dateStr > bookableUntil)
+    );
+  };
+
+  const isDisabled = (day: Date) =>
+    isBefore(day, today) ||
+    isOutsideBookingWindow(day) ||
+    !hasAvailability(day);
+
   // Get slots for selected date (deserialize from server data)
   const getSlotsForDate = (selectedDate: Date): TimeSlot[] => {
     const dateStr = format(selectedDate, "yyyy-MM-dd");
@@ -78,6 +153,7 @@ export function BookingCalendar({
     return serializedSlots.map((s) => ({
       start: new Date(s.start),
       end: new Date(s.end),
+      seatsLeft: s.seatsLeft,
     }));
   };
 
@@ -89,14 +165,45 @@ export function BookingCalendar({
     setSelectedSlot(null);
   };
 
+  // Slots for another duration are computed on the server
+  const handleDurationSelect = (minutes: number) => {
+    startDurationTransition(() => {
+      const params = new URLSearchParams({ duration: String(minutes) });
+      if (linkToken) params.set("token", linkToken);
+      router.replace(`${pathname}?${params}`, { scroll: false });
+    });
+  };
+
   const handleSlotSelect = (slot: TimeSlot) => {
     setSelectedSlot(slot);
   };
 
   const handleContinue = () => {
-    if (selectedSlot) {
+    if (!selectedSlot) return;
+    if (!reschedule) {
       setStep("enter-details");
+      return;
     }
+
+    // A booking being moved already has the guest's details
+    setError(null);
+    startTransition(async () => {
+      try {
+        const booking = await rescheduleBooking(
+          reschedule.token,
+          selectedSlot.start,
+          selectedSlot.end,
+        );
+        setLocation(booking.location);
+        setBookedHostName(booking.hostName);
+        setGuestEmail(booking.guestEmail);
+        setStep("confirmed");
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to reschedule booking",
+        );
+      }
+    });
   };
 
   const handleBack = () => {
@@ -110,17 +217,34 @@ export function BookingCalendar({
 
     setError(null);
 
+    // Same checks as the server, so mistakes show before submitting
+    try {
+      validateIntakeAnswers(questions, answers);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Please check your answers",
+      );
+      return;
+    }
+
     startTransition(async () => {
       try {
-        await createBooking({
+        const booking = await createBooking({
           hostSlug,
           meetingTypeSlug,
           startTime: selectedSlot.start,
           endTime: selectedSlot.end,
+          duration,
           guestName,
           guestEmail,
+          guestPhone: asksForPhone ? guestPhone : undefined,
           notes: notes || undefined,
+          answers,
+          linkToken,
         });
+        setLocation(booking.location);
+        setBookedHostName(booking.hostName);
+        setManageToken(booking.manageToken);
         setStep("confirmed");
       } catch (err) {
         setError(
@@ -139,10 +263,11 @@ export function BookingCalendar({
             <Check className="h-8 w-8" />
           </div>
           <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">
-            Booking Confirmed!
+            {reschedule ? "Booking Rescheduled!" : "Booking Confirmed!"}
           </h2>
           <p className="text-slate-600 dark:text-slate-400 mb-4">
-            Your {meetingTypeName} with {hostName} has been scheduled.
+            Your {meetingTypeName} with {bookedHostName ?? hostName} has been
+            {reschedule ? " moved" : " scheduled"}.
           </p>
           <div className="inline-flex items-center gap-1.5 rounded-full bg-blue-100 dark:bg-blue-900/30 px-3 py-1 text-sm font-medium text-blue-700 dark:text-blue-300 mb-6">
             <Clock className="h-3.5 w-3.5" />
@@ -161,6 +286,25 @@ export function BookingCalendar({
                 </p>
               </div>
             </div>
+            {location && (
+              <div className="flex items-center gap-3 mb-3">
+                <MapPin className="h-5 w-5 shrink-0 text-slate-400" />
+                {isVideoLocation(location.type) && location.value ? (
+                  <a
+                    href={location.value}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-blue-600 hover:underline break-all"
+                  >
+                    {location.value}
+                  </a>
+                ) : (
+                  <p className="text-sm text-slate-600 dark:text-slate-400 whitespace-pre-line">
+                    {describeBookingLocation(location)}
+                  </p>
+                )}
+              </div>
+            )}
             <div className="flex items-center gap-3">
               <Mail className="h-5 w-5 text-slate-400" />
               <p className="text-sm text-slate-600 dark:text-slate-400">
@@ -168,6 +312,24 @@ export function BookingCalendar({
               </p>
             </div>
           </div>
+          {manageToken && (
+            <p className="mt-6 text-sm text-slate-500">
+              Need to change your plans?{" "}
+              <Link
+                href={getRescheduleBookingPath(manageToken)}
+                className="text-blue-600 hover:underline"
+              >
+                Reschedule
+              </Link>{" "}
+              or{" "}
+              <Link
+                href={getCancelBookingPath(manageToken)}
+                className="text-blue-600 hover:underline"
+              >
+                cancel
+              </Link>
+            </p>
+          )}
         </CardContent>
       </Card>
     );
@@ -239,6 +401,39 @@ export function BookingCalendar({
               />
             </div>
 
+            {asksForPhone && (
+              <div className="space-y-2">
+                <Label htmlFor="phone" className="flex items-center gap-2">
+                  <Phone className="h-4 w-4" />
+                  Phone Number
+                </Label>
+                <Input
+                  id="phone"
+                  type="tel"
+                  value={guestPhone}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setGuestPhone(e.target.value)
+                  }
+                  placeholder="+1 555 0100"
+                  required
+                />
+                <p className="text-xs text-slate-500">
+                  {hostName} will call you on this number.
+                </p>
+              </div>
+            )}
+
+            {questions.map((question) => (
+              <IntakeQuestionField
+                key={question._key}
+                question={question}
+                value={answers[question._key]}
+                onChange={(value) =>
+                  setAnswers((prev) => ({ ...prev, [question._key]: value }))
+                }
+              />
+            ))}
+
             <div className="space-y-2">
               <Label htmlFor="notes" className="flex items-center gap-2">
                 <MessageSquare className="h-4 w-4" />
@@ -284,6 +479,27 @@ export function BookingCalendar({
   // Calendar + time slots
   return (
     <Card className="overflow-hidden">
+      {durationChoices.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 border-b px-6 py-4">
+          <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+            Duration
+          </span>
+          {durationChoices.map((minutes) => (
+            <Button
+              key={minutes}
+              size="sm"
+              variant={minutes === duration ? "default" : "outline"}
+              onClick={() => handleDurationSelect(minutes)}
+              disabled={isChangingDuration}
+            >
+              {formatDuration(minutes)}
+            </Button>
+          ))}
+          {isChangingDuration && (
+            <Loader2 className="h-4 w-4 animate-spin text-slate-400" />
+          )}
+        </div>
+      )}
       <CardContent className="relative p-0 md:pr-64">
         <div className="p-6">
           <Calendar
@@ -292,7 +508,7 @@ export function BookingCalendar({
             onSelect={handleDateSelect}
             month={month}
             onMonthChange={setMonth}
-            disabled={(day) => isBefore(day, today) || !hasAvailability(day)}
+            disabled={isDisabled}
             showOutsideDays={false}
             className="bg-transparent p-0"
             formatters={{
@@ -300,7 +516,7 @@ export function BookingCalendar({
                 d.toLocaleString("en-US", { weekday: "short" }),
             }}
             modifiers={{
-              available: (day) => hasAvailability(day) && !isBefore(day, today),
+              available: (day) => !isDisabled(day),
             }}
             modifiersClassNames={{
               available:
@@ -339,6 +555,13 @@ export function BookingCalendar({
                 >
                   <Clock className="mr-2 h-4 w-4" />
                   {format(slot.start, "h:mm a")}
+                  {slot.seatsLeft !== undefined && (
+                    <span className="ml-auto text-xs opacity-70">
+                      {slot.seatsLeft === 1
+                        ? "1 seat left"
+                        : `${slot.seatsLeft} seats left`}
+                    </span>
+                  )}
                 </Button>
               ))}
             </div>
@@ -347,6 +570,11 @@ export function BookingCalendar({
       </CardContent>
 
       <CardFooter className="flex flex-col gap-3 border-t px-6 py-5">
+        {error && (
+          <div className="w-full rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
         <div className="flex flex-col gap-4 w-full md:flex-row md:items-center">
           <div className="text-sm text-slate-600 dark:text-slate-400">
             {date && selectedSlot ? (
@@ -360,16 +588,28 @@ export function BookingCalendar({
                   {format(selectedSlot.start, "h:mm a")}
                 </span>
               </>
+            ) : reschedule ? (
+              <>
+                Currently:{" "}
+                <span className="font-medium text-slate-900 dark:text-white">
+                  {format(
+                    new Date(reschedule.currentStartTime),
+                    "EEEE, MMMM d 'at' h:mm a",
+                  )}
+                </span>
+                . Select a new date and time.
+              </>
             ) : (
               "Select a date and time for your meeting"
             )}
           </div>
           <Button
             onClick={handleContinue}
-            disabled={!selectedSlot}
+            disabled={!selectedSlot || isPending}
             className="w-full md:ml-auto md:w-auto"
           >
-            Continue
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {reschedule ? "Reschedule" : "Continue"}
           </Button>
         </div>
         {/* Timezone indicator */}
@@ -380,4 +620,4 @@ export function BookingCalendar({
       </CardFooter>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { Check, Loader2, XCircle } from "lucide-react";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cancelBookingAsGuest } from "@/lib/actions/booking";
+
+interface CancelBookingFormProps {
+  /** Secret from the guest's cancel link */
+  manageToken: string;
+}
+
+/**
+ * Let a guest cancel their booking, with an optional reason for the host.
+ */
+export function CancelBookingForm({ manageToken }: CancelBookingFormProps) {
+  const [reason, setReason] = useState("");
+  const [isCancelled, setIsCancelled] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isCancelling, startCancelTransition] = useTransition();
+
+  const handleCancel = () => {
+    setError(null);
+    startCancelTransition(async () => {
+      try {
+        await cancelBookingAsGuest(manageToken, reason || undefined);
+        setIsCancelled(true);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to cancel booking",
+        );
+      }
+    });
+  };
+
+  if (isCancelled) {
+    return (
+      <div className="flex items-center gap-2 rounded-md bg-emerald-50 border border-emerald-200 p-3 text-sm text-emerald-700">
+        <Check className="h-4 w-4 shrink-0" />
+        Your booking has been cancelled. The host has been told.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="cancel-reason">Reason for cancelling (optional)</Label>
+        <Textarea
+          id="cancel-reason"
+          rows={3}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Let the host know why you can't make it"
+        />
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="destructive"
+        className="w-full"
+        onClick={handleCancel}
+        disabled={isCancelling}
+      >
+        {isCancelling ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <XCircle className="mr-2 h-4 w-4" />
+        )}
+        Cancel Booking
+      </Button>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Clock } from "lucide-react";
+import { Clock, MapPin } from "lucide-react";
 
 interface HostHeaderProps {
   hostName: string | null;
@@ -7,6 +7,8 @@ interface HostHeaderProps {
     name: string | null;
     duration: number;
     description?: string | null;
+    /** Where the meeting takes place, e.g. "Google Meet video call" */
+    location?: string;
   };
   /** Subtitle text shown below the title */
   subtitle?: string;
@@ -51,6 +53,14 @@ export function HostHeader({
         </div>
       )}
 
+      {/* Location (only for meeting types) */}
+      {meetingType?.location && (
+        <p className="mt-3 flex items-center justify-center gap-1.5 text-sm text-slate-600 dark:text-slate-400">
+          <MapPin className="h-3.5 w-3.5" />
+          {meetingType.location}
+        </p>
+      )}
+
       {/* Description (only for meeting types) */}
       {meetingType?.description && (
         <p className="mt-4 text-slate-600 dark:text-slate-400 max-w-lg mx-auto">
@@ -59,4 +69,4 @@ export function HostHeader({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
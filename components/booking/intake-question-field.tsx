@@ -0,0 +1,120 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  type IntakeQuestion,
+  MAX_LONG_ANSWER_LENGTH,
+  MAX_SHORT_ANSWER_LENGTH,
+} from "@/lib/intake-questions";
+
+interface IntakeQuestionFieldProps {
+  question: IntakeQuestion;
+  value: string | string[] | boolean | undefined;
+  onChange: (value: string | string[] | boolean) => void;
+}
+
+/**
+ * Input for one of the meeting type's intake questions on the booking form.
+ */
+export function IntakeQuestionField({
+  question,
+  value,
+  onChange,
+}: IntakeQuestionFieldProps) {
+  const id = `question-${question._key}`;
+  const label = `${question.label}${question.required ? "" : " (optional)"}`;
+
+  if (question.type === "checkbox") {
+    return (
+      <div className="flex items-start gap-2">
+        <Checkbox
+          id={id}
+          checked={value === true}
+          onCheckedChange={(checked) => onChange(checked === true)}
+          className="mt-0.5"
+        />
+        <Label htmlFor={id} className="font-normal leading-snug">
+          {label}
+        </Label>
+      </div>
+    );
+  }
+
+  if (question.type === "multiChoice") {
+    const selected = Array.isArray(value) ? value : [];
+    const toggle = (option: string, checked: boolean) =>
+      onChange(
+        checked
+          ? [...selected, option]
+          : selected.filter((choice) => choice !== option),
+      );
+
+    return (
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium mb-2">{label}</legend>
+        {question.options.map((option) => (
+          <div key={option} className="flex items-center gap-2">
+            <Checkbox
+              id={`${id}-${option}`}
+              checked={selected.includes(option)}
+              onCheckedChange={(checked) => toggle(option, checked === true)}
+            />
+            <Label htmlFor={`${id}-${option}`} className="font-normal">
+              {option}
+            </Label>
+          </div>
+        ))}
+      </fieldset>
+    );
+  }
+
+  const text = typeof value === "string" ? value : "";
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      {question.type === "singleChoice" ? (
+        <Select value={text} onValueChange={onChange}>
+          <SelectTrigger id={id} className="w-full">
+            <SelectValue placeholder="Choose one" />
+          </SelectTrigger>
+          <SelectContent>
+            {question.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : question.type === "longText" ? (
+        <Textarea
+          id={id}
+          rows={3}
+          maxLength={MAX_LONG_ANSWER_LENGTH}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          required={question.required}
+        />
+      ) : (
+        <Input
+          id={id}
+          type={question.type === "phone" ? "tel" : "text"}
+          maxLength={MAX_SHORT_ANSWER_LENGTH}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          required={question.required}
+        />
+      )}
+    </div>
+  );
+}
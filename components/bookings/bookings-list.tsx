@@ -1,24 +1,31 @@
 "use client";
 
-import { useTransition, useState } from "react";
 import { format, isFuture, isToday } from "date-fns";
 import {
+  AlertCircle,
   Calendar,
+  CheckCircle2,
+  ClipboardList,
   Clock,
-  User,
+  Loader2,
   Mail,
+  MapPin,
   MessageSquare,
-  X,
-  Loader2,
+  User,
   Video,
-  CheckCircle2,
-  AlertCircle,
+  X,
 } from "lucide-react";
-import { Card, CardContent } from "@/components/ui/card";
+import { useState, useTransition } from "react";
+import type { AttendeeStatus } from "@/components/calendar/types";
 import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
 import { cancelBooking } from "@/lib/actions/calendar";
+import {
+  type BookingLocation,
+  describeBookingLocation,
+  isVideoLocation,
+} from "@/lib/locations";
 import type { HostBooking } from "@/sanity/queries/bookings";
-import type { AttendeeStatus } from "@/components/calendar/types";
 
 type BookingWithStatuses = HostBooking & {
   guestStatus?: AttendeeStatus;
@@ -38,10 +45,16 @@ export function BookingsList({ bookings }: BookingsListProps) {
   });
 
   const handleCancel = (bookingId: string) => {
+    // Doubles as the confirmation: dismissing the prompt keeps the booking
+    const reason = window.prompt(
+      "Cancel this booking? Add a reason for the guest (optional):",
+    );
+    if (reason === null) return;
+
     setCancellingId(bookingId);
     startTransition(async () => {
       try {
-        await cancelBooking(bookingId);
+        await cancelBooking(bookingId, reason || undefined);
         // The page will re-render via Sanity Live
       } catch (error) {
         console.error("Failed to cancel booking:", error);
@@ -51,6 +64,19 @@ export function BookingsList({ bookings }: BookingsListProps) {
     });
   };
 
+  // Where the meeting takes place (bookings made before locations existed
+  // only have a Meet link)
+  const getLocation = (
+    booking: BookingWithStatuses,
+  ): BookingLocation | null => {
+    if (booking.location?.type && booking.location.value) {
+      return { type: booking.location.type, value: booking.location.value };
+    }
+    return booking.meetLink
+      ? { type: "googleMeet", value: booking.meetLink }
+      : null;
+  };
+
   // Get status badge based on guest response from Google Calendar
   const getStatusBadge = (booking: BookingWithStatuses) => {
     if (booking.guestStatus === "accepted") {
@@ -102,6 +128,7 @@ export function BookingsList({ bookings }: BookingsListProps) {
             const startTime = new Date(booking.startTime);
             const endTime = new Date(booking.endTime);
             const isTodayBooking = isToday(startTime);
+            const location = getLocation(booking);
 
             return (
               <Card key={booking._id} className="overflow-hidden">
@@ -170,16 +197,43 @@ export function BookingsList({ bookings }: BookingsListProps) {
                             </div>
                           )}
 
-                          {booking.meetLink ? (
+                          {booking.answers && booking.answers.length > 0 && (
+                            <div className="flex items-start gap-2">
+                              <ClipboardList className="h-4 w-4 text-muted-foreground mt-0.5" />
+                              <dl className="space-y-1 text-sm">
+                                {booking.answers.map((answer) => (
+                                  <div key={answer._key}>
+                                    <dt className="font-medium">
+                                      {answer.question}
+                                    </dt>
+                                    <dd className="text-muted-foreground whitespace-pre-line">
+                                      {answer.answer}
+                                    </dd>
+                                  </div>
+                                ))}
+                              </dl>
+                            </div>
+                          )}
+
+                          {location && isVideoLocation(location.type) ? (
                             <a
-                              href={booking.meetLink}
+                              href={location.value}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="inline-flex items-center gap-2 text-sm font-medium text-blue-600 hover:underline"
                             >
                               <Video className="h-4 w-4" />
-                              Join Google Meet
+                              {location.type === "googleMeet"
+                                ? "Join Google Meet"
+                                : "Join video call"}
                             </a>
+                          ) : location ? (
+                            <div className="flex items-start gap-2">
+                              <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+                              <span className="text-sm whitespace-pre-line">
+                                {describeBookingLocation(location)}
+                              </span>
+                            </div>
                           ) : booking.googleEventId ? (
                             <div className="flex items-center gap-2">
                               <Video className="h-4 w-4 text-muted-foreground" />
@@ -220,4 +274,4 @@ export function BookingsList({ bookings }: BookingsListProps) {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
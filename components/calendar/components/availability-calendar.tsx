@@ -1,55 +1,89 @@
 "use client";
 
-import { useState, useTransition } from "react";
-import { Calendar, Views, type View } from "react-big-calendar";
-import withDragAndDrop, {
-  type EventInteractionArgs,
-} from "react-big-calendar/lib/addons/dragAndDrop";
 import {
+  addDays,
+  differenceInMinutes,
+  endOfMonth,
+  format,
+  isBefore,
+  startOfDay,
+  startOfMonth,
+} from "date-fns";
+import {
+  Clock,
+  ExternalLink,
   Loader2,
+  Mail,
   Save,
   Undo2,
-  Clock,
   User,
-  Mail,
   Video,
-  ExternalLink,
 } from "lucide-react";
-import { format, differenceInMinutes, isBefore, startOfDay } from "date-fns";
-
-import { localizer } from "../lib/localizer";
+import { useEffect, useState, useTransition } from "react";
+import { Calendar, type View, Views } from "react-big-calendar";
+import withDragAndDrop, {
+  type EventInteractionArgs,
+} from "react-big-calendar/lib/addons/dragAndDrop";
+import { Button } from "@/components/ui/button";
 import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  type SavedBlock,
+  saveAvailability,
+} from "@/lib/actions/availability";
+import {
+  type AvailabilityOverride,
+  type AvailabilityRule,
+  expandAvailabilityRules,
+  expandOverrideDays,
+} from "@/lib/availability";
+import { useCalendarEvents } from "../hooks/use-calendar-events";
+import {
+  AVAILABILITY_COLORS,
+  BOOKING_STATUS_COLORS,
+  BUSY_BLOCK_COLORS,
   CALENDAR_CONFIG,
   MAX_TIME,
   MIN_TIME,
-  AVAILABILITY_COLORS,
-  BUSY_BLOCK_COLORS,
-  BOOKING_STATUS_COLORS,
+  OVERRIDE_COLORS,
+  RECURRING_COLORS,
 } from "../lib/constants";
 import {
   calendarFormats,
   calendarMessages,
   formatTimeRange,
 } from "../lib/formats";
-import { useCalendarEvents } from "../hooks/use-calendar-events";
-import { CalendarToolbar } from "./calendar-toolbar";
 import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
-import { Button } from "@/components/ui/button";
-import { saveAvailability } from "@/lib/actions/availability";
+  fromCalendarDate,
+  localizer,
+  toCalendarDate,
+  toCalendarEvent,
+} from "../lib/localizer";
 import type {
-  TimeBlock,
-  BusyBlock,
   BookedBlock,
+  BusyBlock,
   CalendarEvent,
-  TimeBlockInteraction,
+  OverrideBlock,
+  RecurringBlock,
   SlotInfo,
+  TimeBlock,
+  TimeBlockInteraction,
+} from "../types";
+import {
+  isBookedBlock,
+  isBusyBlock,
+  isOverrideBlock,
+  isRecurringBlock,
 } from "../types";
-import { isBusyBlock, isBookedBlock } from "../types";
+import { CalendarToolbar } from "./calendar-toolbar";
+import { DateOverridesDialog } from "./date-overrides-dialog";
+import { WeeklyHoursDialog } from "./weekly-hours-dialog";
 
 import "react-big-calendar/lib/css/react-big-calendar.css";
 import "react-big-calendar/lib/addons/dragAndDrop/styles.css";
@@ -57,36 +91,126 @@ import "react-big-calendar/lib/addons/dragAndDrop/styles.css";
 const DnDCalendar = withDragAndDrop<CalendarEvent>(Calendar);
 
 interface AvailabilityCalendarProps {
+  /** Schedule's timezone - the calendar shows and edits times in it */
+  timezone: string;
+  /** Named schedule being edited (omit for the host's default availability) */
+  scheduleId?: string;
   initialBlocks?: TimeBlock[];
+  /** Revision of the document the blocks were loaded from */
+  initialRevision?: string | null;
+  initialRules?: AvailabilityRule[];
+  initialOverrides?: AvailabilityOverride[];
   busyBlocks?: BusyBlock[];
   bookedBlocks?: BookedBlock[];
 }
 
+// Read-only events are shown but can't be dragged, resized or removed
+const isReadOnlyEvent = (event: CalendarEvent) =>
+  isBusyBlock(event) ||
+  isBookedBlock(event) ||
+  isRecurringBlock(event) ||
+  isOverrideBlock(event);
+
 export function AvailabilityCalendar({
+  timezone,
+  scheduleId,
   initialBlocks = [],
+  initialRevision = null,
+  initialRules = [],
+  initialOverrides = [],
   busyBlocks = [],
   bookedBlocks = [],
 }: AvailabilityCalendarProps) {
   const [view, setView] = useState<View>(Views.WEEK);
-  const [date, setDate] = useState(new Date());
+  const [date, setDate] = useState(() => toCalendarDate(new Date(), timezone));
   const [selectedBooking, setSelectedBooking] = useState<BookedBlock | null>(
     null,
   );
   const [isSaving, startSaveTransition] = useTransition();
+  const [isWeeklyHoursOpen, setIsWeeklyHoursOpen] = useState(false);
+  const [isTimeOffOpen, setIsTimeOffOpen] = useState(false);
+
+  // Recurring rules - synced with Sanity Live updates, replaced locally on save
+  const [rules, setRules] = useState<AvailabilityRule[]>(initialRules);
+  const [prevInitialRules, setPrevInitialRules] =
+    useState<AvailabilityRule[]>(initialRules);
+  if (initialRules !== prevInitialRules) {
+    setPrevInitialRules(initialRules);
+    setRules(initialRules);
+  }
+
+  // Date overrides - same syncing as rules
+  const [overrides, setOverrides] =
+    useState<AvailabilityOverride[]>(initialOverrides);
+  const [prevInitialOverrides, setPrevInitialOverrides] =
+    useState<AvailabilityOverride[]>(initialOverrides);
+  if (initialOverrides !== prevInitialOverrides) {
+    setPrevInitialOverrides(initialOverrides);
+    setOverrides(initialOverrides);
+  }
 
   const {
     events,
     hasChanges,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
     handleSelectSlot,
     handleEventDrop,
     handleEventResize,
     removeBlock,
     copyDayToWeek,
+    previewRepeatWeek,
+    repeatWeek,
     clearWeek,
     discardChanges,
     markAsSaved,
-    getEventsForSave,
-  } = useCalendarEvents(initialBlocks);
+    revision,
+    getChangesForSave,
+    isUnchangedSinceSave,
+    conflict,
+    showConflict,
+    resolveConflict,
+    dismissConflict,
+  } = useCalendarEvents(
+    initialBlocks.map((block) => toCalendarEvent(block, timezone)),
+    initialRevision,
+  );
+
+  // Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z to redo (Cmd on macOS)
+  const isDialogOpen =
+    isWeeklyHoursOpen ||
+    isTimeOffOpen ||
+    selectedBooking !== null ||
+    conflict !== null;
+  useEffect(() => {
+    if (isDialogOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+
+      // Leave text fields their own undo
+      const target = e.target as HTMLElement | null;
+      if (
+        target?.isContentEditable ||
+        target?.tagName === "INPUT" ||
+        target?.tagName === "TEXTAREA"
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isDialogOpen, undo, redo]);
 
   // Format duration in a readable way
   const formatDuration = (start: Date, end: Date) => {
@@ -97,19 +221,49 @@ export function AvailabilityCalendar({
     return remainingMins > 0 ? `${hours}h ${remainingMins}m` : `${hours}h`;
   };
 
-  // Handle save
+  // Handle save - only changed blocks are sent, checked against the
+  // revision they were loaded from
   const handleSave = () => {
     startSaveTransition(async () => {
       try {
-        const blocksToSave = getEventsForSave();
-        const savedBlocks = await saveAvailability(blocksToSave);
+        const { added, updated, removed } = getChangesForSave();
+        const toUtc = (block: TimeBlock): TimeBlock => ({
+          ...block,
+          start: fromCalendarDate(block.start, timezone),
+          end: fromCalendarDate(block.end, timezone),
+        });
+        const changes = {
+          added: added.map(toUtc),
+          updated: updated.map(toUtc),
+          removed,
+        };
+        const toCalendarBlocks = (blocks: SavedBlock[]): TimeBlock[] =>
+          blocks.map((b) => ({
+            id: b.id,
+            start: toCalendarDate(new Date(b.start), timezone),
+            end: toCalendarDate(new Date(b.end), timezone),
+          }));
+
+        let result = await saveAvailability(changes, revision, scheduleId);
+
+        // Only other fields changed since loading - retry on the new revision
+        if (
+          result.status === "conflict" &&
+          isUnchangedSinceSave(toCalendarBlocks(result.blocks))
+        ) {
+          result = await saveAvailability(changes, result.revision, scheduleId);
+        }
+
+        if (result.status === "conflict") {
+          showConflict({
+            blocks: toCalendarBlocks(result.blocks),
+            revision: result.revision,
+          });
+          return;
+        }
+
         // Update local state with real IDs from Sanity
-        const newBlocks: TimeBlock[] = savedBlocks.map((b) => ({
-          id: b.id,
-          start: new Date(b.start),
-          end: new Date(b.end),
-        }));
-        markAsSaved(newBlocks);
+        markAsSaved(toCalendarBlocks(result.blocks), result.revision);
       } catch (error) {
         console.error("Failed to save:", error);
         // Could add toast notification here
@@ -117,15 +271,71 @@ export function AvailabilityCalendar({
     });
   };
 
-  // Combine availability events with busy blocks and booked meetings
+  // Expand recurring rules into concrete blocks around the visible range
+  // (padded by a week so month view's leading/trailing days are covered)
+  const rangeStart = fromCalendarDate(
+    addDays(startOfMonth(date), -7),
+    timezone,
+  );
+  const rangeEnd = fromCalendarDate(addDays(endOfMonth(date), 7), timezone);
+  const overrideDays = expandOverrideDays(overrides, rangeStart, rangeEnd);
+
+  // Weekly hours don't apply on overridden days
+  const recurringBlocks: RecurringBlock[] = rules.flatMap((rule) =>
+    expandAvailabilityRules([rule], rangeStart, rangeEnd)
+      .map((block) => ({
+        id: block._key,
+        start: new Date(block.startDateTime),
+        end: new Date(block.endDateTime),
+        ruleKey: rule._key,
+      }))
+      .filter(
+        (block) =>
+          !overrideDays.some(
+            (day) => block.start < day.end && block.end > day.start,
+          ),
+      )
+      .map((block) => toCalendarEvent(block, timezone)),
+  );
+
+  const overrideBlocks: OverrideBlock[] = overrideDays.flatMap((day) => {
+    // All-day events need local midnights; custom hours are converted below
+    const start = toCalendarDate(day.start, timezone);
+    const end = toCalendarDate(day.end, timezone);
+    const override = overrides.find((o) => o._key === day.overrideKey);
+    if (override?.type === "unavailable") {
+      return [
+        {
+          id: `${day.overrideKey}-${day.date}`,
+          start,
+          end,
+          overrideKey: day.overrideKey,
+          title: override.label || "Time off",
+          allDay: true,
+        },
+      ];
+    }
+    return day.hours.map((range, index) => ({
+      id: `${day.overrideKey}-${day.date}-${index}`,
+      start: toCalendarDate(range.start, timezone),
+      end: toCalendarDate(range.end, timezone),
+      overrideKey: day.overrideKey,
+      title: override?.label || "Custom hours",
+    }));
+  });
+
+  // Combine availability events with recurring hours, overrides, busy blocks and booked meetings
   const allEvents: CalendarEvent[] = [
+    ...overrideBlocks,
+    ...recurringBlocks,
     ...events,
-    ...busyBlocks,
-    ...bookedBlocks,
+    ...busyBlocks.map((block) => toCalendarEvent(block, timezone)),
+    ...bookedBlocks.map((block) => toCalendarEvent(block, timezone)),
   ];
 
   const isMonthView = view === Views.MONTH;
-  const now = new Date();
+  // "Now" in the host's timezone, to match the calendar's dates
+  const now = toCalendarDate(new Date(), timezone);
   const todayStart = startOfDay(now);
 
   // Style past time slots as disabled
@@ -179,6 +389,16 @@ export function AvailabilityCalendar({
       setSelectedBooking(block);
       return;
     }
+    // Recurring blocks are edited through the weekly hours dialog
+    if (isRecurringBlock(block)) {
+      setIsWeeklyHoursOpen(true);
+      return;
+    }
+    // Override blocks are edited through the time off dialog
+    if (isOverrideBlock(block)) {
+      setIsTimeOffOpen(true);
+      return;
+    }
     // Don't allow removing busy blocks
     if (isBusyBlock(block)) return;
     isMonthView ? drillDown(block.start) : removeBlock(block.id);
@@ -207,11 +427,38 @@ export function AvailabilityCalendar({
       const indicator = getStatusIndicator(block);
       return indicator ? `${indicator} ${block.guestName}` : block.guestName;
     }
+    if (isRecurringBlock(block)) {
+      return isMonthView
+        ? formatTimeRange(block.start, block.end)
+        : "Weekly hours";
+    }
+    if (isOverrideBlock(block)) {
+      return block.title;
+    }
     return isMonthView ? formatTimeRange(block.start, block.end) : "Available";
   };
 
   // Style events based on type and guest attendee status
   const eventStyleGetter = (event: CalendarEvent) => {
+    if (isOverrideBlock(event)) {
+      return {
+        style: {
+          backgroundColor: OVERRIDE_COLORS.background,
+          borderColor: OVERRIDE_COLORS.border,
+          color: OVERRIDE_COLORS.text,
+        },
+      };
+    }
+    if (isRecurringBlock(event)) {
+      return {
+        style: {
+          backgroundColor: RECURRING_COLORS.background,
+          borderColor: RECURRING_COLORS.border,
+          borderStyle: "dashed",
+          color: RECURRING_COLORS.text,
+        },
+      };
+    }
     if (isBusyBlock(event)) {
       return {
         style: {
@@ -250,7 +497,15 @@ export function AvailabilityCalendar({
       onCopyDayToWeek={(dayIndex, includeWeekends) =>
         copyDayToWeek(dayIndex, date, includeWeekends)
       }
+      onPreviewRepeatWeek={(options) => previewRepeatWeek(date, options)}
+      onRepeatWeek={(options) => repeatWeek(date, options)}
       onClearWeek={() => clearWeek(date)}
+      onEditWeeklyHours={() => setIsWeeklyHoursOpen(true)}
+      onEditTimeOff={() => setIsTimeOffOpen(true)}
+      onUndo={undo}
+      onRedo={redo}
+      canUndo={canUndo}
+      canRedo={canRedo}
     />
   );
 
@@ -366,6 +621,50 @@ export function AvailabilityCalendar({
         </DialogContent>
       </Dialog>
 
+      <WeeklyHoursDialog
+        open={isWeeklyHoursOpen}
+        onOpenChange={setIsWeeklyHoursOpen}
+        rules={rules}
+        timezone={timezone}
+        scheduleId={scheduleId}
+        onSaved={setRules}
+      />
+
+      <DateOverridesDialog
+        open={isTimeOffOpen}
+        onOpenChange={setIsTimeOffOpen}
+        overrides={overrides}
+        timezone={timezone}
+        scheduleId={scheduleId}
+        onSaved={setOverrides}
+      />
+
+      {/* Save Conflict Dialog - availability was saved elsewhere meanwhile */}
+      <Dialog
+        open={!!conflict}
+        onOpenChange={(open) => !open && dismissConflict()}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Availability changed elsewhere</DialogTitle>
+            <DialogDescription>
+              Your availability was edited in another tab or in the Studio
+              since you loaded it. Choose how to combine the changes, then
+              review the calendar and save again.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => resolveConflict("theirs")}>
+              Use theirs
+            </Button>
+            <Button variant="outline" onClick={() => resolveConflict("mine")}>
+              Keep mine
+            </Button>
+            <Button onClick={() => resolveConflict("merge")}>Merge both</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Save/Discard Bar - shows when there are unsaved changes */}
       {hasChanges && (
         <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-full bg-white px-4 py-2 shadow-xl border">
@@ -405,33 +704,25 @@ export function AvailabilityCalendar({
         onView={setView}
         onNavigate={setDate}
         onDrillDown={drillDown}
+        getNow={() => toCalendarDate(new Date(), timezone)}
         startAccessor="start"
         endAccessor="end"
+        allDayAccessor={(event) => isOverrideBlock(event) && !!event.allDay}
         titleAccessor={getBlockTitle}
         eventPropGetter={eventStyleGetter}
         selectable
         resizable={!isMonthView}
-        draggableAccessor={(event) =>
-          !isMonthView && !isBusyBlock(event) && !isBookedBlock(event)
-        }
+        draggableAccessor={(event) => !isMonthView && !isReadOnlyEvent(event)}
         popup
         onSelectSlot={onSlotSelect}
         onSelectEvent={onBlockSelect}
         onEventDrop={(args) => {
-          if (
-            !isMonthView &&
-            !isBusyBlock(args.event) &&
-            !isBookedBlock(args.event)
-          ) {
+          if (!isMonthView && !isReadOnlyEvent(args.event)) {
             handleEventDrop(adaptEventArgs(args));
           }
         }}
         onEventResize={(args) => {
-          if (
-            !isMonthView &&
-            !isBusyBlock(args.event) &&
-            !isBookedBlock(args.event)
-          ) {
+          if (!isMonthView && !isReadOnlyEvent(args.event)) {
             handleEventResize(adaptEventArgs(args));
           }
         }}
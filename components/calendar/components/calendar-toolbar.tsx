@@ -1,14 +1,36 @@
 "use client";
 
+import { startOfWeek } from "date-fns";
+import {
+  CalendarOff,
+  ChevronLeft,
+  ChevronRight,
+  Redo2,
+  Repeat,
+  Trash2,
+  Undo2,
+} from "lucide-react";
 import type { ToolbarProps, View } from "react-big-calendar";
-import { ChevronLeft, ChevronRight, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import type {
+  RepeatWeekOptions,
+  RepeatWeekPreview,
+  TimeBlock,
+} from "../types";
 import { CopyDayPopover } from "./copy-day-popover";
-import type { TimeBlock } from "../types";
+import { RepeatWeekPopover } from "./repeat-week-popover";
 
 interface CustomToolbarProps {
   onCopyDayToWeek?: (dayIndex: number, includeWeekends: boolean) => void;
+  onPreviewRepeatWeek?: (options: RepeatWeekOptions) => RepeatWeekPreview;
+  onRepeatWeek?: (options: RepeatWeekOptions) => void;
   onClearWeek?: () => void;
+  onEditWeeklyHours?: () => void;
+  onEditTimeOff?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   showCopyButton?: boolean;
 }
 
@@ -16,13 +38,22 @@ type CalendarToolbarProps = ToolbarProps<TimeBlock, object> &
   CustomToolbarProps;
 
 export function CalendarToolbar({
+  date,
   label,
   onNavigate,
   onView,
   view,
   views,
   onCopyDayToWeek,
+  onPreviewRepeatWeek,
+  onRepeatWeek,
   onClearWeek,
+  onEditWeeklyHours,
+  onEditTimeOff,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   showCopyButton = false,
 }: CalendarToolbarProps) {
   const viewOptions = Array.isArray(views) ? views : [];
@@ -60,10 +91,67 @@ export function CalendarToolbar({
 
       {/* Right: Actions + Navigation */}
       <div className="flex items-center gap-2">
+        {(onUndo || onRedo) && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              title="Undo (Ctrl+Z)"
+              onClick={onUndo}
+              disabled={!canUndo}
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              title="Redo (Ctrl+Shift+Z)"
+              onClick={onRedo}
+              disabled={!canRedo}
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {onEditWeeklyHours && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="max-sm:h-8 max-sm:w-8 max-sm:p-0"
+            onClick={onEditWeeklyHours}
+          >
+            <Repeat className="h-4 w-4 sm:mr-1" />
+            <span className="hidden sm:inline">Weekly Hours</span>
+          </Button>
+        )}
+
+        {onEditTimeOff && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="max-sm:h-8 max-sm:w-8 max-sm:p-0"
+            onClick={onEditTimeOff}
+          >
+            <CalendarOff className="h-4 w-4 sm:mr-1" />
+            <span className="hidden sm:inline">Time Off</span>
+          </Button>
+        )}
+
         {showCopyButton && (
           <div className="flex items-center gap-1">
             {onCopyDayToWeek && <CopyDayPopover onCopy={onCopyDayToWeek} />}
 
+            {onPreviewRepeatWeek && onRepeatWeek && (
+              <RepeatWeekPopover
+                weekStart={startOfWeek(date, { weekStartsOn: 1 })}
+                onPreview={onPreviewRepeatWeek}
+                onRepeat={onRepeatWeek}
+              />
+            )}
+
             {onClearWeek && (
               <Button
                 variant="destructive"
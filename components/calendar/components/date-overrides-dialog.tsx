@@ -0,0 +1,334 @@
+"use client";
+
+import { formatInTimeZone } from "date-fns-tz";
+import { Loader2, Plus, Save, Trash2, X } from "lucide-react";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { saveAvailabilityOverrides } from "@/lib/actions/availability";
+import type { AvailabilityOverride } from "@/lib/availability";
+
+interface DateOverridesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  overrides: AvailabilityOverride[];
+  /** Host's timezone, used for new overrides */
+  timezone: string;
+  /** Named schedule being edited (omit for the host's default availability) */
+  scheduleId?: string;
+  onSaved: (overrides: AvailabilityOverride[]) => void;
+}
+
+type TimeRange = NonNullable<AvailabilityOverride["hours"]>[number];
+
+const createTimeRange = (): TimeRange => ({
+  _key: `local-${crypto.randomUUID()}`,
+  startTime: "09:00",
+  endTime: "17:00",
+});
+
+const createOverride = (timezone: string): AvailabilityOverride => ({
+  _key: `local-${crypto.randomUUID()}`,
+  type: "unavailable",
+  startDate: formatInTimeZone(new Date(), timezone, "yyyy-MM-dd"),
+  endDate: null,
+  hours: null,
+  timezone,
+  label: null,
+});
+
+export function DateOverridesDialog({
+  open,
+  onOpenChange,
+  overrides,
+  timezone,
+  scheduleId,
+  onSaved,
+}: DateOverridesDialogProps) {
+  const [draft, setDraft] = useState<AvailabilityOverride[]>(overrides);
+  const [error, setError] = useState<string | null>(null);
+  const [wasOpen, setWasOpen] = useState(open);
+  const [isSaving, startSaveTransition] = useTransition();
+
+  // Start from the saved overrides every time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setDraft(overrides);
+      setError(null);
+    }
+  }
+
+  const updateOverride = (
+    key: string,
+    changes: Partial<AvailabilityOverride>,
+  ) => {
+    setDraft((prev) =>
+      prev.map((override) =>
+        override._key === key ? { ...override, ...changes } : override,
+      ),
+    );
+  };
+
+  const setType = (
+    override: AvailabilityOverride,
+    type: AvailabilityOverride["type"],
+  ) => {
+    updateOverride(override._key, {
+      type,
+      hours:
+        type === "custom" && !override.hours?.length
+          ? [createTimeRange()]
+          : override.hours,
+    });
+  };
+
+  const updateHours = (
+    override: AvailabilityOverride,
+    rangeKey: string,
+    changes: Partial<TimeRange>,
+  ) => {
+    updateOverride(override._key, {
+      hours: (override.hours ?? []).map((range) =>
+        range._key === rangeKey ? { ...range, ...changes } : range,
+      ),
+    });
+  };
+
+  const removeHours = (override: AvailabilityOverride, rangeKey: string) => {
+    updateOverride(override._key, {
+      hours: (override.hours ?? []).filter((range) => range._key !== rangeKey),
+    });
+  };
+
+  const removeOverride = (key: string) => {
+    setDraft((prev) => prev.filter((override) => override._key !== key));
+  };
+
+  const handleSave = () => {
+    setError(null);
+    startSaveTransition(async () => {
+      try {
+        const savedOverrides = await saveAvailabilityOverrides(draft, scheduleId);
+        onSaved(savedOverrides);
+        onOpenChange(false);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to save date overrides",
+        );
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Time Off & Date Overrides</DialogTitle>
+          <DialogDescription>
+            Block out holidays and vacations, or set different hours for
+            specific dates. Overrides replace your regular hours on those days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+          {draft.length === 0 && (
+            <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+              No date overrides yet.
+            </div>
+          )}
+
+          {draft.map((override) => (
+            <div
+              key={override._key}
+              className="space-y-3 rounded-lg border p-3"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={
+                      override.type === "unavailable" ? "default" : "outline"
+                    }
+                    onClick={() => setType(override, "unavailable")}
+                  >
+                    Unavailable
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={override.type === "custom" ? "default" : "outline"}
+                    onClick={() => setType(override, "custom")}
+                  >
+                    Custom hours
+                  </Button>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  title="Remove"
+                  onClick={() => removeOverride(override._key)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-1.5">
+                  <Label
+                    htmlFor={`start-${override._key}`}
+                    className="text-xs font-normal text-muted-foreground"
+                  >
+                    From
+                  </Label>
+                  <Input
+                    id={`start-${override._key}`}
+                    type="date"
+                    value={override.startDate}
+                    onChange={(e) =>
+                      updateOverride(override._key, {
+                        startDate: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+                <div className="grid gap-1.5">
+                  <Label
+                    htmlFor={`end-${override._key}`}
+                    className="text-xs font-normal text-muted-foreground"
+                  >
+                    To (optional)
+                  </Label>
+                  <Input
+                    id={`end-${override._key}`}
+                    type="date"
+                    min={override.startDate}
+                    value={override.endDate ?? ""}
+                    onChange={(e) =>
+                      updateOverride(override._key, {
+                        endDate: e.target.value || null,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+
+              {override.type === "custom" && (
+                <div className="space-y-2">
+                  {(override.hours ?? []).map((range) => (
+                    <div key={range._key} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        step={900}
+                        value={range.startTime}
+                        onChange={(e) =>
+                          updateHours(override, range._key, {
+                            startTime: e.target.value,
+                          })
+                        }
+                        aria-label="Start time"
+                      />
+                      <span className="text-muted-foreground">–</span>
+                      <Input
+                        type="time"
+                        step={900}
+                        value={range.endTime}
+                        onChange={(e) =>
+                          updateHours(override, range._key, {
+                            endTime: e.target.value,
+                          })
+                        }
+                        aria-label="End time"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        title="Remove hours"
+                        onClick={() => removeHours(override, range._key)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateOverride(override._key, {
+                        hours: [...(override.hours ?? []), createTimeRange()],
+                      })
+                    }
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add time range
+                  </Button>
+                </div>
+              )}
+
+              <Input
+                placeholder="Label (e.g. Vacation)"
+                value={override.label ?? ""}
+                onChange={(e) =>
+                  updateOverride(override._key, { label: e.target.value })
+                }
+                aria-label="Label"
+              />
+
+              <p className="text-xs text-muted-foreground">
+                Dates in {override.timezone.replace(/_/g, " ")}
+              </p>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => setDraft((prev) => [...prev, createOverride(timezone)])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Override
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save Overrides
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
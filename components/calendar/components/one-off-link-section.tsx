@@ -0,0 +1,141 @@
+"use client";
+
+import { format } from "date-fns";
+import { Check, Copy, KeyRound, Loader2 } from "lucide-react";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createOneOffBookingLink } from "@/lib/actions/meetingTypes";
+
+interface OneOffLinkSectionProps {
+  meetingTypeId: string;
+}
+
+/**
+ * Create a secret link to a meeting type that works once, until a date, or
+ * both.
+ */
+export function OneOffLinkSection({ meetingTypeId }: OneOffLinkSectionProps) {
+  const [singleUse, setSingleUse] = useState(true);
+  const [expiryDate, setExpiryDate] = useState("");
+  const [url, setUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [prevMeetingTypeId, setPrevMeetingTypeId] = useState(meetingTypeId);
+  const [isCreating, startCreateTransition] = useTransition();
+
+  // A link made for another meeting type doesn't apply any more
+  if (meetingTypeId !== prevMeetingTypeId) {
+    setPrevMeetingTypeId(meetingTypeId);
+    setUrl(null);
+    setError(null);
+  }
+
+  const handleCreate = () => {
+    setError(null);
+    setCopied(false);
+    startCreateTransition(async () => {
+      try {
+        // Links work until the end of the chosen day, in the host's timezone
+        const expiresAt = expiryDate
+          ? new Date(`${expiryDate}T23:59:59`).toISOString()
+          : undefined;
+        const result = await createOneOffBookingLink(meetingTypeId, {
+          singleUse,
+          expiresAt,
+        });
+        setUrl(result.url);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to create link");
+      }
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="space-y-1">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <KeyRound className="h-4 w-4" />
+          One-off Link
+        </p>
+        <p className="text-xs text-muted-foreground">
+          A private link that stops working once it's used or expires.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="one-off-single-use"
+          checked={singleUse}
+          onCheckedChange={(checked) => setSingleUse(checked === true)}
+        />
+        <Label htmlFor="one-off-single-use" className="font-normal">
+          Single use
+        </Label>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="one-off-expiry" className="font-normal">
+          Expires after {singleUse && "(optional)"}
+        </Label>
+        <Input
+          id="one-off-expiry"
+          type="date"
+          min={format(new Date(), "yyyy-MM-dd")}
+          value={expiryDate}
+          onChange={(e) => setExpiryDate(e.target.value)}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {url ? (
+        <div className="flex items-center gap-2">
+          <Input value={url} readOnly className="flex-1 font-mono text-sm" />
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            onClick={handleCopy}
+            className="shrink-0"
+            title="Copy link"
+          >
+            {copied ? (
+              <Check className="h-4 w-4 text-green-600" />
+            ) : (
+              <Copy className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      ) : null}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={handleCreate}
+        disabled={isCreating || (!singleUse && !expiryDate)}
+      >
+        {isCreating ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <KeyRound className="mr-2 h-4 w-4" />
+        )}
+        {url ? "Create Another Link" : "Create One-off Link"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { addDays, addWeeks, format, parseISO } from "date-fns";
+import { CalendarRange } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MAX_REPEAT_WEEKS } from "../lib/constants";
+import type { RepeatWeekOptions, RepeatWeekPreview } from "../types";
+
+interface RepeatWeekPopoverProps {
+  /** Monday of the week being repeated */
+  weekStart: Date;
+  onPreview: (options: RepeatWeekOptions) => RepeatWeekPreview;
+  onRepeat: (options: RepeatWeekOptions) => void;
+}
+
+type RepeatMode = "weeks" | "until";
+
+const pluralize = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+export function RepeatWeekPopover({
+  weekStart,
+  onPreview,
+  onRepeat,
+}: RepeatWeekPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<RepeatMode>("weeks");
+  const [weekCount, setWeekCount] = useState("4");
+  const [untilDate, setUntilDate] = useState("");
+  const [existing, setExisting] =
+    useState<RepeatWeekOptions["existing"]>("skip");
+
+  const firstTargetDay = addWeeks(weekStart, 1);
+  const lastTargetDay = addDays(addWeeks(weekStart, MAX_REPEAT_WEEKS + 1), -1);
+
+  const getUntil = (): Date | null => {
+    if (mode === "until") return untilDate ? parseISO(untilDate) : null;
+
+    const weeks = Math.min(Number(weekCount), MAX_REPEAT_WEEKS);
+    if (!Number.isInteger(weeks) || weeks < 1) return null;
+    // Last day (Sunday) of the final target week
+    return addDays(addWeeks(weekStart, weeks + 1), -1);
+  };
+
+  const until = getUntil();
+  const options: RepeatWeekOptions | null = until ? { until, existing } : null;
+  const preview = open && options ? onPreview(options) : null;
+
+  const handleRepeat = () => {
+    if (!options) return;
+    onRepeat(options);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="max-sm:h-8 max-sm:w-8 max-sm:p-0"
+        >
+          <CalendarRange className="h-4 w-4 sm:mr-1" />
+          <span className="hidden sm:inline">Repeat</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="end">
+        <div className="grid gap-4">
+          <div className="space-y-2">
+            <h4 className="font-medium leading-none">Repeat Week</h4>
+            <p className="text-sm text-muted-foreground">
+              Copy this week's events to the weeks that follow.
+            </p>
+          </div>
+          <div className="grid gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="repeat-mode">Repeat</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={mode}
+                  onValueChange={(value) => setMode(value as RepeatMode)}
+                >
+                  <SelectTrigger id="repeat-mode" className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="weeks">For the next</SelectItem>
+                    <SelectItem value="until">Until</SelectItem>
+                  </SelectContent>
+                </Select>
+                {mode === "weeks" ? (
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_REPEAT_WEEKS}
+                    value={weekCount}
+                    onChange={(e) => setWeekCount(e.target.value)}
+                    aria-label="Number of weeks"
+                  />
+                ) : (
+                  <Input
+                    type="date"
+                    min={format(firstTargetDay, "yyyy-MM-dd")}
+                    max={format(lastTargetDay, "yyyy-MM-dd")}
+                    value={untilDate}
+                    onChange={(e) => setUntilDate(e.target.value)}
+                    aria-label="Repeat until"
+                  />
+                )}
+              </div>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="repeat-existing">Weeks with events</Label>
+              <Select
+                value={existing}
+                onValueChange={(value) =>
+                  setExisting(value as RepeatWeekOptions["existing"])
+                }
+              >
+                <SelectTrigger id="repeat-existing">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Skip them</SelectItem>
+                  <SelectItem value="overwrite">Overwrite them</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {preview && (
+              <p className="text-sm text-muted-foreground">
+                {preview.created === 0
+                  ? "Nothing to copy."
+                  : `Creates ${pluralize(preview.created, "block")} across ${pluralize(preview.weeks, "week")}.`}
+                {preview.replaced > 0 &&
+                  ` Replaces ${pluralize(preview.replaced, "existing block")}.`}
+                {preview.skipped > 0 &&
+                  ` Skips ${pluralize(preview.skipped, "week")} with events.`}
+              </p>
+            )}
+            <Button
+              onClick={handleRepeat}
+              className="w-full"
+              disabled={!preview || preview.created === 0}
+            >
+              Repeat Week
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
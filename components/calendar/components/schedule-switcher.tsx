@@ -0,0 +1,229 @@
+"use client";
+
+import { CalendarClock, Loader2, Plus, Settings2, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  createSchedule,
+  deleteSchedule,
+  setMeetingTypeSchedule,
+} from "@/lib/actions/schedule";
+import type { MeetingTypeForHost } from "@/sanity/queries/meetingTypes";
+import type { ScheduleForHost } from "@/sanity/queries/schedules";
+
+// Select value for the host's own (default) availability
+const DEFAULT_SCHEDULE = "default";
+
+interface ScheduleSwitcherProps {
+  schedules: ScheduleForHost[];
+  /** Schedule being edited (omit for the host's default availability) */
+  selectedScheduleId?: string;
+  meetingTypes: MeetingTypeForHost[];
+  /** Host's home timezone, used for new schedules */
+  timezone: string;
+}
+
+export function ScheduleSwitcher({
+  schedules,
+  selectedScheduleId,
+  meetingTypes,
+  timezone,
+}: ScheduleSwitcherProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [newScheduleName, setNewScheduleName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const selectedSchedule = schedules.find((s) => s._id === selectedScheduleId);
+
+  const goToSchedule = (scheduleId: string) => {
+    router.push(
+      scheduleId === DEFAULT_SCHEDULE
+        ? "/availability"
+        : `/availability?schedule=${scheduleId}`,
+    );
+  };
+
+  const runAction = (action: () => Promise<void>, fallback: string) => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+        router.refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : fallback);
+      }
+    });
+  };
+
+  const handleCreate = () => {
+    const name = newScheduleName.trim();
+    if (!name) return;
+
+    runAction(async () => {
+      const schedule = await createSchedule({ name, timezone });
+      setNewScheduleName("");
+      setOpen(false);
+      goToSchedule(schedule._id);
+    }, "Failed to create schedule");
+  };
+
+  const handleDelete = () => {
+    if (!selectedSchedule) return;
+
+    runAction(async () => {
+      await deleteSchedule(selectedSchedule._id);
+      setOpen(false);
+      goToSchedule(DEFAULT_SCHEDULE);
+    }, "Failed to delete schedule");
+  };
+
+  const handleAssign = (meetingTypeId: string, scheduleId: string) => {
+    runAction(
+      () =>
+        setMeetingTypeSchedule(
+          meetingTypeId,
+          scheduleId === DEFAULT_SCHEDULE ? null : scheduleId,
+        ),
+      "Failed to update meeting type",
+    );
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={selectedSchedule?._id ?? DEFAULT_SCHEDULE}
+        onValueChange={goToSchedule}
+      >
+        <SelectTrigger className="w-44" aria-label="Schedule">
+          <CalendarClock className="h-4 w-4" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_SCHEDULE}>Default hours</SelectItem>
+          {schedules.map((schedule) => (
+            <SelectItem key={schedule._id} value={schedule._id}>
+              {schedule.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="icon" title="Manage schedules">
+            <Settings2 className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80" align="end">
+          <div className="grid gap-4">
+            <div className="space-y-2">
+              <h4 className="font-medium leading-none">Schedules</h4>
+              <p className="text-sm text-muted-foreground">
+                Choose which hours each meeting type is booked from.
+              </p>
+            </div>
+
+            {meetingTypes.length > 0 && (
+              <div className="grid gap-2">
+                {meetingTypes.map((meetingType) => (
+                  <div
+                    key={meetingType._id}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <span className="truncate text-sm">{meetingType.name}</span>
+                    <Select
+                      value={meetingType.scheduleId ?? DEFAULT_SCHEDULE}
+                      onValueChange={(value) =>
+                        handleAssign(meetingType._id, value)
+                      }
+                      disabled={isPending}
+                    >
+                      <SelectTrigger
+                        size="sm"
+                        className="w-36"
+                        aria-label={`Schedule for ${meetingType.name}`}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_SCHEDULE}>
+                          Default hours
+                        </SelectItem>
+                        {schedules.map((schedule) => (
+                          <SelectItem key={schedule._id} value={schedule._id}>
+                            {schedule.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid gap-1.5">
+              <Label htmlFor="new-schedule-name">New schedule</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="new-schedule-name"
+                  placeholder="e.g., Office hours"
+                  value={newScheduleName}
+                  onChange={(e) => setNewScheduleName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                />
+                <Button
+                  size="icon"
+                  onClick={handleCreate}
+                  disabled={isPending || !newScheduleName.trim()}
+                  title="Create schedule"
+                >
+                  {isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </div>
+
+            {selectedSchedule && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-600 hover:text-red-700"
+                onClick={handleDelete}
+                disabled={isPending}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete "{selectedSchedule.name}"
+              </Button>
+            )}
+
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
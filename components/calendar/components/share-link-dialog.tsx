@@ -1,18 +1,20 @@
 "use client";
 
-import { useState, useTransition } from "react";
 import {
-  Share2,
-  Copy,
+  CalendarDays,
   Check,
+  Clock,
+  Copy,
   ExternalLink,
+  LinkIcon,
   Loader2,
   Plus,
-  Clock,
-  CalendarDays,
-  LinkIcon,
+  Share2,
 } from "lucide-react";
 import Link from "next/link";
+import { useState, useTransition } from "react";
+import { DurationInput } from "@/components/meeting-types/duration-input";
+import { Button } from "@/components/ui/button";
 import {
   Dialog,
   DialogContent,
@@ -21,6 +23,8 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -28,28 +32,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import {
-  getMeetingTypes,
-  createMeetingType,
   getBookingLinkWithMeetingType,
   getBookingQuota,
   hasConnectedAccount,
 } from "@/lib/actions/availability";
-import type { MeetingTypeForHost } from "@/sanity/queries/meetingTypes";
+import { createMeetingType, getMeetingTypes } from "@/lib/actions/meetingTypes";
+import { isValidDuration } from "@/lib/durations";
 import type { BookingQuotaStatus } from "@/lib/features";
-
-type MeetingDuration = 15 | 30 | 45 | 60 | 90;
-
-const DURATION_OPTIONS: Array<{ value: MeetingDuration; label: string }> = [
-  { value: 15, label: "15 minutes" },
-  { value: 30, label: "30 minutes" },
-  { value: 45, label: "45 minutes" },
-  { value: 60, label: "60 minutes" },
-  { value: 90, label: "90 minutes" },
-];
+import type { MeetingTypeForHost } from "@/sanity/queries/meetingTypes";
+import { OneOffLinkSection } from "./one-off-link-section";
 
 export function ShareLinkDialog() {
   const [open, setOpen] = useState(false);
@@ -61,7 +53,7 @@ export function ShareLinkDialog() {
   const [isPending, startTransition] = useTransition();
   const [isCreatingType, setIsCreatingType] = useState(false);
   const [newTypeName, setNewTypeName] = useState("");
-  const [newTypeDuration, setNewTypeDuration] = useState<MeetingDuration>(30);
+  const [newTypeDuration, setNewTypeDuration] = useState(30);
   const [quota, setQuota] = useState<BookingQuotaStatus | null>(null);
   const [hasAccount, setHasAccount] = useState<boolean | null>(null);
 
@@ -76,7 +68,9 @@ export function ShareLinkDialog() {
             getBookingQuota(),
             hasConnectedAccount(),
           ]);
-          setMeetingTypes(types);
+          // Archived meeting types can't be booked, so there's no link to share
+          const activeTypes = types.filter((t) => !t.archived);
+          setMeetingTypes(activeTypes);
           setQuota(quotaStatus);
           setHasAccount(accountConnected);
 
@@ -86,7 +80,8 @@ export function ShareLinkDialog() {
           }
 
           // Auto-select default or first meeting type
-          const defaultType = types.find((t) => t.isDefault) || types[0];
+          const defaultType =
+            activeTypes.find((t) => t.isDefault) || activeTypes[0];
           if (defaultType) {
             setSelectedMeetingType(defaultType);
             const result = await getBookingLinkWithMeetingType(
@@ -129,7 +124,6 @@ export function ShareLinkDialog() {
         const newType = await createMeetingType({
           name: newTypeName.trim(),
           duration: newTypeDuration,
-          isDefault: meetingTypes.length === 0,
         });
 
         setMeetingTypes((prev) => [...prev, newType]);
@@ -172,7 +166,7 @@ export function ShareLinkDialog() {
           Share Link
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Share Your Booking Link</DialogTitle>
           <DialogDescription>
@@ -251,35 +245,21 @@ export function ShareLinkDialog() {
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="meeting-duration">Duration</Label>
-                  <Select
-                    value={newTypeDuration.toString()}
-                    onValueChange={(v) =>
-                      setNewTypeDuration(Number.parseInt(v) as MeetingDuration)
-                    }
-                  >
-                    <SelectTrigger id="meeting-duration">
-                      <SelectValue placeholder="Select duration" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {DURATION_OPTIONS.map((option) => (
-                        <SelectItem
-                          key={option.value}
-                          value={option.value.toString()}
-                        >
-                          <span className="flex items-center gap-2">
-                            <Clock className="h-3.5 w-3.5" />
-                            {option.label}
-                          </span>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <DurationInput
+                    id="meeting-duration"
+                    value={newTypeDuration}
+                    onChange={setNewTypeDuration}
+                  />
                 </div>
                 <div className="flex gap-2">
                   <Button
                     type="button"
                     onClick={handleCreateMeetingType}
-                    disabled={!newTypeName.trim() || isPending}
+                    disabled={
+                      !newTypeName.trim() ||
+                      !isValidDuration(newTypeDuration) ||
+                      isPending
+                    }
                     className="flex-1"
                   >
                     {isPending ? (
@@ -340,7 +320,11 @@ export function ShareLinkDialog() {
                 {selectedMeetingType && (
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Clock className="h-4 w-4" />
-                    <span>{selectedMeetingType.duration} minute meeting</span>
+                    <span>
+                      {selectedMeetingType.duration} minute meeting
+                      {selectedMeetingType.hidden &&
+                        " · hidden from your booking page"}
+                    </span>
                   </div>
                 )}
 
@@ -404,6 +388,11 @@ export function ShareLinkDialog() {
                     <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
                   </div>
                 ) : null}
+
+                {/* Secret link that works once or until a date */}
+                {selectedMeetingType && (
+                  <OneOffLinkSection meetingTypeId={selectedMeetingType._id} />
+                )}
               </>
             )}
           </div>
@@ -411,4 +400,4 @@ export function ShareLinkDialog() {
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
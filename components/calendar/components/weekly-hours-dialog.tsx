@@ -0,0 +1,254 @@
+"use client";
+
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { saveAvailabilityRules } from "@/lib/actions/availability";
+import type { AvailabilityRule } from "@/lib/availability";
+import { DAYS_OF_WEEK } from "../lib/constants";
+
+interface WeeklyHoursDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rules: AvailabilityRule[];
+  /** Host's timezone, used for new rules */
+  timezone: string;
+  /** Named schedule being edited (omit for the host's default availability) */
+  scheduleId?: string;
+  onSaved: (rules: AvailabilityRule[]) => void;
+}
+
+const WEEKDAYS = DAYS_OF_WEEK.map((day) => ({
+  value: day.toLowerCase(),
+  label: day.charAt(0),
+  title: day,
+}));
+
+const createRule = (timezone: string): AvailabilityRule => ({
+  _key: `local-${crypto.randomUUID()}`,
+  days: ["monday", "tuesday", "wednesday", "thursday", "friday"],
+  startTime: "09:00",
+  endTime: "17:00",
+  timezone,
+  effectiveFrom: null,
+  effectiveUntil: null,
+});
+
+export function WeeklyHoursDialog({
+  open,
+  onOpenChange,
+  rules,
+  timezone,
+  scheduleId,
+  onSaved,
+}: WeeklyHoursDialogProps) {
+  const [draft, setDraft] = useState<AvailabilityRule[]>(rules);
+  const [error, setError] = useState<string | null>(null);
+  const [wasOpen, setWasOpen] = useState(open);
+  const [isSaving, startSaveTransition] = useTransition();
+
+  // Start from the saved rules every time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setDraft(rules);
+      setError(null);
+    }
+  }
+
+  const updateRule = (key: string, changes: Partial<AvailabilityRule>) => {
+    setDraft((prev) =>
+      prev.map((rule) => (rule._key === key ? { ...rule, ...changes } : rule)),
+    );
+  };
+
+  const toggleDay = (rule: AvailabilityRule, day: string) => {
+    const days = rule.days.includes(day)
+      ? rule.days.filter((d) => d !== day)
+      : [...rule.days, day];
+    updateRule(rule._key, { days });
+  };
+
+  const removeRule = (key: string) => {
+    setDraft((prev) => prev.filter((rule) => rule._key !== key));
+  };
+
+  const handleSave = () => {
+    setError(null);
+    startSaveTransition(async () => {
+      try {
+        const savedRules = await saveAvailabilityRules(draft, scheduleId);
+        onSaved(savedRules);
+        onOpenChange(false);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to save weekly hours",
+        );
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Weekly Hours</DialogTitle>
+          <DialogDescription>
+            Recurring hours repeat every week. One-off blocks you draw on the
+            calendar are added on top.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+          {draft.length === 0 && (
+            <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+              No weekly hours yet.
+            </div>
+          )}
+
+          {draft.map((rule) => (
+            <div key={rule._key} className="space-y-3 rounded-lg border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex gap-1">
+                  {WEEKDAYS.map((day) => (
+                    <Button
+                      key={day.value}
+                      type="button"
+                      size="icon-sm"
+                      variant={
+                        rule.days.includes(day.value) ? "default" : "outline"
+                      }
+                      title={day.title}
+                      onClick={() => toggleDay(rule, day.value)}
+                    >
+                      {day.label}
+                    </Button>
+                  ))}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  title="Remove"
+                  onClick={() => removeRule(rule._key)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  step={900}
+                  value={rule.startTime}
+                  onChange={(e) =>
+                    updateRule(rule._key, { startTime: e.target.value })
+                  }
+                  aria-label="Start time"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="time"
+                  step={900}
+                  value={rule.endTime}
+                  onChange={(e) =>
+                    updateRule(rule._key, { endTime: e.target.value })
+                  }
+                  aria-label="End time"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-1.5">
+                  <Label
+                    htmlFor={`from-${rule._key}`}
+                    className="text-xs font-normal text-muted-foreground"
+                  >
+                    Effective from
+                  </Label>
+                  <Input
+                    id={`from-${rule._key}`}
+                    type="date"
+                    value={rule.effectiveFrom ?? ""}
+                    onChange={(e) =>
+                      updateRule(rule._key, {
+                        effectiveFrom: e.target.value || null,
+                      })
+                    }
+                  />
+                </div>
+                <div className="grid gap-1.5">
+                  <Label
+                    htmlFor={`until-${rule._key}`}
+                    className="text-xs font-normal text-muted-foreground"
+                  >
+                    Until (optional)
+                  </Label>
+                  <Input
+                    id={`until-${rule._key}`}
+                    type="date"
+                    value={rule.effectiveUntil ?? ""}
+                    onChange={(e) =>
+                      updateRule(rule._key, {
+                        effectiveUntil: e.target.value || null,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Times in {rule.timezone.replace(/_/g, " ")}
+              </p>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => setDraft((prev) => [...prev, createRule(timezone)])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Hours
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save Hours
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
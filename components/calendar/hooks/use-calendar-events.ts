@@ -1,8 +1,24 @@
 "use client";
 
+import {
+  addDays,
+  addWeeks,
+  endOfDay,
+  set,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
 import { useState } from "react";
-import { startOfDay, endOfDay, startOfWeek, addDays, set } from "date-fns";
-import type { TimeBlock, TimeBlockInteraction, SlotInfo } from "../types";
+import type { AvailabilityChanges } from "@/lib/actions/availability";
+import { MAX_REPEAT_WEEKS } from "../lib/constants";
+import type {
+  AvailabilityConflict,
+  RepeatWeekOptions,
+  RepeatWeekPreview,
+  SlotInfo,
+  TimeBlock,
+  TimeBlockInteraction,
+} from "../types";
 
 // Helper: check if two blocks overlap or touch
 const blocksOverlapOrTouch = (a: TimeBlock, b: TimeBlock): boolean =>
@@ -55,43 +71,194 @@ const blocksAreEqual = (a: TimeBlock[], b: TimeBlock[]): boolean => {
   );
 };
 
-export function useCalendarEvents(initialBlocks: TimeBlock[] = []) {
+// Blocks added, moved or removed since the last save (matched by ID)
+const diffBlocks = (
+  current: TimeBlock[],
+  saved: TimeBlock[]
+): AvailabilityChanges => {
+  const savedById = new Map(saved.map((block) => [block.id, block]));
+  const currentIds = new Set(current.map((block) => block.id));
+
+  return {
+    added: current.filter((block) => !savedById.has(block.id)),
+    updated: current.filter((block) => {
+      const savedBlock = savedById.get(block.id);
+      return (
+        savedBlock !== undefined &&
+        (savedBlock.start.getTime() !== block.start.getTime() ||
+          savedBlock.end.getTime() !== block.end.getTime())
+      );
+    }),
+    removed: saved
+      .filter((block) => !currentIds.has(block.id))
+      .map((block) => block.id),
+  };
+};
+
+// Apply local changes on top of someone else's version of the blocks
+const rebaseChanges = (
+  changes: AvailabilityChanges,
+  theirs: TimeBlock[]
+): TimeBlock[] => {
+  const removed = new Set(changes.removed);
+  const updatedById = new Map(
+    changes.updated.map((block) => [block.id, block])
+  );
+
+  const rebased = theirs
+    .filter((block) => !removed.has(block.id))
+    .map((block) => updatedById.get(block.id) ?? block);
+
+  // Blocks we moved that were deleted elsewhere come back as new blocks
+  const theirIds = new Set(theirs.map((block) => block.id));
+  const restored = changes.updated
+    .filter((block) => !theirIds.has(block.id))
+    .map((block) => ({ ...block, id: `local-${crypto.randomUUID()}` }));
+
+  return mergeOverlappingBlocks([...rebased, ...restored, ...changes.added]);
+};
+
+// Work out which blocks repeating a week adds and which it replaces
+const planWeekRepeat = (
+  blocks: TimeBlock[],
+  referenceDate: Date,
+  { until, existing }: RepeatWeekOptions
+) => {
+  const weekStart = startOfWeek(referenceDate, { weekStartsOn: 1 });
+  const lastDayEnd = endOfDay(until);
+  const inWeek = (block: TimeBlock, start: Date) =>
+    block.start >= start &&
+    block.start < addWeeks(start, 1) &&
+    block.start <= lastDayEnd;
+
+  const sourceBlocks = blocks.filter((b) => inWeek(b, weekStart));
+  const added: TimeBlock[] = [];
+  const removedIds = new Set<string>();
+  let weeks = 0;
+  let skipped = 0;
+
+  if (sourceBlocks.length === 0) return { added, removedIds, weeks, skipped };
+
+  for (let offset = 1; offset <= MAX_REPEAT_WEEKS; offset++) {
+    const targetStart = addWeeks(weekStart, offset);
+    if (targetStart > lastDayEnd) break;
+
+    const existingBlocks = blocks.filter((b) => inWeek(b, targetStart));
+    if (existingBlocks.length > 0 && existing === "skip") {
+      skipped++;
+      continue;
+    }
+
+    for (const block of existingBlocks) removedIds.add(block.id);
+    weeks++;
+
+    for (const block of sourceBlocks) {
+      // addWeeks keeps the wall-clock time across DST changes
+      const start = addWeeks(block.start, offset);
+      if (start > lastDayEnd) continue;
+      const id = `local-${crypto.randomUUID()}`;
+      added.push({ id, start, end: addWeeks(block.end, offset) });
+    }
+  }
+
+  return { added, removedIds, weeks, skipped };
+};
+
+// Maximum number of edits that can be undone
+const MAX_HISTORY = 50;
+
+type History = {
+  past: TimeBlock[][];
+  future: TimeBlock[][];
+};
+
+export function useCalendarEvents(
+  initialBlocks: TimeBlock[] = [],
+  initialRevision: string | null = null
+) {
   // Current working state (includes unsaved changes)
   const [events, setEvents] = useState<TimeBlock[]>(initialBlocks);
+  // Snapshots of events before/after each edit, for undo and redo
+  const [history, setHistory] = useState<History>({ past: [], future: [] });
   // What we consider "saved" - updated on save and on external updates
   const [savedBlocks, setSavedBlocks] = useState<TimeBlock[]>(initialBlocks);
+  // Document revision savedBlocks belong to - saves are checked against it
+  const [revision, setRevision] = useState<string | null>(initialRevision);
+  // Someone else's save that clashed with ours, waiting to be resolved
+  const [conflict, setConflict] = useState<AvailabilityConflict | null>(null);
   // Track previous initialBlocks to detect external changes
   const [prevInitial, setPrevInitial] = useState<TimeBlock[]>(initialBlocks);
+  const [prevRevision, setPrevRevision] = useState(initialRevision);
 
   // Sync with Sanity Live updates
   if (!blocksAreEqual(initialBlocks, prevInitial)) {
     setPrevInitial(initialBlocks);
-    setSavedBlocks(initialBlocks);
-    // Only reset events if user has no local changes
+    setPrevRevision(initialRevision);
+    // Only take the new blocks if user has no local changes; otherwise keep
+    // the old base so saving reports a conflict instead of overwriting
     if (blocksAreEqual(events, savedBlocks)) {
+      setSavedBlocks(initialBlocks);
       setEvents(initialBlocks);
+      setRevision(initialRevision);
+    }
+  } else if (initialRevision !== prevRevision) {
+    // Only other fields changed (e.g. weekly hours), so the blocks we're
+    // editing are still current
+    setPrevRevision(initialRevision);
+    if (blocksAreEqual(initialBlocks, savedBlocks)) {
+      setRevision(initialRevision);
     }
   }
 
   // Check if there are unsaved changes (compare with OUR saved state, not stale props)
   const hasChanges = !blocksAreEqual(events, savedBlocks);
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
+
+  // Apply an edit, recording the current state so it can be undone
+  const applyChange = (next: TimeBlock[]) => {
+    if (blocksAreEqual(next, events)) return;
+    setHistory({
+      past: [...history.past, events].slice(-MAX_HISTORY),
+      future: [],
+    });
+    setEvents(next);
+  };
+
+  const undo = () => {
+    if (!canUndo) return;
+    setHistory({
+      past: history.past.slice(0, -1),
+      future: [events, ...history.future],
+    });
+    setEvents(history.past[history.past.length - 1]);
+  };
+
+  const redo = () => {
+    if (!canRedo) return;
+    setHistory({
+      past: [...history.past, events].slice(-MAX_HISTORY),
+      future: history.future.slice(1),
+    });
+    setEvents(history.future[0]);
+  };
 
   const addBlock = (start: Date, end: Date) => {
     const id = `local-${crypto.randomUUID()}`;
     const block: TimeBlock = { id, start, end };
-    setEvents((prev) => mergeOverlappingBlocks([...prev, block]));
+    applyChange(mergeOverlappingBlocks([...events, block]));
   };
 
   const updateBlock = (id: string, start: Date, end: Date) => {
-    setEvents((prev) =>
+    applyChange(
       mergeOverlappingBlocks(
-        prev.map((b) => (b.id === id ? { ...b, start, end } : b))
+        events.map((b) => (b.id === id ? { ...b, start, end } : b))
       )
     );
   };
 
   const removeBlock = (id: string) => {
-    setEvents((prev) => prev.filter((b) => b.id !== id));
+    applyChange(events.filter((b) => b.id !== id));
   };
 
   const handleSelectSlot = ({ start, end }: SlotInfo) => {
@@ -138,35 +305,92 @@ export function useCalendarEvents(initialBlocks: TimeBlock[] = []) {
       }
     }
 
-    setEvents((prev) => mergeOverlappingBlocks([...prev, ...newBlocks]));
+    applyChange(mergeOverlappingBlocks([...events, ...newBlocks]));
+  };
+
+  const previewRepeatWeek = (
+    referenceDate: Date,
+    options: RepeatWeekOptions
+  ): RepeatWeekPreview => {
+    const { added, removedIds, weeks, skipped } = planWeekRepeat(
+      events,
+      referenceDate,
+      options
+    );
+    return { created: added.length, replaced: removedIds.size, weeks, skipped };
+  };
+
+  // Copy the week containing referenceDate into following weeks (undoable)
+  const repeatWeek = (referenceDate: Date, options: RepeatWeekOptions) => {
+    const { added, removedIds } = planWeekRepeat(
+      events,
+      referenceDate,
+      options
+    );
+
+    if (added.length === 0) return;
+
+    applyChange(
+      mergeOverlappingBlocks([
+        ...events.filter((b) => !removedIds.has(b.id)),
+        ...added,
+      ])
+    );
   };
 
   const clearWeek = (referenceDate: Date) => {
     const weekStart = startOfWeek(referenceDate, { weekStartsOn: 1 });
     const weekEnd = addDays(weekStart, 7);
 
-    setEvents((prev) =>
-      prev.filter((b) => b.start < weekStart || b.start >= weekEnd)
+    applyChange(
+      events.filter((b) => b.start < weekStart || b.start >= weekEnd)
     );
   };
 
-  // Discard all changes and revert to saved state
+  // Discard all changes and revert to saved state (can be undone)
   const discardChanges = () => {
-    setEvents(savedBlocks);
+    applyChange(savedBlocks);
   };
 
   // Called after successful save - update both events and savedBlocks
-  const markAsSaved = (newBlocks: TimeBlock[]) => {
+  const markAsSaved = (newBlocks: TimeBlock[], newRevision: string) => {
     setEvents(newBlocks);
     setSavedBlocks(newBlocks);
+    setRevision(newRevision);
   };
 
-  // Get the current events for saving
-  const getEventsForSave = () => events;
+  // Get the changes since the last save
+  const getChangesForSave = () => diffBlocks(events, savedBlocks);
+
+  // Whether blocks from the server match what we last saved, i.e. a
+  // conflicting save only touched other fields and can be retried
+  const isUnchangedSinceSave = (blocks: TimeBlock[]) =>
+    blocksAreEqual(blocks, savedBlocks);
+
+  // Settle a conflict: merge our changes into theirs, keep ours (and
+  // overwrite theirs on the next save), or drop ours. Either way the
+  // result still needs saving against their revision.
+  const resolveConflict = (choice: "merge" | "mine" | "theirs") => {
+    if (!conflict) return;
+
+    if (choice === "merge") {
+      applyChange(rebaseChanges(getChangesForSave(), conflict.blocks));
+    } else if (choice === "theirs") {
+      applyChange(conflict.blocks);
+    }
+
+    setSavedBlocks(conflict.blocks);
+    setRevision(conflict.revision);
+    setConflict(null);
+  };
 
   return {
     events,
     hasChanges,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
     addBlock,
     updateBlock,
     removeBlock,
@@ -174,9 +398,17 @@ export function useCalendarEvents(initialBlocks: TimeBlock[] = []) {
     handleEventDrop,
     handleEventResize,
     copyDayToWeek,
+    previewRepeatWeek,
+    repeatWeek,
     clearWeek,
     discardChanges,
     markAsSaved,
-    getEventsForSave,
+    revision,
+    getChangesForSave,
+    isUnchangedSinceSave,
+    conflict,
+    showConflict: setConflict,
+    resolveConflict,
+    dismissConflict: () => setConflict(null),
   };
 }
\ No newline at end of file
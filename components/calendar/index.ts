@@ -2,9 +2,10 @@
 export { AvailabilityCalendar } from "./components/availability-calendar";
 export { CalendarToolbar } from "./components/calendar-toolbar";
 export { CopyDayPopover } from "./components/copy-day-popover";
-
-// Types
-export type { TimeBlock, SlotInfo, TimeBlockInteraction } from "./types";
-
+export { DateOverridesDialog } from "./components/date-overrides-dialog";
+export { RepeatWeekPopover } from "./components/repeat-week-popover";
+export { WeeklyHoursDialog } from "./components/weekly-hours-dialog";
 // Hooks
-export { useCalendarEvents } from "./hooks/use-calendar-events";
\ No newline at end of file
+export { useCalendarEvents } from "./hooks/use-calendar-events";
+// Types
+export type { SlotInfo, TimeBlock, TimeBlockInteraction } from "./types";
\ No newline at end of file
@@ -7,6 +7,22 @@ export const CALENDAR_CONFIG = {
 export const MIN_TIME = new Date(1970, 0, 1, 0, 0, 0);
 export const MAX_TIME = new Date(1970, 0, 1, 23, 59, 59);
 
+// Common durations suggested when setting up a meeting type (any
+// duration can be entered)
+export const DURATION_OPTIONS: Array<{
+  value: number;
+  label: string;
+}> = [
+  { value: 15, label: "15 minutes" },
+  { value: 30, label: "30 minutes" },
+  { value: 45, label: "45 minutes" },
+  { value: 60, label: "60 minutes" },
+  { value: 90, label: "90 minutes" },
+];
+
+// Furthest a week can be repeated ahead
+export const MAX_REPEAT_WEEKS = 52;
+
 // Days of week (Monday = 0, Sunday = 6)
 export const DAYS_OF_WEEK = [
   "Monday",
@@ -29,6 +45,20 @@ export const AVAILABILITY_COLORS = {
   backgroundHover: "#f9fafb", // gray-50
 } as const;
 
+/** Colors for blocks generated from recurring weekly hours */
+export const RECURRING_COLORS = {
+  background: "#dbeafe", // blue-100
+  border: "#93c5fd", // blue-300
+  text: "#1e40af", // blue-800
+} as const;
+
+/** Colors for date overrides (time off and custom hours) */
+export const OVERRIDE_COLORS = {
+  background: "#fef3c7", // amber-100
+  border: "#fbbf24", // amber-400
+  text: "#92400e", // amber-800
+} as const;
+
 /** Colors for busy blocks (external calendar events) */
 export const BUSY_BLOCK_COLORS = {
   background: "#fecaca", // red-200
@@ -1,6 +1,7 @@
-import { dateFnsLocalizer } from "react-big-calendar";
 import { format, getDay, parse, startOfWeek } from "date-fns";
 import { enUS } from "date-fns/locale";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+import { dateFnsLocalizer } from "react-big-calendar";
 
 // Week starts on Monday (1) for most of the world
 // Sunday (0) for US, Canada, Japan
@@ -17,4 +18,32 @@ export const localizer = dateFnsLocalizer({
     startOfWeek(new Date(), { weekStartsOn: getWeekStartDay() }),
   getDay,
   locales: { "en-US": enUS },
-});
\ No newline at end of file
+});
+
+// ============================================================================
+// Host Timezone
+// ============================================================================
+// react-big-calendar lays events out by the browser's local clock. To show
+// the host's timezone instead, instants are converted to dates whose local
+// wall-clock time matches the host's before they reach the calendar, and
+// converted back before saving. Wall-clock times are kept per calendar date,
+// so 09:00–17:00 stays 09:00–17:00 on both sides of a DST change.
+// ============================================================================
+
+/** Convert an instant to a calendar date showing the host's wall-clock time */
+export const toCalendarDate = (date: Date, timezone: string): Date =>
+  toZonedTime(date, timezone);
+
+/** Convert a calendar date (host wall-clock time) back to an instant */
+export const fromCalendarDate = (date: Date, timezone: string): Date =>
+  fromZonedTime(date, timezone);
+
+/** Convert an event's start and end to calendar dates */
+export const toCalendarEvent = <T extends { start: Date; end: Date }>(
+  event: T,
+  timezone: string,
+): T => ({
+  ...event,
+  start: toCalendarDate(event.start, timezone),
+  end: toCalendarDate(event.end, timezone),
+});
@@ -5,6 +5,34 @@ export interface TimeBlock {
   end: Date;
 }
 
+// Another edit to the same availability that a save ran into
+export interface AvailabilityConflict {
+  /** Their blocks, in calendar time */
+  blocks: TimeBlock[];
+  /** Their document revision, to save against once resolved */
+  revision: string;
+}
+
+// How to repeat the current week's blocks into the weeks that follow
+export interface RepeatWeekOptions {
+  /** Last day to copy into (inclusive) */
+  until: Date;
+  /** What to do with target weeks that already have blocks */
+  existing: "skip" | "overwrite";
+}
+
+// What repeating a week would change, shown before applying it
+export interface RepeatWeekPreview {
+  /** Blocks that would be created */
+  created: number;
+  /** Existing blocks that would be replaced */
+  replaced: number;
+  /** Weeks that would receive a copy */
+  weeks: number;
+  /** Weeks left alone because they already have blocks */
+  skipped: number;
+}
+
 // A busy block from Google Calendar (read-only)
 export interface BusyBlock {
   id: string;
@@ -32,8 +60,32 @@ export interface BookedBlock {
   attendeeStatus?: AttendeeStatus;
 }
 
+// A block generated from a recurring weekly rule (read-only, edited via Weekly Hours)
+export interface RecurringBlock {
+  id: string;
+  start: Date;
+  end: Date;
+  ruleKey: string;
+}
+
+// A date override (read-only, edited via Time Off). All-day when the host is
+// unavailable, otherwise one block per custom time range.
+export interface OverrideBlock {
+  id: string;
+  start: Date;
+  end: Date;
+  overrideKey: string;
+  title: string;
+  allDay?: boolean;
+}
+
 // Combined event type for the calendar
-export type CalendarEvent = TimeBlock | BusyBlock | BookedBlock;
+export type CalendarEvent =
+  | TimeBlock
+  | BusyBlock
+  | BookedBlock
+  | RecurringBlock
+  | OverrideBlock;
 
 // Type guard to check if event is a busy block
 export function isBusyBlock(event: CalendarEvent): event is BusyBlock {
@@ -45,6 +97,18 @@ export function isBookedBlock(event: CalendarEvent): event is BookedBlock {
   return "guestName" in event;
 }
 
+// Type guard to check if event is generated from a recurring rule
+export function isRecurringBlock(
+  event: CalendarEvent
+): event is RecurringBlock {
+  return "ruleKey" in event;
+}
+
+// Type guard to check if event is generated from a date override
+export function isOverrideBlock(event: CalendarEvent): event is OverrideBlock {
+  return "overrideKey" in event;
+}
+
 // Slot selection from calendar
 export interface SlotInfo {
   start: Date;
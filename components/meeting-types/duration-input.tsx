@@ -0,0 +1,44 @@
+"use client";
+
+import { DURATION_OPTIONS } from "@/components/calendar/lib/constants";
+import { Input } from "@/components/ui/input";
+import { MAX_MEETING_DURATION, MIN_MEETING_DURATION } from "@/lib/durations";
+
+interface DurationInputProps {
+  id: string;
+  /** Minutes (0 while the field is empty) */
+  value: number;
+  onChange: (minutes: number) => void;
+}
+
+/**
+ * Minutes input that suggests the common durations but accepts any.
+ */
+export function DurationInput({ id, value, onChange }: DurationInputProps) {
+  const listId = `${id}-suggestions`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        id={id}
+        type="number"
+        inputMode="numeric"
+        min={MIN_MEETING_DURATION}
+        max={MAX_MEETING_DURATION}
+        step={5}
+        list={listId}
+        value={value || ""}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-28"
+      />
+      <span className="text-sm text-muted-foreground">minutes</span>
+      <datalist id={listId}>
+        {DURATION_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { Check, X } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { respondToHostInvitation } from "@/lib/actions/meetingTypes";
+import { HOST_ROLE_OPTIONS } from "@/lib/scheduling";
+import type { HostInvitationForUser } from "@/sanity/queries/meetingTypes";
+
+interface HostInvitationsProps {
+  invitations: HostInvitationForUser[];
+}
+
+/**
+ * Meeting types other hosts asked the current user to help host. Nothing is
+ * booked for them until they accept.
+ */
+export function HostInvitations({ invitations }: HostInvitationsProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const respond = (meetingTypeId: string, accept: boolean) => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        await respondToHostInvitation(meetingTypeId, accept);
+        router.refresh();
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to answer invitation",
+        );
+      }
+    });
+  };
+
+  return (
+    <div className="mb-8 space-y-3">
+      <h2 className="font-semibold">Invitations</h2>
+
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {invitations.map((meetingType) => {
+        const role = HOST_ROLE_OPTIONS.find(
+          (option) => option.value === meetingType.invitation?.role,
+        );
+        return (
+          <div
+            key={meetingType._id}
+            className="flex items-center justify-between gap-4 rounded-lg border p-4"
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">{meetingType.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {meetingType.ownerName ?? "A host"} invited you as{" "}
+                {role?.label.toLowerCase() ?? "host"}. Its bookings go on your
+                calendar once you accept.
+              </p>
+            </div>
+
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                size="sm"
+                onClick={() => respond(meetingType._id, true)}
+                disabled={isPending}
+              >
+                <Check className="mr-1 h-3.5 w-3.5" />
+                Accept
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => respond(meetingType._id, false)}
+                disabled={isPending}
+              >
+                <X className="mr-1 h-3.5 w-3.5" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
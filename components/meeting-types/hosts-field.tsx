@@ -0,0 +1,243 @@
+"use client";
+
+import { Plus, X } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_ROUND_ROBIN_PRIORITY,
+  MAX_ROUND_ROBIN_PRIORITY,
+  MIN_ROUND_ROBIN_PRIORITY,
+  ROUND_ROBIN_STRATEGY_OPTIONS,
+  type RoundRobinHostInput,
+  type RoundRobinStrategy,
+  SCHEDULING_TYPE_OPTIONS,
+  type SchedulingType,
+} from "@/lib/scheduling";
+
+/** Who hosts a meeting type's meetings, as edited in the dialog */
+export type HostsSettings = {
+  schedulingType: SchedulingType;
+  coHostEmails: string[];
+  roundRobinHosts: RoundRobinHostInput[];
+  roundRobinStrategy: RoundRobinStrategy;
+};
+
+interface HostsFieldProps {
+  value: HostsSettings;
+  onChange: (value: HostsSettings) => void;
+  /** Hosts who were invited and haven't accepted yet */
+  invitedEmails?: string[];
+}
+
+/**
+ * Pick whether a meeting type has co-hosts or a round-robin pool, and who
+ * they are (by the email they signed up with). New hosts are invited and
+ * join once they accept.
+ */
+export function HostsField({
+  value,
+  onChange,
+  invitedEmails = [],
+}: HostsFieldProps) {
+  const [newEmail, setNewEmail] = useState("");
+  const { schedulingType, coHostEmails, roundRobinHosts } = value;
+  const selected = SCHEDULING_TYPE_OPTIONS.find(
+    (option) => option.value === schedulingType,
+  );
+  const isWeighted = value.roundRobinStrategy === "weighted";
+
+  const update = (changes: Partial<HostsSettings>) =>
+    onChange({ ...value, ...changes });
+
+  const handleAdd = () => {
+    const email = newEmail.trim().toLowerCase();
+    if (!email) return;
+    if (schedulingType === "roundRobin") {
+      if (!roundRobinHosts.some((h) => h.email === email)) {
+        update({
+          roundRobinHosts: [
+            ...roundRobinHosts,
+            { email, priority: DEFAULT_ROUND_ROBIN_PRIORITY },
+          ],
+        });
+      }
+    } else if (!coHostEmails.includes(email)) {
+      update({ coHostEmails: [...coHostEmails, email] });
+    }
+    setNewEmail("");
+  };
+
+  const setPriority = (email: string, priority: number) =>
+    update({
+      roundRobinHosts: roundRobinHosts.map((h) =>
+        h.email === email ? { ...h, priority } : h,
+      ),
+    });
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="meeting-type-scheduling">Hosts</Label>
+      <Select
+        value={schedulingType}
+        onValueChange={(v) => update({ schedulingType: v as SchedulingType })}
+      >
+        <SelectTrigger id="meeting-type-scheduling" className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SCHEDULING_TYPE_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <p className="text-xs text-muted-foreground">{selected.description}</p>
+      )}
+
+      {schedulingType === "roundRobin" && (
+        <Select
+          value={value.roundRobinStrategy}
+          onValueChange={(v) =>
+            update({ roundRobinStrategy: v as RoundRobinStrategy })
+          }
+        >
+          <SelectTrigger aria-label="Next host" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ROUND_ROBIN_STRATEGY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {schedulingType === "collective" && coHostEmails.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {coHostEmails.map((email) => (
+            <span
+              key={email}
+              className="inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-sm"
+            >
+              {email}
+              {invitedEmails.includes(email) && (
+                <span className="text-xs text-muted-foreground">(invited)</span>
+              )}
+              <button
+                type="button"
+                title="Remove"
+                onClick={() =>
+                  update({
+                    coHostEmails: coHostEmails.filter((e) => e !== email),
+                  })
+                }
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {schedulingType === "roundRobin" && roundRobinHosts.length > 0 && (
+        <div className="space-y-2">
+          {roundRobinHosts.map((h) => (
+            <div key={h.email} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-sm">
+                {h.email}
+                {invitedEmails.includes(h.email) && (
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    (invited)
+                  </span>
+                )}
+              </span>
+              {isWeighted && (
+                <Input
+                  aria-label={`Priority of ${h.email}`}
+                  title="Priority"
+                  type="number"
+                  min={MIN_ROUND_ROBIN_PRIORITY}
+                  max={MAX_ROUND_ROBIN_PRIORITY}
+                  className="w-20"
+                  value={h.priority}
+                  onChange={(e) => setPriority(h.email, Number(e.target.value))}
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                title="Remove host"
+                onClick={() =>
+                  update({
+                    roundRobinHosts: roundRobinHosts.filter(
+                      (other) => other.email !== h.email,
+                    ),
+                  })
+                }
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {schedulingType !== "individual" && (
+        <>
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="Host email"
+              type="email"
+              placeholder={
+                schedulingType === "roundRobin"
+                  ? "Email of a host in the pool"
+                  : "Co-host's email"
+              }
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleAdd}
+              disabled={!newEmail.trim()}
+            >
+              <Plus className="mr-1 h-3.5 w-3.5" />
+              Add
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {schedulingType === "roundRobin"
+              ? "Add yourself too if you take these meetings. "
+              : ""}
+            Hosts need their own account here. They're invited and join once
+            they accept on their Meeting Types page. Their availability,
+            bookings and calendars are checked too.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  INTAKE_QUESTION_TYPES,
+  type IntakeQuestion,
+  type IntakeQuestionType,
+  isChoiceQuestion,
+} from "@/lib/intake-questions";
+
+interface IntakeQuestionsEditorProps {
+  questions: IntakeQuestion[];
+  onChange: (questions: IntakeQuestion[]) => void;
+}
+
+/**
+ * Edit the questions guests answer when booking a meeting type.
+ */
+export function IntakeQuestionsEditor({
+  questions,
+  onChange,
+}: IntakeQuestionsEditorProps) {
+  const update = (key: string, changes: Partial<IntakeQuestion>) => {
+    onChange(questions.map((q) => (q._key === key ? { ...q, ...changes } : q)));
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...questions,
+      {
+        _key: `local-${crypto.randomUUID()}`,
+        label: "",
+        type: "shortText",
+        required: false,
+        options: [],
+      },
+    ]);
+  };
+
+  const handleRemove = (key: string) => {
+    onChange(questions.filter((q) => q._key !== key));
+  };
+
+  return (
+    <div className="space-y-3">
+      {questions.map((question, index) => (
+        <div key={question._key} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label={`Question ${index + 1}`}
+              placeholder="e.g., What would you like to discuss?"
+              value={question.label}
+              onChange={(e) => update(question._key, { label: e.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              title="Remove question"
+              onClick={() => handleRemove(question._key)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-3">
+            <Select
+              value={question.type}
+              onValueChange={(v) =>
+                update(question._key, { type: v as IntakeQuestionType })
+              }
+            >
+              <SelectTrigger className="w-40" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INTAKE_QUESTION_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`${question._key}-required`}
+                checked={question.required}
+                onCheckedChange={(checked) =>
+                  update(question._key, { required: checked === true })
+                }
+              />
+              <Label
+                htmlFor={`${question._key}-required`}
+                className="font-normal"
+              >
+                Required
+              </Label>
+            </div>
+          </div>
+          {isChoiceQuestion(question.type) && (
+            <Textarea
+              aria-label="Choices"
+              placeholder="One choice per line"
+              rows={3}
+              value={question.options.join("\n")}
+              onChange={(e) =>
+                update(question._key, { options: e.target.value.split("\n") })
+              }
+            />
+          )}
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={handleAdd}>
+        <Plus className="mr-1 h-3.5 w-3.5" />
+        Add Question
+      </Button>
+    </div>
+  );
+}
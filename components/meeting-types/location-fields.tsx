@@ -0,0 +1,99 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DEFAULT_JITSI_DOMAIN,
+  LOCATION_TYPE_OPTIONS,
+  type MeetingLocation,
+  type MeetingLocationType,
+} from "@/lib/locations";
+
+interface LocationFieldsProps {
+  location: MeetingLocation;
+  onChange: (location: MeetingLocation) => void;
+}
+
+/**
+ * Pick where a meeting type's meetings take place, with the details each
+ * kind of location needs.
+ */
+export function LocationFields({ location, onChange }: LocationFieldsProps) {
+  const update = (changes: Partial<MeetingLocation>) =>
+    onChange({ ...location, ...changes });
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="meeting-type-location">Location</Label>
+      <Select
+        value={location.type}
+        onValueChange={(v) => update({ type: v as MeetingLocationType })}
+      >
+        <SelectTrigger id="meeting-type-location" className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {LOCATION_TYPE_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {location.type === "inPerson" && (
+        <Textarea
+          aria-label="Address"
+          placeholder="Street, city"
+          rows={2}
+          value={location.address ?? ""}
+          onChange={(e) => update({ address: e.target.value })}
+        />
+      )}
+      {location.type === "hostPhone" && (
+        <Input
+          aria-label="Your phone number"
+          type="tel"
+          placeholder="Number guests call"
+          value={location.phone ?? ""}
+          onChange={(e) => update({ phone: e.target.value })}
+        />
+      )}
+      {location.type === "customVideo" && (
+        <Input
+          aria-label="Video link"
+          type="url"
+          placeholder="https://zoom.us/j/…"
+          value={location.url ?? ""}
+          onChange={(e) => update({ url: e.target.value })}
+        />
+      )}
+      {location.type === "jitsi" && (
+        <Input
+          aria-label="Jitsi server"
+          placeholder={DEFAULT_JITSI_DOMAIN}
+          value={location.jitsiDomain ?? ""}
+          onChange={(e) => update({ jitsiDomain: e.target.value })}
+        />
+      )}
+      {location.type === "guestPhone" && (
+        <p className="text-xs text-muted-foreground">
+          Guests enter their number when they book.
+        </p>
+      )}
+      {location.type === "googleMeet" && (
+        <p className="text-xs text-muted-foreground">
+          Needs a connected Google account to create the Meet link.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+"use client";
+
+import { Loader2, Plus, Save, X } from "lucide-react";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  createMeetingType,
+  updateMeetingType,
+} from "@/lib/actions/meetingTypes";
+import { formatDuration, isValidDuration } from "@/lib/durations";
+import {
+  type IntakeQuestion,
+  resolveIntakeQuestions,
+} from "@/lib/intake-questions";
+import { type MeetingLocation, resolveMeetingLocation } from "@/lib/locations";
+import {
+  DEFAULT_ROUND_ROBIN_PRIORITY,
+  resolveRoundRobinStrategy,
+  resolveSchedulingType,
+} from "@/lib/scheduling";
+import type { MeetingTypeForHost } from "@/sanity/queries/meetingTypes";
+import { DurationInput } from "./duration-input";
+import { HostsField, type HostsSettings } from "./hosts-field";
+import { IntakeQuestionsEditor } from "./intake-questions-editor";
+import { LocationFields } from "./location-fields";
+
+interface MeetingTypeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Meeting type to edit (omit to create a new one) */
+  meetingType?: MeetingTypeForHost;
+  onSaved: () => void;
+}
+
+export function MeetingTypeDialog({
+  open,
+  onOpenChange,
+  meetingType,
+  onSaved,
+}: MeetingTypeDialogProps) {
+  const [name, setName] = useState("");
+  const [duration, setDuration] = useState(30);
+  const [durationOptions, setDurationOptions] = useState<number[]>([]);
+  const [newOption, setNewOption] = useState(0);
+  const [description, setDescription] = useState("");
+  const [slug, setSlug] = useState("");
+  const [questions, setQuestions] = useState<IntakeQuestion[]>([]);
+  const [location, setLocation] = useState<MeetingLocation>(() =>
+    resolveMeetingLocation(null),
+  );
+  const [hidden, setHidden] = useState(false);
+  const [seats, setSeats] = useState(1);
+  const [hosts, setHosts] = useState<HostsSettings>(() =>
+    toHostsSettings(undefined),
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [wasOpen, setWasOpen] = useState(false);
+  const [isSaving, startSaveTransition] = useTransition();
+
+  // Start from the saved meeting type every time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setName(meetingType?.name ?? "");
+      setDuration(meetingType?.duration ?? 30);
+      setDurationOptions(meetingType?.durationOptions ?? []);
+      setQuestions(resolveIntakeQuestions(meetingType?.questions));
+      setLocation(resolveMeetingLocation(meetingType?.location));
+      setNewOption(0);
+      setDescription(meetingType?.description ?? "");
+      setSlug(meetingType?.slug ?? "");
+      setHidden(meetingType?.hidden ?? false);
+      setSeats(meetingType?.seats ?? 1);
+      setHosts(toHostsSettings(meetingType));
+      setError(null);
+    }
+  }
+
+  const handleSave = () => {
+    setError(null);
+    startSaveTransition(async () => {
+      try {
+        const data = {
+          name,
+          duration,
+          durationOptions,
+          description,
+          location,
+          questions,
+          hidden,
+          // Round-robin meetings are always one-on-one
+          seats: hosts.schedulingType === "roundRobin" ? 1 : seats,
+          ...hosts,
+        };
+        if (meetingType) {
+          await updateMeetingType(meetingType._id, { ...data, slug });
+        } else {
+          await createMeetingType(data);
+        }
+        onSaved();
+        onOpenChange(false);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to save meeting type",
+        );
+      }
+    });
+  };
+
+  const handleAddOption = () => {
+    if (!isValidDuration(newOption)) return;
+    if (newOption !== duration && !durationOptions.includes(newOption)) {
+      setDurationOptions([...durationOptions, newOption].sort((a, b) => a - b));
+    }
+    setNewOption(0);
+  };
+
+  const handleRemoveOption = (minutes: number) => {
+    setDurationOptions(durationOptions.filter((m) => m !== minutes));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {meetingType ? "Edit Meeting Type" : "New Meeting Type"}
+          </DialogTitle>
+          <DialogDescription>
+            Guests see the name, duration and description on your booking page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="meeting-type-name">Meeting Name</Label>
+            <Input
+              id="meeting-type-name"
+              placeholder="e.g., Quick Chat, Consultation"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          {meetingType && (
+            <div className="space-y-2">
+              <Label htmlFor="meeting-type-slug">URL Slug</Label>
+              <Input
+                id="meeting-type-slug"
+                value={slug}
+                onChange={(e) => setSlug(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Links with the old slug keep working and redirect to the new
+                one.
+              </p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="meeting-type-duration">Duration</Label>
+            <DurationInput
+              id="meeting-type-duration"
+              value={duration}
+              onChange={setDuration}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="meeting-type-duration-option">
+              Other Durations (optional)
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Let guests pick a different length when they book.
+            </p>
+            {durationOptions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {durationOptions.map((minutes) => (
+                  <span
+                    key={minutes}
+                    className="inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-sm"
+                  >
+                    {formatDuration(minutes)}
+                    <button
+                      type="button"
+                      title="Remove"
+                      onClick={() => handleRemoveOption(minutes)}
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <DurationInput
+                id="meeting-type-duration-option"
+                value={newOption}
+                onChange={setNewOption}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleAddOption}
+                disabled={!isValidDuration(newOption)}
+              >
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Add
+              </Button>
+            </div>
+          </div>
+          {hosts.schedulingType !== "roundRobin" && (
+            <div className="space-y-2">
+              <Label htmlFor="meeting-type-seats">Seats</Label>
+              <Input
+                id="meeting-type-seats"
+                type="number"
+                min={1}
+                value={seats}
+                onChange={(e) => setSeats(Number(e.target.value))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Guests per time slot. Use more than 1 for webinars and
+                workshops; guests who pick the same time join one meeting.
+              </p>
+            </div>
+          )}
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="meeting-type-hidden"
+              checked={hidden}
+              onCheckedChange={(checked) => setHidden(checked === true)}
+              className="mt-0.5"
+            />
+            <div className="space-y-1">
+              <Label htmlFor="meeting-type-hidden" className="font-normal">
+                Hide from my booking page
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Only people you send the link to can book it.
+              </p>
+            </div>
+          </div>
+          <HostsField
+            value={hosts}
+            onChange={setHosts}
+            invitedEmails={getInvitedEmails(meetingType)}
+          />
+          <LocationFields location={location} onChange={setLocation} />
+          <div className="space-y-2">
+            <Label htmlFor="meeting-type-description">
+              Description (optional)
+            </Label>
+            <Textarea
+              id="meeting-type-description"
+              rows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Intake Questions (optional)</Label>
+            <p className="text-xs text-muted-foreground">
+              Guests answer these along with their name and email when they
+              book.
+            </p>
+            <IntakeQuestionsEditor
+              questions={questions}
+              onChange={setQuestions}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={
+              isSaving ||
+              !name.trim() ||
+              !isValidDuration(duration) ||
+              !Number.isInteger(seats) ||
+              seats < 1 ||
+              (hosts.schedulingType === "collective" &&
+                hosts.coHostEmails.length === 0) ||
+              (hosts.schedulingType === "roundRobin" &&
+                hosts.roundRobinHosts.length === 0) ||
+              (!!meetingType && !slug.trim())
+            }
+          >
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Who hosts the saved meeting type, for editing
+function toHostsSettings(
+  meetingType: MeetingTypeForHost | undefined,
+): HostsSettings {
+  return {
+    schedulingType: resolveSchedulingType(meetingType?.schedulingType),
+    // Invited co-hosts are listed with the ones who accepted
+    coHostEmails: [
+      ...(meetingType?.coHostEmails ?? []),
+      ...(meetingType?.hostInvitations ?? [])
+        .filter((invitation) => invitation.role === "coHost")
+        .map((invitation) => invitation.email),
+    ].filter((email): email is string => !!email),
+    // Invited members are listed with the ones who accepted
+    roundRobinHosts: [
+      ...(meetingType?.roundRobinHosts ?? []),
+      ...(meetingType?.hostInvitations ?? []).filter(
+        (invitation) => invitation.role === "roundRobinHost",
+      ),
+    ].flatMap((h) =>
+      h.email
+        ? [
+            {
+              email: h.email,
+              priority: h.priority ?? DEFAULT_ROUND_ROBIN_PRIORITY,
+            },
+          ]
+        : [],
+    ),
+    roundRobinStrategy: resolveRoundRobinStrategy(
+      meetingType?.roundRobinStrategy,
+    ),
+  };
+}
+
+// Hosts of the saved meeting type who haven't accepted their invitation yet
+function getInvitedEmails(meetingType: MeetingTypeForHost | undefined) {
+  return (meetingType?.hostInvitations ?? []).flatMap((invitation) =>
+    invitation.email ? [invitation.email] : [],
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowDown,
+  ArrowUp,
+  Clock,
+  Copy,
+  Pencil,
+  Plus,
+  Star,
+  Trash2,
+} from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  deleteMeetingType,
+  duplicateMeetingType,
+  reorderMeetingTypes,
+  setDefaultMeetingType,
+  setMeetingTypeArchived,
+} from "@/lib/actions/meetingTypes";
+import { formatDuration, getDurationChoices } from "@/lib/durations";
+import { cn } from "@/lib/utils";
+import type { MeetingTypeForHost } from "@/sanity/queries/meetingTypes";
+import { MeetingTypeDialog } from "./meeting-type-dialog";
+
+interface MeetingTypesManagerProps {
+  meetingTypes: MeetingTypeForHost[];
+}
+
+export function MeetingTypesManager({
+  meetingTypes,
+}: MeetingTypesManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<MeetingTypeForHost | undefined>();
+  // Shown in the new order right away while a reorder saves
+  const [order, setOrder] = useState(meetingTypes);
+  const [prevMeetingTypes, setPrevMeetingTypes] = useState(meetingTypes);
+
+  if (meetingTypes !== prevMeetingTypes) {
+    setPrevMeetingTypes(meetingTypes);
+    setOrder(meetingTypes);
+  }
+
+  const runAction = (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action();
+        router.refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : fallback);
+        setOrder(meetingTypes);
+      }
+    });
+  };
+
+  const openDialog = (meetingType?: MeetingTypeForHost) => {
+    setEditing(meetingType);
+    setDialogOpen(true);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const next = [...order];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + direction, 0, moved);
+    setOrder(next);
+    runAction(
+      () => reorderMeetingTypes(next.map((t) => t._id)),
+      "Failed to reorder meeting types",
+    );
+  };
+
+  const handleDelete = (meetingType: MeetingTypeForHost) => {
+    const bookingNote =
+      meetingType.bookingCount > 0
+        ? ` Its ${meetingType.bookingCount} booking(s) will be kept without a meeting type. Archive it instead to keep them linked.`
+        : "";
+    if (!window.confirm(`Delete "${meetingType.name}"?${bookingNote}`)) return;
+
+    runAction(
+      () => deleteMeetingType(meetingType._id),
+      "Failed to delete meeting type",
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          The default meeting type opens first on your booking page.
+        </p>
+        <Button onClick={() => openDialog()} disabled={isPending}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Meeting Type
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {order.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center">
+          <p className="text-muted-foreground">No meeting types yet.</p>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Create one so guests can book time with you.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {order.map((meetingType, index) => (
+            <div
+              key={meetingType._id}
+              className={cn(
+                "flex items-center justify-between gap-4 rounded-lg border p-4",
+                meetingType.archived && "bg-muted/50",
+              )}
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    title="Move up"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={isPending || index === 0}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    title="Move down"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={isPending || index === order.length - 1}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="min-w-0">
+                  <p
+                    className={cn(
+                      "font-medium truncate",
+                      meetingType.archived && "text-muted-foreground",
+                    )}
+                  >
+                    {meetingType.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {getDurationChoices(
+                      meetingType.duration ?? 30,
+                      meetingType.durationOptions,
+                    )
+                      .map(formatDuration)
+                      .join(" / ")}{" "}
+                    · {meetingType.bookingCount}{" "}
+                    {meetingType.bookingCount === 1 ? "booking" : "bookings"}
+                    {meetingType.isDefault && (
+                      <>
+                        {" · "}
+                        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                        Default
+                      </>
+                    )}
+                    {meetingType.schedulingType === "collective" &&
+                      " · Collective"}
+                    {meetingType.schedulingType === "roundRobin" &&
+                      " · Round robin"}
+                    {meetingType.archived && " · Archived"}
+                    {meetingType.hidden && !meetingType.archived && " · Hidden"}
+                    {(meetingType.seats ?? 1) > 1 &&
+                      ` · ${meetingType.seats} seats`}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1 shrink-0">
+                {!meetingType.isDefault && !meetingType.archived && (
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    title="Make default"
+                    onClick={() =>
+                      runAction(
+                        () => setDefaultMeetingType(meetingType._id),
+                        "Failed to set default meeting type",
+                      )
+                    }
+                    disabled={isPending}
+                  >
+                    <Star className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  title="Edit"
+                  onClick={() => openDialog(meetingType)}
+                  disabled={isPending}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  title="Duplicate"
+                  onClick={() =>
+                    runAction(
+                      () => duplicateMeetingType(meetingType._id),
+                      "Failed to duplicate meeting type",
+                    )
+                  }
+                  disabled={isPending}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  title={meetingType.archived ? "Restore" : "Archive"}
+                  onClick={() =>
+                    runAction(
+                      () =>
+                        setMeetingTypeArchived(
+                          meetingType._id,
+                          !meetingType.archived,
+                        ),
+                      "Failed to update meeting type",
+                    )
+                  }
+                  disabled={isPending}
+                >
+                  {meetingType.archived ? (
+                    <ArchiveRestore className="h-4 w-4" />
+                  ) : (
+                    <Archive className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  title="Delete"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => handleDelete(meetingType)}
+                  disabled={isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <MeetingTypeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        meetingType={editing}
+        onSaved={() => router.refresh()}
+      />
+    </div>
+  );
+}
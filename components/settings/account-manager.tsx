@@ -1,17 +1,37 @@
 "use client";
 
-import { useState, useTransition } from "react";
-import { useRouter } from "next/navigation";
+import {
+  ArrowRight,
+  Loader2,
+  Plus,
+  SlidersHorizontal,
+  Star,
+  Trash2,
+} from "lucide-react";
 import Link from "next/link";
-import { ArrowRight, Loader2, Plus, Star, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
 import { FcGoogle } from "react-icons/fc";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import {
   disconnectGoogleAccount,
   setDefaultCalendarAccount,
+  updateBusyRules,
 } from "@/lib/actions/calendar";
-import type { ConnectedAccountDisplay } from "@/sanity/queries/users";
+import {
+  BUSY_RULE_OPTIONS,
+  type BusyRuleKey,
+  resolveBusyRules,
+} from "@/lib/busy-rules";
 import type { PlanType } from "@/lib/features";
+import type { ConnectedAccountDisplay } from "@/sanity/queries/users";
 
 interface AccountManagerProps {
   connectedAccounts: ConnectedAccountDisplay[];
@@ -65,6 +85,27 @@ export function AccountManager({
     });
   };
 
+  const handleBusyRuleChange = async (
+    account: ConnectedAccountDisplay,
+    key: BusyRuleKey,
+    value: boolean,
+  ) => {
+    setPendingAction(`rules-${account._key}`);
+    startTransition(async () => {
+      try {
+        await updateBusyRules(account._key, {
+          ...resolveBusyRules(account.busyRules),
+          [key]: value,
+        });
+        router.refresh();
+      } catch (error) {
+        console.error("Failed to update busy rules:", error);
+      } finally {
+        setPendingAction(null);
+      }
+    });
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -124,6 +165,66 @@ export function AccountManager({
               </div>
 
               <div className="flex items-center gap-2">
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="icon-sm"
+                      title="Busy rules"
+                      disabled={isPending}
+                    >
+                      {pendingAction === `rules-${account._key}` ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <SlidersHorizontal className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-72" align="end">
+                    <div className="grid gap-4">
+                      <div className="space-y-2">
+                        <h4 className="font-medium leading-none">
+                          Count as busy
+                        </h4>
+                        <p className="text-sm text-muted-foreground">
+                          Choose which events from this calendar block
+                          bookings.
+                        </p>
+                      </div>
+                      <div className="grid gap-3">
+                        {BUSY_RULE_OPTIONS.map((option) => {
+                          const id = `${option.key}-${account._key}`;
+                          return (
+                            <div
+                              key={option.key}
+                              className="flex items-center gap-2"
+                            >
+                              <Checkbox
+                                id={id}
+                                checked={
+                                  resolveBusyRules(account.busyRules)[
+                                    option.key
+                                  ]
+                                }
+                                onCheckedChange={(checked) =>
+                                  handleBusyRuleChange(
+                                    account,
+                                    option.key,
+                                    checked === true,
+                                  )
+                                }
+                                disabled={isPending}
+                              />
+                              <Label htmlFor={id} className="font-normal">
+                                {option.label}
+                              </Label>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  </PopoverContent>
+                </Popover>
                 {!account.isDefault && (
                   <Button
                     variant="outline"
@@ -174,6 +275,10 @@ export function AccountManager({
             • When someone books a meeting, an event is created on your default
             calendar
           </li>
+          <li>
+            • Use the busy rules on each account to decide whether all-day,
+            tentative, free or declined events block bookings
+          </li>
           <li>
             • Both you and your guest receive email invitations from Google
           </li>
@@ -0,0 +1,234 @@
+"use client";
+
+import { CalendarCheck, Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getAccountCalendars,
+  setAvailabilityCalendar,
+} from "@/lib/actions/calendar";
+import type { GoogleCalendarListEntry } from "@/lib/google-calendar";
+import type {
+  AvailabilityCalendarSetting,
+  ConnectedAccountDisplay,
+} from "@/sanity/queries/users";
+
+type Mode = NonNullable<AvailabilityCalendarSetting>["mode"];
+
+interface AvailabilityCalendarSettingsProps {
+  connectedAccounts: ConnectedAccountDisplay[];
+  setting: AvailabilityCalendarSetting;
+}
+
+export function AvailabilityCalendarSettings({
+  connectedAccounts,
+  setting,
+}: AvailabilityCalendarSettingsProps) {
+  const router = useRouter();
+  const [isSaving, startSaveTransition] = useTransition();
+  const [accountKey, setAccountKey] = useState(setting?.accountKey ?? "");
+  const [calendarId, setCalendarId] = useState(setting?.calendarId ?? "");
+  const [mode, setMode] = useState<Mode>(setting?.mode ?? "merge");
+  const [calendars, setCalendars] = useState<GoogleCalendarListEntry[]>(() =>
+    setting
+      ? [
+          {
+            id: setting.calendarId,
+            name: setting.calendarName ?? setting.calendarId,
+            primary: false,
+          },
+        ]
+      : [],
+  );
+  const [isLoadingCalendars, setIsLoadingCalendars] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the selected account's calendars
+  useEffect(() => {
+    if (!accountKey) return;
+
+    let cancelled = false;
+    setIsLoadingCalendars(true);
+    getAccountCalendars(accountKey)
+      .then((result) => {
+        if (!cancelled) setCalendars(result);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load calendars",
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingCalendars(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountKey]);
+
+  const handleAccountChange = (key: string) => {
+    setAccountKey(key);
+    setCalendarId("");
+    setCalendars([]);
+    setError(null);
+  };
+
+  const isUnchanged =
+    accountKey === (setting?.accountKey ?? "") &&
+    calendarId === (setting?.calendarId ?? "") &&
+    mode === (setting?.mode ?? "merge");
+
+  const save = (next: NonNullable<AvailabilityCalendarSetting> | null) => {
+    setError(null);
+    startSaveTransition(async () => {
+      try {
+        await setAvailabilityCalendar(next);
+        router.refresh();
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Failed to update availability calendar",
+        );
+      }
+    });
+  };
+
+  const handleSave = () => {
+    const calendar = calendars.find((c) => c.id === calendarId);
+    if (!accountKey || !calendar) return;
+    save({ accountKey, calendarId, calendarName: calendar.name, mode });
+  };
+
+  const handleRemove = () => {
+    setAccountKey("");
+    setCalendarId("");
+    setCalendars([]);
+    setMode("merge");
+    save(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Availability Calendar</h2>
+        <p className="text-sm text-muted-foreground">
+          Keep your open hours as events in a Google calendar. Each event in it
+          becomes time guests can book.
+        </p>
+      </div>
+
+      {connectedAccounts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Connect a Google account above to use one of its calendars.
+        </p>
+      ) : (
+        <div className="grid gap-3">
+          <div className="grid gap-1.5">
+            <Label htmlFor="availability-calendar-account">Account</Label>
+            <Select value={accountKey} onValueChange={handleAccountChange}>
+              <SelectTrigger
+                id="availability-calendar-account"
+                className="w-full"
+              >
+                <SelectValue placeholder="Choose an account" />
+              </SelectTrigger>
+              <SelectContent>
+                {connectedAccounts.map((account) => (
+                  <SelectItem key={account._key} value={account._key}>
+                    {account.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-1.5">
+            <Label htmlFor="availability-calendar-id">Calendar</Label>
+            <Select
+              value={calendarId}
+              onValueChange={setCalendarId}
+              disabled={!accountKey || isLoadingCalendars}
+            >
+              <SelectTrigger id="availability-calendar-id" className="w-full">
+                {isLoadingCalendars && (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                )}
+                <SelectValue placeholder="Choose a calendar" />
+              </SelectTrigger>
+              <SelectContent>
+                {calendars.map((calendar) => (
+                  <SelectItem key={calendar.id} value={calendar.id}>
+                    {calendar.name}
+                    {calendar.primary && " (primary)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-1.5">
+            <Label htmlFor="availability-calendar-mode">Use events to</Label>
+            <Select value={mode} onValueChange={(v) => setMode(v as Mode)}>
+              <SelectTrigger id="availability-calendar-mode" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">
+                  Add to the hours on my availability page
+                </SelectItem>
+                <SelectItem value="replace">
+                  Replace the blocks on my availability page
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Weekly hours and time off still apply either way.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !calendarId || isUnchanged}
+            >
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CalendarCheck className="mr-2 h-4 w-4" />
+              )}
+              Save
+            </Button>
+            {setting && (
+              <Button
+                variant="outline"
+                onClick={handleRemove}
+                disabled={isSaving}
+              >
+                Stop using
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
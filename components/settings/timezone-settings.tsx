@@ -0,0 +1,87 @@
+"use client";
+
+import { Globe, Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useMemo, useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { updateTimezone } from "@/lib/actions/availability";
+
+interface TimezoneSettingsProps {
+  timezone?: string | null;
+}
+
+export function TimezoneSettings({ timezone }: TimezoneSettingsProps) {
+  const router = useRouter();
+  const [isSaving, startSaveTransition] = useTransition();
+  const [selected, setSelected] = useState(
+    () => timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const timezones = useMemo(() => {
+    const supported = Intl.supportedValuesOf("timeZone");
+    return supported.includes(selected) ? supported : [selected, ...supported];
+  }, [selected]);
+
+  const handleSave = () => {
+    setError(null);
+    startSaveTransition(async () => {
+      try {
+        await updateTimezone(selected);
+        router.refresh();
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to update timezone",
+        );
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Timezone</h2>
+        <p className="text-sm text-muted-foreground">
+          Your availability and booking pages use this timezone, including
+          daylight saving changes.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Globe className="size-5 shrink-0 text-muted-foreground" />
+        <Select value={selected} onValueChange={setSelected}>
+          <SelectTrigger className="w-full" aria-label="Timezone">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-80">
+            {timezones.map((tz) => (
+              <SelectItem key={tz} value={tz}>
+                {tz.replace(/_/g, " ")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handleSave}
+          disabled={isSaving || selected === timezone}
+        >
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,41 @@
 "use server";
 
 import { auth, currentUser } from "@clerk/nextjs/server";
-import { startOfMonth, endOfMonth } from "date-fns";
+import { ClientError } from "@sanity/client";
+import { endOfMonth, startOfMonth } from "date-fns";
+import { cookies } from "next/headers";
 import { defineQuery } from "next-sanity";
-import { writeClient } from "@/sanity/lib/writeClient";
+import type { TimeBlock } from "@/components/calendar/types";
+import {
+  type AvailabilityOverride,
+  type AvailabilityRule,
+  isValidTimezone,
+} from "@/lib/availability";
+import type { BookingQuotaStatus } from "@/lib/features";
+import { getUserPlan, PLAN_LIMITS } from "@/lib/features";
+import { generateSlug, getBaseUrl } from "@/lib/url";
 import { client } from "@/sanity/lib/client";
 import { sanityFetch } from "@/sanity/lib/live";
+import { writeClient } from "@/sanity/lib/writeClient";
+import { SCHEDULE_ID_FOR_HOST_QUERY } from "@/sanity/queries/schedules";
 import {
   USER_ID_BY_CLERK_ID_QUERY,
   USER_SLUG_QUERY,
 } from "@/sanity/queries/users";
-import {
-  MEETING_TYPES_BY_HOST_QUERY,
-  HOST_ID_BY_CLERK_ID_QUERY,
-  type MeetingTypeForHost,
-} from "@/sanity/queries/meetingTypes";
-import { generateSlug, getBaseUrl } from "@/lib/url";
-import { PLAN_LIMITS, getUserPlan } from "@/lib/features";
-import type { TimeBlock } from "@/components/calendar/types";
-import type { BookingQuotaStatus } from "@/lib/features";
+
+// Browser timezone stored by TimezoneDetector, if valid
+async function getDetectedTimezone(): Promise<string | undefined> {
+  const cookieStore = await cookies();
+  const timezone = cookieStore.get("timezone")?.value;
+  if (!timezone) return undefined;
+
+  try {
+    assertValidTimezone(timezone);
+    return timezone;
+  } catch {
+    return undefined;
+  }
+}
 
 // Get or create user document by Clerk ID
 export async function getOrCreateUser(clerkId: string) {
@@ -28,6 +45,13 @@ export async function getOrCreateUser(clerkId: string) {
   });
 
   if (existingUser) {
+    // Default the host timezone to the browser's for users created before it existed
+    if (!existingUser.timezone) {
+      const timezone = await getDetectedTimezone();
+      if (timezone) {
+        await writeClient.patch(existingUser._id).set({ timezone }).commit();
+      }
+    }
     return existingUser;
   }
 
@@ -46,42 +70,342 @@ export async function getOrCreateUser(clerkId: string) {
         ? `${clerkUser.firstName} ${clerkUser.lastName}`
         : clerkUser.username || "User",
     email: clerkUser.emailAddresses[0]?.emailAddress,
+    timezone: await getDetectedTimezone(),
     availability: [],
+    availabilityRules: [],
+    availabilityOverrides: [],
   });
 
   return { _id: newUser._id };
 }
 
+export type SavedBlock = { id: string; start: string; end: string };
+
+/**
+ * Block changes since the last save. Blocks with a "local-" ID are new.
+ */
+export type AvailabilityChanges = {
+  added: TimeBlock[];
+  updated: TimeBlock[];
+  removed: string[];
+};
+
+/**
+ * Outcome of saving availability. On "conflict" nothing was written and
+ * `blocks`/`revision` are the document's current state, for merging.
+ */
+export type SaveAvailabilityResult = {
+  status: "saved" | "conflict";
+  revision: string;
+  blocks: SavedBlock[];
+};
+
+const BLOCK_KEY_PATTERN = /^[\w-]+$/;
+
+const AVAILABILITY_REVISION_QUERY = defineQuery(`*[_id == $documentId][0]{
+  _rev,
+  availability[]{
+    _key,
+    startDateTime,
+    endDateTime
+  }
+}`);
+
+type SanityBlock = { _key: string; startDateTime: string; endDateTime: string };
+
+const toSavedBlocks = (blocks: SanityBlock[] | null | undefined) =>
+  (blocks ?? []).map((block) => ({
+    id: block._key,
+    start: block.startDateTime,
+    end: block.endDateTime,
+  }));
+
 /**
- * Save all availability blocks (replaces entire availability)
- * Returns the new blocks with their real IDs from Sanity
+ * Save changed availability blocks, leaving untouched blocks (and their
+ * keys) alone. Saves to the given schedule, or the host's default
+ * availability.
+ *
+ * `revision` is the document revision the changes were made against; if
+ * the document has been edited since (another tab, the Studio), nothing
+ * is saved and a conflict is returned instead.
  */
 export async function saveAvailability(
-  blocks: TimeBlock[]
-): Promise<Array<{ id: string; start: string; end: string }>> {
+  changes: AvailabilityChanges,
+  revision: string | null,
+  scheduleId?: string
+): Promise<SaveAvailabilityResult> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  for (const block of [...changes.updated, ...changes.added]) {
+    if (block.end <= block.start) {
+      throw new Error("End time must be after start time");
+    }
+  }
+  const existingKeys = [
+    ...changes.updated.map((block) => block.id),
+    ...changes.removed,
+  ];
+  if (!existingKeys.every((key) => BLOCK_KEY_PATTERN.test(key))) {
+    throw new Error("Invalid block ID");
+  }
+
+  const documentId = await getAvailabilityDocumentId(userId, scheduleId);
+
+  let patch = writeClient
+    .patch(documentId)
+    .setIfMissing({ availability: [] });
+
+  // Documents created by this save have no revision to check against yet
+  if (revision) {
+    patch = patch.ifRevisionId(revision);
+  }
+
+  if (changes.removed.length > 0) {
+    patch = patch.unset(
+      changes.removed.map((key) => `availability[_key=="${key}"]`)
+    );
+  }
+
+  for (const block of changes.updated) {
+    patch = patch.set({
+      [`availability[_key=="${block.id}"].startDateTime`]:
+        block.start.toISOString(),
+      [`availability[_key=="${block.id}"].endDateTime`]:
+        block.end.toISOString(),
+    });
+  }
+
+  if (changes.added.length > 0) {
+    patch = patch.append(
+      "availability",
+      changes.added.map((block) => ({
+        _key: crypto.randomUUID(),
+        startDateTime: block.start.toISOString(),
+        endDateTime: block.end.toISOString(),
+      }))
+    );
+  }
+
+  try {
+    const document = await patch.commit<{ availability?: SanityBlock[] }>();
+
+    return {
+      status: "saved",
+      revision: document._rev,
+      blocks: toSavedBlocks(document.availability),
+    };
+  } catch (error) {
+    // 409: the revision no longer matches - someone else saved first
+    if (!(error instanceof ClientError) || error.statusCode !== 409) {
+      throw error;
+    }
+
+    const current = await writeClient.fetch(AVAILABILITY_REVISION_QUERY, {
+      documentId,
+    });
+
+    return {
+      status: "conflict",
+      revision: current?._rev ?? "",
+      blocks: toSavedBlocks(current?.availability),
+    };
+  }
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAYS = new Set([
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+]);
+
+// Throws if the timezone is not a valid IANA timezone
+function assertValidTimezone(timezone: string) {
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone: ${timezone}`);
+  }
+}
+
+// The document availability is saved to: one of the host's named
+// schedules, or the host's own default availability
+async function getAvailabilityDocumentId(
+  clerkId: string,
+  scheduleId?: string
+): Promise<string> {
+  if (!scheduleId) {
+    const user = await getOrCreateUser(clerkId);
+    return user._id;
+  }
+
+  const id = await client.fetch(SCHEDULE_ID_FOR_HOST_QUERY, {
+    scheduleId,
+    clerkId,
+  });
+  if (!id) throw new Error("Schedule not found");
+
+  return id;
+}
+
+/**
+ * Update the host's home timezone (used for day boundaries and new hours)
+ */
+export async function updateTimezone(timezone: string): Promise<void> {
   const { userId } = await auth();
   if (!userId) throw new Error("Unauthorized");
 
+  assertValidTimezone(timezone);
+
   const user = await getOrCreateUser(userId);
 
-  // Convert blocks to Sanity format with new keys
-  const sanityBlocks = blocks.map((block) => ({
-    _key: crypto.randomUUID(),
-    startDateTime: block.start.toISOString(),
-    endDateTime: block.end.toISOString(),
+  await writeClient.patch(user._id).set({ timezone }).commit();
+}
+
+/**
+ * Save the recurring weekly availability rules (replaces all rules)
+ * Rules with a "local-" key are new and get a real key assigned.
+ */
+export async function saveAvailabilityRules(
+  rules: AvailabilityRule[],
+  scheduleId?: string
+): Promise<AvailabilityRule[]> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  for (const rule of rules) {
+    if (rule.days.length === 0 || !rule.days.every((d) => WEEKDAYS.has(d))) {
+      throw new Error("Each rule needs at least one valid weekday");
+    }
+    if (
+      !TIME_PATTERN.test(rule.startTime) ||
+      !TIME_PATTERN.test(rule.endTime)
+    ) {
+      throw new Error("Times must be in HH:mm format");
+    }
+    if (rule.endTime <= rule.startTime) {
+      throw new Error("End time must be after start time");
+    }
+    assertValidTimezone(rule.timezone);
+    for (const date of [rule.effectiveFrom, rule.effectiveUntil]) {
+      if (date && !DATE_PATTERN.test(date)) {
+        throw new Error("Effective dates must be in YYYY-MM-DD format");
+      }
+    }
+    if (
+      rule.effectiveFrom &&
+      rule.effectiveUntil &&
+      rule.effectiveUntil < rule.effectiveFrom
+    ) {
+      throw new Error("Effective until must be on or after effective from");
+    }
+  }
+
+  const documentId = await getAvailabilityDocumentId(userId, scheduleId);
+
+  const sanityRules = rules.map((rule) => ({
+    _key: rule._key.startsWith("local-") ? crypto.randomUUID() : rule._key,
+    days: rule.days,
+    startTime: rule.startTime,
+    endTime: rule.endTime,
+    timezone: rule.timezone,
+    effectiveFrom: rule.effectiveFrom || undefined,
+    effectiveUntil: rule.effectiveUntil || undefined,
   }));
 
-  // Replace the entire availability array
   await writeClient
-    .patch(user._id)
-    .set({ availability: sanityBlocks })
+    .patch(documentId)
+    .set({ availabilityRules: sanityRules })
     .commit();
 
-  // Return the blocks with their new IDs
-  return sanityBlocks.map((block) => ({
-    id: block._key,
-    start: block.startDateTime,
-    end: block.endDateTime,
+  return sanityRules.map((rule) => ({
+    ...rule,
+    effectiveFrom: rule.effectiveFrom ?? null,
+    effectiveUntil: rule.effectiveUntil ?? null,
+  }));
+}
+
+/**
+ * Save date-specific overrides (replaces all overrides)
+ * Covers time off, holidays and custom hours for specific dates.
+ */
+export async function saveAvailabilityOverrides(
+  overrides: AvailabilityOverride[],
+  scheduleId?: string
+): Promise<AvailabilityOverride[]> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  for (const override of overrides) {
+    if (override.type !== "unavailable" && override.type !== "custom") {
+      throw new Error("Invalid override type");
+    }
+    if (
+      !DATE_PATTERN.test(override.startDate) ||
+      (override.endDate && !DATE_PATTERN.test(override.endDate))
+    ) {
+      throw new Error("Dates must be in YYYY-MM-DD format");
+    }
+    if (override.endDate && override.endDate < override.startDate) {
+      throw new Error("End date must be on or after start date");
+    }
+    assertValidTimezone(override.timezone);
+
+    if (override.type === "custom") {
+      const hours = override.hours ?? [];
+      if (hours.length === 0) {
+        throw new Error("Custom hours need at least one time range");
+      }
+      for (const range of hours) {
+        if (
+          !TIME_PATTERN.test(range.startTime) ||
+          !TIME_PATTERN.test(range.endTime)
+        ) {
+          throw new Error("Times must be in HH:mm format");
+        }
+        if (range.endTime <= range.startTime) {
+          throw new Error("End time must be after start time");
+        }
+      }
+    }
+  }
+
+  const documentId = await getAvailabilityDocumentId(userId, scheduleId);
+
+  const newKey = (key: string) =>
+    key.startsWith("local-") ? crypto.randomUUID() : key;
+
+  const sanityOverrides = overrides.map((override) => ({
+    _key: newKey(override._key),
+    type: override.type,
+    startDate: override.startDate,
+    endDate: override.endDate || undefined,
+    hours:
+      override.type === "custom"
+        ? (override.hours ?? []).map((range) => ({
+            _key: newKey(range._key),
+            startTime: range.startTime,
+            endTime: range.endTime,
+          }))
+        : undefined,
+    timezone: override.timezone,
+    label: override.label?.trim() || undefined,
+  }));
+
+  await writeClient
+    .patch(documentId)
+    .set({ availabilityOverrides: sanityOverrides })
+    .commit();
+
+  return sanityOverrides.map((override) => ({
+    ...override,
+    endDate: override.endDate ?? null,
+    hours: override.hours ?? null,
+    label: override.label ?? null,
   }));
 }
 
@@ -141,87 +465,6 @@ export async function getOrCreateBookingLink(): Promise<{
   return { slug: uniqueSlug, url: `${baseUrl}/book/${uniqueSlug}` };
 }
 
-/**
- * Get all meeting types for the current user
- */
-export async function getMeetingTypes(): Promise<MeetingTypeForHost[]> {
-  const { userId } = await auth();
-  if (!userId) throw new Error("Unauthorized");
-
-  const { data: meetingTypes } = await sanityFetch({
-    query: MEETING_TYPES_BY_HOST_QUERY,
-    params: { clerkId: userId },
-  });
-
-  return meetingTypes;
-}
-
-type MeetingDuration = 15 | 30 | 45 | 60 | 90;
-
-/**
- * Create a new meeting type for the current user
- */
-export async function createMeetingType(data: {
-  name: string;
-  duration: MeetingDuration;
-  description?: string;
-  isDefault?: boolean;
-}): Promise<MeetingTypeForHost> {
-  const { userId } = await auth();
-  if (!userId) throw new Error("Unauthorized");
-
-  // Get the host's Sanity _id
-  const hostId = await client.fetch(HOST_ID_BY_CLERK_ID_QUERY, {
-    clerkId: userId,
-  });
-
-  if (!hostId) {
-    // Create user first
-    const user = await getOrCreateUser(userId);
-    const slug = generateSlug(data.name);
-
-    const meetingType = await writeClient.create({
-      _type: "meetingType",
-      name: data.name,
-      slug: { _type: "slug", current: slug },
-      duration: data.duration,
-      description: data.description,
-      isDefault: data.isDefault ?? true,
-      host: { _type: "reference", _ref: user._id },
-    });
-
-    return {
-      _id: meetingType._id,
-      name: data.name,
-      slug,
-      duration: data.duration,
-      description: data.description ?? null,
-      isDefault: data.isDefault ?? true,
-    };
-  }
-
-  const slug = generateSlug(data.name);
-
-  const meetingType = await writeClient.create({
-    _type: "meetingType",
-    name: data.name,
-    slug: { _type: "slug", current: slug },
-    duration: data.duration,
-    description: data.description,
-    isDefault: data.isDefault ?? true,
-    host: { _type: "reference", _ref: hostId },
-  });
-
-  return {
-    _id: meetingType._id,
-    name: data.name,
-    slug,
-    duration: data.duration,
-    description: data.description ?? null,
-    isDefault: data.isDefault ?? true,
-  };
-}
-
 /**
  * Get or create the user's booking link with meeting type
  */
@@ -242,6 +485,7 @@ export async function getBookingLinkWithMeetingType(
 
 const COUNT_USER_BOOKINGS_QUERY = defineQuery(`count(*[
   _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
   && host->clerkId == $clerkId
   && startTime >= $monthStart
   && startTime < $monthEnd
@@ -1,45 +1,147 @@
 "use server";
 
-import { writeClient } from "@/sanity/lib/writeClient";
-import { client } from "@/sanity/lib/client";
 import {
-  HOST_BY_SLUG_WITH_TOKENS_QUERY,
-  type HostWithTokens,
-} from "@/sanity/queries/users";
-import { BOOKINGS_IN_RANGE_QUERY } from "@/sanity/queries/bookings";
-import { MEETING_TYPE_BY_SLUGS_QUERY } from "@/sanity/queries/meetingTypes";
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  parseISO,
+  subDays,
+} from "date-fns";
+import {
+  type BusyTime,
+  getBookableRange,
+  getSeatedMeetings,
+  getSeatKey,
+  getWeekBoundsInTimeZone,
+  type HostAvailability,
+  hasSlotConflict,
+  intersectAvailability,
+  isBookableStart,
+  isBookingCapReached,
+  isWithinAvailability,
+  overlapsWithBuffer,
+  type PoolMemberSlotInput,
+  type SlotOptions,
+  toHostAvailability,
+} from "@/lib/availability";
 import {
+  describeBookingLinkStatus,
+  getBookingLinkStatus,
+} from "@/lib/booking-links";
+import {
+  createManageToken,
+  describeUnchangeableBooking,
+  getCancelBookingPath,
+  getRescheduleBookingPath,
+  isBookingChangeable,
+} from "@/lib/booking-management";
+import { getCancellationFields } from "@/lib/booking-status";
+import { getDurationChoices } from "@/lib/durations";
+import { getHostBookingQuotaStatus } from "@/lib/features";
+import {
+  addEventAttendee,
+  fetchAvailabilityWindows,
+  fetchCalendarEvents,
   getCalendarClient,
   getEventAttendeeStatus,
-  fetchCalendarEvents,
+  releaseBookingEvent,
+  removeEventAttendee,
 } from "@/lib/google-calendar";
-import { getHostBookingQuotaStatus } from "@/lib/features";
 import {
-  startOfDay,
-  endOfDay,
-  addMinutes,
-  isWithinInterval,
-  parseISO,
-} from "date-fns";
-import { computeAvailableDates } from "@/lib/availability";
+  formatIntakeAnswers,
+  type IntakeAnswer,
+  type IntakeAnswerValues,
+  isValidPhone,
+  resolveIntakeQuestions,
+  validateIntakeAnswers,
+} from "@/lib/intake-questions";
+import {
+  type BookingLocation,
+  createJitsiRoomUrl,
+  describeBookingLocation,
+  type MeetingLocation,
+  resolveMeetingLocation,
+} from "@/lib/locations";
+import {
+  hasBookableHosts,
+  type RoundRobinStrategy,
+  rankRoundRobinHosts,
+  resolveRoundRobinStrategy,
+  resolveSchedulingType,
+} from "@/lib/scheduling";
+import { getBaseUrl } from "@/lib/url";
+import { client } from "@/sanity/lib/client";
+import { writeClient } from "@/sanity/lib/writeClient";
+import {
+  BOOKING_LINK_BY_TOKEN_QUERY,
+  type BookingLinkByToken,
+} from "@/sanity/queries/bookingLinks";
+import {
+  BOOKING_BY_MANAGE_TOKEN_QUERY,
+  BOOKINGS_ATTENDED_BY_HOST_QUERY,
+  BOOKINGS_ATTENDED_BY_HOSTS_QUERY,
+  BOOKINGS_IN_RANGE_QUERY,
+  GROUP_MEETING_BOOKING_QUERY,
+  OTHER_BOOKINGS_ON_EVENT_COUNT_QUERY,
+  ROUND_ROBIN_HISTORY_QUERY,
+} from "@/sanity/queries/bookings";
+import {
+  MEETING_TYPE_BY_SLUGS_QUERY,
+  type MeetingTypeBySlugs,
+  type MeetingTypeCoHosts,
+  type MeetingTypeRoundRobinHosts,
+  type MeetingTypeSchedule,
+} from "@/sanity/queries/meetingTypes";
+import {
+  type ConnectedAccountWithTokens,
+  HOST_BY_SLUG_WITH_TOKENS_QUERY,
+  type HostWithTokens,
+} from "@/sanity/queries/users";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type TimeSlot = {
-  start: Date;
-  end: Date;
-};
-
 export type BookingData = {
   hostSlug: string;
   meetingTypeSlug?: string;
   startTime: Date;
   endTime: Date;
+  /** Minutes picked by the guest (defaults to the meeting type's duration) */
+  duration?: number;
   guestName: string;
   guestEmail: string;
+  /** Number the host calls, for meeting types held as phone calls to guests */
+  guestPhone?: string;
   notes?: string;
+  /** Answers to the meeting type's intake questions, by question _key */
+  answers?: IntakeAnswerValues;
+  /** Token of the one-off booking link the guest came from */
+  linkToken?: string;
+};
+
+// A booking being moved to another time, which mustn't block its new slot
+type BookingToMove = {
+  _id: string;
+  googleEventId: string | null;
+};
+
+// What goes on a booking's Google Calendar event
+type CalendarEventDetails = {
+  meetingTypeName?: string;
+  hostName: string | null;
+  /** The host, then any co-hosts */
+  hostEmails: Array<string | null>;
+  guestName: string;
+  guestEmail: string;
+  notes?: string;
+  answers: IntakeAnswer[];
+  location: BookingLocation;
+  startTime: Date;
+  endTime: Date;
+  /** Group meetings are shared by every guest booked into the slot */
+  isGroup: boolean;
+  manageToken: string;
 };
 
 // ============================================================================
@@ -47,264 +149,863 @@ export type BookingData = {
 // ============================================================================
 
 /**
- * Get available time slots for a host on a specific date
+ * Create a booking
  */
-export async function getAvailableSlots(
-  hostSlug: string,
-  date: Date,
-  slotDurationMinutes = 30
-): Promise<TimeSlot[]> {
-  // 1. Get host with availability and connected accounts
-  const host = await client.fetch(HOST_BY_SLUG_WITH_TOKENS_QUERY, {
-    slug: hostSlug,
+export async function createBooking(data: BookingData): Promise<{
+  _id: string;
+  hostName: string | null;
+  location: BookingLocation;
+  /** Secret for the guest's reschedule and cancel links */
+  manageToken: string;
+}> {
+  // 1. Get the host (round-robin bookings go to a host from the pool instead)
+  let host = await client.fetch(HOST_BY_SLUG_WITH_TOKENS_QUERY, {
+    slug: data.hostSlug,
   });
 
   if (!host) {
     throw new Error("Host not found");
   }
 
-  const dayStart = startOfDay(date);
-  const dayEnd = endOfDay(date);
+  // 2. Get the meeting type if provided
+  let meetingTypeId: string | undefined;
+  let meetingTypeName: string | undefined;
+  let duration =
+    data.duration ?? differenceInMinutes(data.endTime, data.startTime);
+  let answers: IntakeAnswer[] = [];
+  let location: MeetingLocation = resolveMeetingLocation(null);
+  let schedule: MeetingTypeSchedule = null;
+  let coHosts: NonNullable<MeetingTypeCoHosts> = [];
+  let roundRobinHosts: NonNullable<MeetingTypeRoundRobinHosts> = [];
+  let roundRobinStrategy: RoundRobinStrategy = "leastRecentlyBooked";
+  let bookingLink: BookingLinkByToken = null;
+  let slotOptions = getSlotOptions(host, null);
 
-  // 2. Get host's availability blocks for this date
-  const availabilityForDate = (host.availability ?? []).filter((slot) => {
-    const slotStart = parseISO(slot.startDateTime);
-    const slotEnd = parseISO(slot.endDateTime);
+  if (data.meetingTypeSlug) {
+    const meetingType = await client.fetch(MEETING_TYPE_BY_SLUGS_QUERY, {
+      hostSlug: data.hostSlug,
+      meetingTypeSlug: data.meetingTypeSlug,
+    });
 
-    // Check if the slot overlaps with the requested date
-    return (
-      isWithinInterval(slotStart, { start: dayStart, end: dayEnd }) ||
-      isWithinInterval(slotEnd, { start: dayStart, end: dayEnd }) ||
-      (slotStart <= dayStart && slotEnd >= dayEnd)
+    // Archived and deleted meeting types can't be booked
+    if (!meetingType) {
+      throw new Error("Meeting type not found");
+    }
+    // Nor can meeting types still waiting on their hosts
+    if (!hasBookableHosts(meetingType)) {
+      throw new Error("This meeting type isn't taking bookings yet");
+    }
+
+    // Only the durations the meeting type offers can be booked
+    const defaultDuration = meetingType.duration ?? 30;
+    duration = data.duration ?? defaultDuration;
+    if (
+      !getDurationChoices(
+        defaultDuration,
+        meetingType.durationOptions
+      ).includes(duration)
+    ) {
+      throw new Error("This duration isn't offered for this meeting type");
+    }
+
+    // Required questions must be answered, and answers must fit the question
+    answers = validateIntakeAnswers(
+      resolveIntakeQuestions(meetingType.questions),
+      data.answers ?? {}
     );
-  });
 
-  if (availabilityForDate.length === 0) {
-    return [];
+    location = resolveMeetingLocation(meetingType.location);
+    if (
+      location.type === "guestPhone" &&
+      !isValidPhone(data.guestPhone ?? "")
+    ) {
+      throw new Error("Please enter a phone number the host can call");
+    }
+
+    meetingTypeId = meetingType._id;
+    meetingTypeName = meetingType.name ?? undefined;
+    schedule = meetingType.schedule;
+    const schedulingType = resolveSchedulingType(meetingType.schedulingType);
+    if (schedulingType === "collective") {
+      coHosts = meetingType.coHosts ?? [];
+    } else if (schedulingType === "roundRobin") {
+      roundRobinHosts = meetingType.roundRobinHosts ?? [];
+      roundRobinStrategy = resolveRoundRobinStrategy(
+        meetingType.roundRobinStrategy
+      );
+    }
+    slotOptions = getSlotOptions(host, meetingType);
   }
 
-  // 3. Get existing bookings for this date
-  const existingBookings = await client.fetch(BOOKINGS_IN_RANGE_QUERY, {
-    hostId: host._id,
-    startDate: dayStart.toISOString(),
-    endDate: dayEnd.toISOString(),
-  });
+  // 3. Check if host has exceeded their monthly booking quota (round-robin
+  //    bookings count against the pool member they go to, so members over
+  //    their quota are passed over instead, and never go to the owner)
+  if (roundRobinHosts.length === 0) {
+    const quotaStatus = await getHostBookingQuotaStatus(data.hostSlug);
+    if (quotaStatus.isExceeded) {
+      throw new Error("Host has reached their monthly booking limit");
+    }
+  }
 
-  // 4. Get attendee statuses for bookings (to exclude declined ones)
-  const defaultAccount = host.connectedAccounts?.find((a) => a.isDefault);
-  const declinedBookingIds = new Set<string>();
+  // One-off links must still be usable (read without the CDN, so a link
+  // that was just used isn't accepted again)
+  if (data.linkToken) {
+    if (!data.meetingTypeSlug) {
+      throw new Error(describeBookingLinkStatus("invalid"));
+    }
+    bookingLink = await writeClient.fetch(BOOKING_LINK_BY_TOKEN_QUERY, {
+      linkToken: data.linkToken,
+      hostSlug: data.hostSlug,
+      meetingTypeSlug: data.meetingTypeSlug,
+    });
+    const linkStatus = getBookingLinkStatus(bookingLink);
+    if (linkStatus !== "valid") {
+      throw new Error(describeBookingLinkStatus(linkStatus));
+    }
+  }
 
-  if (defaultAccount?.accessToken && defaultAccount?.refreshToken) {
-    // Check attendee status for each booking with a Google event
-    await Promise.all(
-      existingBookings
-        .filter((b) => b.googleEventId && b.guestEmail)
-        .map(async (booking) => {
-          // Skip if no googleEventId (satisfies type checker even though filter guarantees it)
-          if (!booking.googleEventId) return;
+  if (differenceInMinutes(data.endTime, data.startTime) !== duration) {
+    throw new Error("The booking times don't match the meeting duration");
+  }
 
-          try {
-            const status = await getEventAttendeeStatus(
-              defaultAccount,
-              booking.googleEventId,
-              booking.guestEmail
-            );
-            if (status === "declined") {
-              declinedBookingIds.add(booking._id);
-            }
-          } catch {
-            // If we can't check status, assume booking is still valid
-          }
-        })
+  if (roundRobinHosts.length > 0) {
+    // 4. Enforce minimum notice and booking horizon
+    assertBookableStart(
+      data.startTime,
+      slotOptions,
+      toHostAvailability(schedule ?? host).timezone
+    );
+
+    // 5–7. Give the booking to the first host in line who is free
+    const assigned = await assignRoundRobinHost(
+      roundRobinHosts,
+      roundRobinStrategy,
+      meetingTypeId ?? "",
+      data.startTime,
+      data.endTime,
+      slotOptions
+    );
+    if (!assigned) {
+      throw new Error("This time slot is no longer available");
+    }
+    host = assigned;
+  } else {
+    // 4–7. Check the schedule, booking horizon, caps, bookings and calendars
+    await assertSlotBookable(
+      host,
+      coHosts,
+      schedule,
+      slotOptions,
+      data.startTime,
+      data.endTime
     );
   }
 
-  // Filter out declined bookings - those slots are available again
-  const activeBookings = existingBookings.filter(
-    (b) => !declinedBookingIds.has(b._id)
-  );
+  // 8. Guests of a group meeting type join the meeting already booked in
+  //    this slot, if there is one (read without the CDN, so a guest who
+  //    just booked is found)
+  const groupMeeting = slotOptions.seats
+    ? await writeClient.fetch(GROUP_MEETING_BOOKING_QUERY, {
+        hostId: host._id,
+        meetingTypeId: slotOptions.seats.meetingTypeId,
+        startTime: data.startTime.toISOString(),
+        endTime: data.endTime.toISOString(),
+      })
+    : null;
 
-  // 5. Get Google Calendar busy times
-  const busyTimes = await getGoogleBusyTimes(
-    host.connectedAccounts,
-    dayStart,
-    dayEnd
-  );
+  // 9. Work out where this meeting takes place (Google Meet links are only
+  //    known once the calendar event is created). Group meetings share one
+  //    place, except for phone calls to each guest.
+  const bookingLocation: BookingLocation =
+    groupMeeting?.location?.type && location.type !== "guestPhone"
+      ? {
+          type: groupMeeting.location.type,
+          value: groupMeeting.location.value ?? "",
+        }
+      : getBookingLocation(location, data.guestPhone);
 
-  // 6. Generate time slots from availability
-  const allSlots: TimeSlot[] = [];
+  // 10. Find the default connected account for creating calendar events
+  const defaultAccount = host.connectedAccounts?.find((a) => a.isDefault);
 
-  for (const availSlot of availabilityForDate) {
-    const availStart = parseISO(availSlot.startDateTime);
-    const availEnd = parseISO(availSlot.endDateTime);
+  let googleEventId: string | undefined;
+  let meetLink: string | undefined;
+  const joinsEvent = !!groupMeeting?.googleEventId;
 
-    // Clamp to the requested date
-    const slotStart = availStart < dayStart ? dayStart : availStart;
-    const slotEnd = availEnd > dayEnd ? dayEnd : availEnd;
+  // Secret for the guest's reschedule and cancel links
+  const manageToken = createManageToken();
 
-    // Generate slots
-    let currentStart = slotStart;
-    while (addMinutes(currentStart, slotDurationMinutes) <= slotEnd) {
-      const currentEnd = addMinutes(currentStart, slotDurationMinutes);
-      allSlots.push({ start: currentStart, end: currentEnd });
-      currentStart = currentEnd;
+  // 11. Add the guest to the group meeting's Google Calendar event, or create
+  //     an event if we have a connected account
+  if (
+    groupMeeting?.googleEventId &&
+    defaultAccount?.accessToken &&
+    defaultAccount?.refreshToken
+  ) {
+    try {
+      await addEventAttendee(
+        defaultAccount,
+        groupMeeting.googleEventId,
+        data.guestEmail
+      );
+      googleEventId = groupMeeting.googleEventId;
+      meetLink = groupMeeting.meetLink ?? undefined;
+    } catch (error) {
+      console.error("Failed to add guest to Google Calendar event:", error);
+      // Continue without calendar event - booking still valid
+    }
+  } else if (defaultAccount?.accessToken && defaultAccount?.refreshToken) {
+    try {
+      const event = await insertCalendarEvent(defaultAccount, {
+        meetingTypeName,
+        hostName: host.name,
+        hostEmails: [host.email, ...coHosts.map((coHost) => coHost.email)],
+        guestName: data.guestName,
+        guestEmail: data.guestEmail,
+        notes: data.notes,
+        answers,
+        location: bookingLocation,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        isGroup: !!slotOptions.seats,
+        manageToken,
+      });
+      googleEventId = event.googleEventId;
+      meetLink = event.meetLink;
+      if (bookingLocation.type === "googleMeet" && meetLink) {
+        bookingLocation.value = meetLink;
+      }
+    } catch (error) {
+      console.error("Failed to create Google Calendar event:", error);
+      // Continue without calendar event - booking still valid
     }
   }
 
-  // 7. Filter out slots that overlap with active bookings or busy times
-  const availableSlots = allSlots.filter((slot) => {
-    // Check against active bookings (excluding declined ones)
-    const hasBookingConflict = activeBookings.some((booking) => {
-      const bookingStart = parseISO(booking.startTime);
-      const bookingEnd = parseISO(booking.endTime);
-      return slot.start < bookingEnd && slot.end > bookingStart;
-    });
+  // 12. Create booking in Sanity. A single-use link is marked used in the
+  //     same transaction, which fails if someone else booked with it first.
+  const bookingId = crypto.randomUUID();
+  const transaction = writeClient.transaction().create({
+    _id: bookingId,
+    _type: "booking",
+    host: { _type: "reference", _ref: host._id },
+    ...(coHosts.length > 0 && {
+      coHosts: coHosts.map((coHost) => ({
+        _type: "reference",
+        _ref: coHost._id,
+        _key: coHost._id,
+      })),
+    }),
+    ...(meetingTypeId && {
+      meetingType: { _type: "reference", _ref: meetingTypeId },
+    }),
+    guestName: data.guestName,
+    guestEmail: data.guestEmail,
+    startTime: data.startTime.toISOString(),
+    endTime: data.endTime.toISOString(),
+    duration,
+    googleEventId,
+    meetLink,
+    manageToken,
+    location: bookingLocation,
+    status: "confirmed",
+    notes: data.notes,
+    ...(answers.length > 0 && {
+      answers: answers.map((answer) => ({ _type: "intakeAnswer", ...answer })),
+    }),
+  });
 
-    if (hasBookingConflict) return false;
+  if (bookingLink && bookingLink.singleUse !== false) {
+    transaction.patch(bookingLink._id, (patch) =>
+      patch.ifRevisionId(bookingLink._rev).set({
+        usedAt: new Date().toISOString(),
+        booking: { _type: "reference", _ref: bookingId, _weak: true },
+      })
+    );
+  }
 
-    // Check against Google Calendar busy times
-    const hasBusyConflict = busyTimes.some((busy) => {
-      return slot.start < busy.end && slot.end > busy.start;
-    });
+  try {
+    await transaction.commit();
+  } catch (error) {
+    if (!bookingLink) throw error;
 
-    return !hasBusyConflict;
-  });
+    // Don't leave an invite behind for a booking that wasn't made
+    if (googleEventId && defaultAccount) {
+      try {
+        if (joinsEvent) {
+          await removeEventAttendee(
+            defaultAccount,
+            googleEventId,
+            data.guestEmail
+          );
+        } else {
+          const calendar = await getCalendarClient(defaultAccount);
+          await calendar.events.delete({
+            calendarId: "primary",
+            eventId: googleEventId,
+            sendUpdates: "all",
+          });
+        }
+      } catch (deleteError) {
+        console.error("Failed to delete Google Calendar event:", deleteError);
+      }
+    }
+    throw new Error(describeBookingLinkStatus("used"));
+  }
 
-  return availableSlots;
+  return {
+    _id: bookingId,
+    hostName: host.name,
+    location: bookingLocation,
+    manageToken,
+  };
 }
 
 /**
- * Get dates with available slots within a date range (for calendar highlighting)
- * Used for client-side month navigation when user navigates beyond initial data.
- * Returns an array of date strings (YYYY-MM-DD) that have at least one available slot.
+ * Move a booking to another time, from the guest's reschedule link. The slot
+ * is checked like a new booking (the booking itself aside), and the guest's
+ * Google Calendar event is moved rather than replaced.
  */
-export async function getAvailableDates(
-  hostSlug: string,
-  startDate: Date,
-  endDate: Date,
-  slotDurationMinutes = 30
-): Promise<string[]> {
-  // 1. Get host with availability
-  const host = await client.fetch(HOST_BY_SLUG_WITH_TOKENS_QUERY, {
-    slug: hostSlug,
+export async function rescheduleBooking(
+  manageToken: string,
+  startTime: Date,
+  endTime: Date
+): Promise<{
+  hostName: string | null;
+  guestEmail: string;
+  location: BookingLocation | null;
+}> {
+  // 1. Get the booking (read without the CDN, so a cancelled or just moved
+  //    booking is seen as it is now)
+  const booking = await writeClient.fetch(BOOKING_BY_MANAGE_TOKEN_QUERY, {
+    manageToken,
   });
+  if (!booking || !isBookingChangeable(booking.startTime)) {
+    throw new Error(describeUnchangeableBooking(booking));
+  }
+  // Without a booking page there are no free times to move to
+  if (!booking.host?.slug) {
+    throw new Error(
+      "The host no longer takes bookings, so this meeting can't be moved. You can still cancel it."
+    );
+  }
 
+  // 2. Get the host and the meeting type (archived meeting types can't be
+  //    booked any more, so their bookings can only be cancelled)
+  const [host, meetingType] = await Promise.all([
+    client.fetch(HOST_BY_SLUG_WITH_TOKENS_QUERY, { slug: booking.host.slug }),
+    booking.meetingTypeSlug && booking.meetingTypeHostSlug
+      ? client.fetch(MEETING_TYPE_BY_SLUGS_QUERY, {
+          hostSlug: booking.meetingTypeHostSlug,
+          meetingTypeSlug: booking.meetingTypeSlug,
+        })
+      : null,
+  ]);
   if (!host) {
-    return [];
+    throw new Error("Host not found");
+  }
+  if (
+    booking.meetingTypeId &&
+    (!meetingType || !hasBookableHosts(meetingType))
+  ) {
+    throw new Error(
+      "This meeting type can no longer be booked. You can still cancel your booking."
+    );
   }
 
-  // 2. Get existing bookings in range
-  const existingBookings = await client.fetch(BOOKINGS_IN_RANGE_QUERY, {
-    hostId: host._id,
-    startDate: startDate.toISOString(),
-    endDate: endDate.toISOString(),
-  });
+  // 3. The meeting keeps its length
+  const duration =
+    booking.duration ??
+    differenceInMinutes(parseISO(booking.endTime), parseISO(booking.startTime));
+  if (differenceInMinutes(endTime, startTime) !== duration) {
+    throw new Error("The booking times don't match the meeting duration");
+  }
+  if (startTime.getTime() === parseISO(booking.startTime).getTime()) {
+    throw new Error("Your meeting is already at this time");
+  }
 
-  // 3. Get Google Calendar busy times (if available)
-  let busyTimes: Array<{ start: Date; end: Date }> = [];
-  try {
-    busyTimes = await getGoogleBusyTimes(
-      host.connectedAccounts,
-      startDate,
-      endDate
+  // 4. Check the new slot like a new booking, with the host the meeting
+  //    already has (round-robin meetings stay with their assigned host)
+  const slotOptions = getSlotOptions(host, meetingType);
+  const schedulingType = resolveSchedulingType(meetingType?.schedulingType);
+  const coHosts =
+    schedulingType === "collective" ? (meetingType?.coHosts ?? []) : [];
+  const moving: BookingToMove = {
+    _id: booking._id,
+    googleEventId: booking.googleEventId,
+  };
+  await assertSlotBookable(
+    host,
+    coHosts,
+    schedulingType === "roundRobin" ? null : (meetingType?.schedule ?? null),
+    slotOptions,
+    startTime,
+    endTime,
+    moving
+  );
+
+  // 5. Guests of a group meeting type join the meeting already booked in
+  //    the new slot, if there is one
+  const groupMeeting = slotOptions.seats
+    ? await writeClient.fetch(GROUP_MEETING_BOOKING_QUERY, {
+        hostId: host._id,
+        meetingTypeId: slotOptions.seats.meetingTypeId,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+      })
+    : null;
+
+  // The booking as stored, copied to the new time in step 7
+  const original = await writeClient.getDocument(booking._id);
+  if (!original) {
+    throw new Error(describeUnchangeableBooking(null));
+  }
+
+  // 6. Work out what happens to the guest's Google Calendar event. It's
+  //    moved unless other guests share it: then the guest leaves it for the
+  //    group meeting at the new time, or for an event of their own.
+  const account = booking.host.connectedAccounts;
+  const hasCalendar = !!account?.accessToken && !!account.refreshToken;
+  const sharesEvent =
+    hasCalendar &&
+    !!booking.googleEventId &&
+    (await writeClient.fetch(OTHER_BOOKINGS_ON_EVENT_COUNT_QUERY, {
+      googleEventId: booking.googleEventId,
+      bookingId: booking._id,
+    })) > 0;
+  const leavesEvent =
+    hasCalendar && (!booking.googleEventId || !!groupMeeting || sharesEvent);
+
+  let googleEventId = booking.googleEventId;
+  let meetLink = booking.meetLink;
+  let location: BookingLocation | null = booking.location?.type
+    ? { type: booking.location.type, value: booking.location.value ?? "" }
+    : null;
+  const meetingLocation = resolveMeetingLocation(meetingType?.location);
+  if (leavesEvent && groupMeeting?.googleEventId) {
+    googleEventId = groupMeeting.googleEventId;
+    meetLink = groupMeeting.meetLink;
+    if (groupMeeting.location?.type && meetingLocation.type !== "guestPhone") {
+      location = {
+        type: groupMeeting.location.type,
+        value: groupMeeting.location.value ?? "",
+      };
+    }
+  } else if (leavesEvent) {
+    // The new event (and its Meet link) is added once the booking is moved
+    googleEventId = null;
+    meetLink = null;
+    location = getBookingLocation(
+      meetingLocation,
+      location?.type === "guestPhone" ? location.value : undefined
     );
-  } catch {
-    // Continue without busy times if fetch fails
   }
 
-  // 4. Compute available dates using shared utility
-  return computeAvailableDates(
-    host.availability ?? [],
-    existingBookings,
-    startDate,
-    endDate,
-    slotDurationMinutes,
-    busyTimes
-  );
+  // 7. Book the new time as a copy of the booking and keep the old one as
+  //    rescheduled, so the move stays in the booking's history. The guest's
+  //    links move to the new booking. This happens before the calendar is
+  //    changed, so a failed move (say the guest moved it in another tab
+  //    meanwhile) leaves the guest's event as it was.
+  const {
+    _id,
+    _rev,
+    _createdAt,
+    _updatedAt,
+    googleEventId: _googleEventId,
+    meetLink: _meetLink,
+    ...fields
+  } = original;
+  const newBookingId = crypto.randomUUID();
+  await writeClient
+    .transaction()
+    .create({
+      ...fields,
+      _id: newBookingId,
+      _type: "booking",
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      ...(googleEventId && { googleEventId }),
+      ...(meetLink && { meetLink }),
+      ...(location && { location }),
+      status: "confirmed",
+      statusChangedAt: new Date().toISOString(),
+      rescheduledFrom: { _type: "reference", _ref: _id, _weak: true },
+    })
+    .patch(_id, (patch) =>
+      patch
+        .ifRevisionId(_rev)
+        .set({
+          status: "rescheduled",
+          statusChangedAt: new Date().toISOString(),
+          rescheduledTo: {
+            _type: "reference",
+            _ref: newBookingId,
+            _weak: true,
+          },
+        })
+        .unset(["manageToken"])
+    )
+    .commit();
+
+  // 8. Move the guest's Google Calendar event, or take them off it and add
+  //    them to the group meeting or a new event of their own
+  if (account?.accessToken && account.refreshToken) {
+    try {
+      if (!leavesEvent && booking.googleEventId) {
+        const calendar = await getCalendarClient(account);
+        await calendar.events.patch({
+          calendarId: "primary",
+          eventId: booking.googleEventId,
+          sendUpdates: "all", // Sends the new time to attendees
+          requestBody: {
+            start: { dateTime: startTime.toISOString() },
+            end: { dateTime: endTime.toISOString() },
+          },
+        });
+      } else {
+        if (booking.googleEventId) {
+          await releaseBookingEvent(
+            account,
+            booking._id,
+            booking.googleEventId,
+            booking.guestEmail
+          );
+        }
+
+        if (groupMeeting?.googleEventId) {
+          await addEventAttendee(
+            account,
+            groupMeeting.googleEventId,
+            booking.guestEmail
+          );
+        } else if (location) {
+          const event = await insertCalendarEvent(account, {
+            meetingTypeName: booking.meetingTypeName ?? undefined,
+            hostName: host.name,
+            hostEmails: [host.email, ...coHosts.map((coHost) => coHost.email)],
+            guestName: booking.guestName,
+            guestEmail: booking.guestEmail,
+            notes: original.notes,
+            answers: (original.answers ?? []) as IntakeAnswer[],
+            location,
+            startTime,
+            endTime,
+            isGroup: !!slotOptions.seats,
+            manageToken,
+          });
+          meetLink = event.meetLink ?? null;
+          if (location.type === "googleMeet" && meetLink) {
+            location.value = meetLink;
+          }
+          await writeClient
+            .patch(newBookingId)
+            .set({
+              ...(event.googleEventId && {
+                googleEventId: event.googleEventId,
+              }),
+              ...(meetLink && { meetLink }),
+              location,
+            })
+            .commit();
+        }
+      }
+    } catch (error) {
+      console.error("Failed to move Google Calendar event:", error);
+      // Continue without calendar changes - the booking has moved
+    }
+  }
+
+  return { hostName: host.name, guestEmail: booking.guestEmail, location };
 }
 
 /**
- * Create a booking
+ * Cancel a booking from the guest's cancel link. The host gets Google
+ * Calendar's cancellation email, with the guest's reason if they gave one.
  */
-export async function createBooking(
-  data: BookingData
-): Promise<{ _id: string }> {
-  // 1. Get the host
-  const host = await client.fetch(HOST_BY_SLUG_WITH_TOKENS_QUERY, {
-    slug: data.hostSlug,
+export async function cancelBookingAsGuest(
+  manageToken: string,
+  reason?: string
+): Promise<void> {
+  const booking = await writeClient.fetch(BOOKING_BY_MANAGE_TOKEN_QUERY, {
+    manageToken,
   });
+  if (!booking || !isBookingChangeable(booking.startTime)) {
+    throw new Error(describeUnchangeableBooking(booking));
+  }
 
-  if (!host) {
-    throw new Error("Host not found");
+  const account = booking.host?.connectedAccounts;
+  if (booking.googleEventId && account?.accessToken && account.refreshToken) {
+    const note = reason?.trim()
+      ? `Cancelled by ${booking.guestName}: ${reason.trim()}`
+      : `Cancelled by ${booking.guestName}`;
+    try {
+      await releaseBookingEvent(
+        account,
+        booking._id,
+        booking.googleEventId,
+        booking.guestEmail,
+        note
+      );
+    } catch (error) {
+      console.error("Failed to cancel Google Calendar event:", error);
+      // Continue with cancellation even if Google Calendar fails
+    }
   }
 
-  // 2. Check if host has exceeded their monthly booking quota
-  const quotaStatus = await getHostBookingQuotaStatus(data.hostSlug);
-  if (quotaStatus.isExceeded) {
-    throw new Error("Host has reached their monthly booking limit");
+  // Keep the booking, so its history isn't lost
+  await writeClient
+    .patch(booking._id)
+    .set(getCancellationFields("cancelled", "guest", reason))
+    .commit();
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Where a booking takes place, from its meeting type's location setting.
+ * Jitsi bookings each get their own room.
+ */
+function getBookingLocation(
+  location: MeetingLocation,
+  guestPhone: string | undefined
+): BookingLocation {
+  switch (location.type) {
+    case "inPerson":
+      return { type: location.type, value: location.address ?? "" };
+    case "hostPhone":
+      return { type: location.type, value: location.phone ?? "" };
+    case "guestPhone":
+      return { type: location.type, value: guestPhone?.trim() ?? "" };
+    case "customVideo":
+      return { type: location.type, value: location.url ?? "" };
+    case "jitsi":
+      return {
+        type: location.type,
+        value: createJitsiRoomUrl(location.jitsiDomain),
+      };
+    default:
+      return { type: "googleMeet", value: "" };
   }
+}
 
-  // 3. Get the meeting type if provided
-  let meetingTypeId: string | undefined;
-  let meetingTypeName: string | undefined;
+/**
+ * Booking rules of a meeting type (or the host's defaults without one), for
+ * checking slots
+ */
+function getSlotOptions(
+  host: HostWithTokens,
+  meetingType: MeetingTypeBySlugs | null
+): SlotOptions {
+  const hostCaps = {
+    perDay: host.maxBookingsPerDay,
+    perWeek: host.maxBookingsPerWeek,
+  };
+  if (!meetingType) return { hostCaps };
 
-  if (data.meetingTypeSlug) {
-    const meetingType = await client.fetch(MEETING_TYPE_BY_SLUGS_QUERY, {
-      hostSlug: data.hostSlug,
-      meetingTypeSlug: data.meetingTypeSlug,
-    });
+  return {
+    hostCaps,
+    bufferBefore: meetingType.bufferBefore ?? 0,
+    bufferAfter: meetingType.bufferAfter ?? 0,
+    slotInterval: meetingType.slotInterval,
+    minimumNotice: meetingType.minimumNotice,
+    bookingWindow: meetingType.bookingWindow,
+    meetingTypeCaps: {
+      meetingTypeId: meetingType._id,
+      perDay: meetingType.maxBookingsPerDay,
+      perWeek: meetingType.maxBookingsPerWeek,
+    },
+    seats:
+      (meetingType.seats ?? 1) > 1
+        ? { meetingTypeId: meetingType._id, capacity: meetingType.seats ?? 1 }
+        : null,
+  };
+}
 
-    if (meetingType) {
-      meetingTypeId = meetingType._id;
-      meetingTypeName = meetingType.name ?? undefined;
-    }
+/**
+ * Enforce minimum notice and booking horizon
+ */
+function assertBookableStart(
+  startTime: Date,
+  slotOptions: SlotOptions,
+  timezone: string
+): void {
+  const { earliest, latest } = getBookableRange(
+    slotOptions,
+    new Date(),
+    timezone
+  );
+  if (!isBookableStart(startTime, earliest, latest)) {
+    throw new Error(
+      startTime < earliest
+        ? "This time slot is too soon to book"
+        : "This time slot is too far in advance to book"
+    );
+  }
+}
+
+/**
+ * Check that the host (and co-hosts) can take a meeting at this time: it
+ * must be bookable this far ahead, inside the schedule's available hours,
+ * within the booking caps and clear of bookings and calendar events. A
+ * booking being moved doesn't get in its own way.
+ */
+async function assertSlotBookable(
+  host: HostWithTokens,
+  coHosts: NonNullable<MeetingTypeCoHosts>,
+  schedule: MeetingTypeSchedule,
+  slotOptions: SlotOptions,
+  startTime: Date,
+  endTime: Date,
+  moving?: BookingToMove
+): Promise<void> {
+  // The meeting type's schedule, or the host's own availability (including
+  // their availability calendar, if they use one)
+  const hostAvailability = schedule
+    ? toHostAvailability(schedule)
+    : await applyAvailabilityCalendar(
+        host,
+        toHostAvailability(host),
+        startTime,
+        endTime
+      );
+  const { timezone } = hostAvailability;
+
+  // Co-hosts must be free as well (looking a day either side, so buffers and
+  // meetings that started the day before are covered). Their copies of the
+  // moved booking's event don't count.
+  const coHostSchedule = await applyCoHosts(
+    host._id,
+    coHosts,
+    hostAvailability,
+    subDays(startTime, 1),
+    addDays(endTime, 1)
+  );
+  const { availability } = coHostSchedule;
+  const coHostBusyTimes = coHostSchedule.busyTimes.filter(
+    (busy) => !moving?.googleEventId || busy.eventId !== moving.googleEventId
+  );
+
+  // Enforce minimum notice and booking horizon
+  assertBookableStart(startTime, slotOptions, timezone);
+
+  // Verify the slot is inside the schedule's available hours
+  if (!isWithinAvailability(availability, startTime, endTime)) {
+    throw new Error("This time slot is not available");
   }
 
-  // 4. Verify slot is still available (prevent race conditions)
+  // Enforce daily and weekly booking caps (in the schedule's timezone).
+  // Joining a group meeting that's already booked doesn't add a meeting.
+  const week = getWeekBoundsInTimeZone(startTime, timezone);
+  const weekBookings = (
+    await client.fetch(BOOKINGS_IN_RANGE_QUERY, {
+      hostId: host._id,
+      startDate: week.start.toISOString(),
+      endDate: week.end.toISOString(),
+    })
+  ).filter((booking) => booking._id !== moving?._id);
+  const seatKey = getSeatKey(startTime, endTime);
+  const isJoining = getSeatedMeetings(weekBookings, slotOptions).has(seatKey);
+  if (
+    !isJoining &&
+    isBookingCapReached(startTime, weekBookings, slotOptions, timezone)
+  ) {
+    throw new Error("No more bookings are available for this day or week");
+  }
+
+  // Verify slot is still available (prevent race conditions)
   const isAvailable = await checkSlotAvailable(
     host,
-    data.startTime,
-    data.endTime
+    startTime,
+    endTime,
+    slotOptions,
+    moving
   );
 
-  if (!isAvailable) {
+  // (co-hosts' copies of a group meeting's event don't block joining it)
+  const groupBookings = isJoining
+    ? weekBookings.filter(
+        (booking) =>
+          booking.meetingTypeId === slotOptions.seats?.meetingTypeId &&
+          getSeatKey(parseISO(booking.startTime), parseISO(booking.endTime)) ===
+            seatKey
+      )
+    : [];
+  if (
+    !isAvailable ||
+    hasSlotConflict(
+      startTime,
+      endTime,
+      groupBookings,
+      coHostBusyTimes,
+      slotOptions
+    )
+  ) {
     throw new Error("This time slot is no longer available");
   }
+}
 
-  // 5. Find the default connected account for creating calendar events
-  const defaultAccount = host.connectedAccounts?.find((a) => a.isDefault);
+/**
+ * Create the Google Calendar event for a booking and invite the hosts and the
+ * guest. Returns the event's ID and its Google Meet link, if it has one.
+ */
+async function insertCalendarEvent(
+  account: ConnectedAccountWithTokens,
+  details: CalendarEventDetails
+): Promise<{ googleEventId?: string; meetLink?: string }> {
+  const calendar = await getCalendarClient(account);
 
-  let googleEventId: string | undefined;
-  let meetLink: string | undefined;
+  // Build event summary with meeting type if available (group meetings
+  // are shared by every guest, so they're named after the host only)
+  const attendeeNames = details.isGroup
+    ? details.hostName
+    : `${details.hostName} x ${details.guestName}`;
+  const summary = `${details.meetingTypeName ?? "Meeting"}: ${attendeeNames}`;
 
-  // 6. Create Google Calendar event if we have a connected account
-  if (defaultAccount?.accessToken && defaultAccount?.refreshToken) {
-    try {
-      const calendar = await getCalendarClient(defaultAccount);
-
-      // Build event summary with meeting type if available
-      const summary = meetingTypeName
-        ? `${meetingTypeName}: ${host.name} x ${data.guestName}`
-        : `Meeting: ${host.name} x ${data.guestName}`;
-
-      const event = await calendar.events.insert({
-        calendarId: "primary",
-        sendUpdates: "all", // Sends email invites to attendees
-        conferenceDataVersion: 1, // Required for conference data
-        requestBody: {
-          summary,
-          description: data.notes || undefined,
-          start: {
-            dateTime: data.startTime.toISOString(),
-          },
-          end: {
-            dateTime: data.endTime.toISOString(),
-          },
-          attendees: [
-            { email: host.email, responseStatus: "accepted" },
-            { email: data.guestEmail },
-          ],
-          conferenceData: {
+  // Where to meet, then the guest's notes, their answers to the intake
+  // questions and their links to change the booking (kept off group
+  // meetings, which every guest sees)
+  const isGoogleMeet = details.location.type === "googleMeet";
+  const baseUrl = getBaseUrl();
+  const description = [
+    isGoogleMeet ? "" : describeBookingLocation(details.location),
+    details.isGroup ? "" : details.notes,
+    details.isGroup ? "" : formatIntakeAnswers(details.answers),
+    details.isGroup
+      ? ""
+      : [
+          `Reschedule: ${baseUrl}${getRescheduleBookingPath(details.manageToken)}`,
+          `Cancel: ${baseUrl}${getCancelBookingPath(details.manageToken)}`,
+        ].join("\n"),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const event = await calendar.events.insert({
+    calendarId: "primary",
+    sendUpdates: "all", // Sends email invites to attendees
+    conferenceDataVersion: 1, // Required for conference data
+    requestBody: {
+      summary,
+      description: description || undefined,
+      location: isGoogleMeet ? undefined : details.location.value,
+      start: {
+        dateTime: details.startTime.toISOString(),
+      },
+      end: {
+        dateTime: details.endTime.toISOString(),
+      },
+      attendees: [
+        ...details.hostEmails.map((email) => ({
+          email,
+          responseStatus: "accepted",
+        })),
+        { email: details.guestEmail },
+      ],
+      // Guests of a group meeting don't see each other
+      guestsCanSeeOtherGuests: !details.isGroup,
+      // Only Google Meet rooms are created through the calendar
+      conferenceData: isGoogleMeet
+        ? {
             createRequest: {
               requestId: `booking-${Date.now()}-${Math.random()
                 .toString(36)
@@ -313,42 +1014,17 @@ export async function createBooking(
                 type: "hangoutsMeet",
               },
             },
-          },
-        },
-      });
-
-      googleEventId = event.data.id ?? undefined;
-      meetLink = event.data.hangoutLink ?? undefined;
-    } catch (error) {
-      console.error("Failed to create Google Calendar event:", error);
-      // Continue without calendar event - booking still valid
-    }
-  }
-
-  // 7. Create booking in Sanity
-  const booking = await writeClient.create({
-    _type: "booking",
-    host: { _type: "reference", _ref: host._id },
-    ...(meetingTypeId && {
-      meetingType: { _type: "reference", _ref: meetingTypeId },
-    }),
-    guestName: data.guestName,
-    guestEmail: data.guestEmail,
-    startTime: data.startTime.toISOString(),
-    endTime: data.endTime.toISOString(),
-    googleEventId,
-    meetLink,
-    status: "confirmed",
-    notes: data.notes,
+          }
+        : undefined,
+    },
   });
 
-  return { _id: booking._id };
+  return {
+    googleEventId: event.data.id ?? undefined,
+    meetLink: event.data.hangoutLink ?? undefined,
+  };
 }
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
 /**
  * Get Google Calendar busy times from connected accounts
  */
@@ -356,7 +1032,7 @@ export async function getGoogleBusyTimes(
   connectedAccounts: HostWithTokens["connectedAccounts"],
   startDate: Date,
   endDate: Date
-): Promise<Array<{ start: Date; end: Date }>> {
+): Promise<BusyTime[]> {
   const events = await fetchCalendarEvents(
     connectedAccounts ?? [],
     startDate,
@@ -366,35 +1042,302 @@ export async function getGoogleBusyTimes(
   return events.map((event) => ({
     start: event.start,
     end: event.end,
+    eventId: event.id,
   }));
 }
 
 /**
- * Check if a time slot is available
+ * Add the events of the host's availability calendar to their one-off
+ * availability blocks, or use them instead of the blocks in "replace" mode.
+ * Recurring rules and date overrides still apply on top.
+ */
+export async function applyAvailabilityCalendar(
+  host: Pick<HostWithTokens, "availabilityCalendar" | "connectedAccounts">,
+  availability: HostAvailability,
+  startDate: Date,
+  endDate: Date
+): Promise<HostAvailability> {
+  const setting = host.availabilityCalendar;
+  if (!setting?.accountKey || !setting.calendarId) return availability;
+
+  const account = host.connectedAccounts?.find(
+    (a) => a._key === setting.accountKey
+  );
+
+  let windows: HostAvailability["blocks"] = [];
+  if (account?.accessToken && account.refreshToken) {
+    try {
+      windows = await fetchAvailabilityWindows(
+        account,
+        setting.calendarId,
+        startDate,
+        endDate
+      );
+    } catch (error) {
+      // Without the calendar only the manual blocks are known
+      console.error("Failed to fetch availability calendar:", error);
+    }
+  }
+
+  return {
+    ...availability,
+    blocks:
+      setting.mode === "replace"
+        ? windows
+        : [...availability.blocks, ...windows],
+  };
+}
+
+/**
+ * Narrow the host's availability to the times every co-host of a collective
+ * meeting type is also available, and collect what else blocks a meeting:
+ * bookings any of the hosts attends (apart from the host's own) and the
+ * co-hosts' Google Calendar busy times
+ */
+export async function applyCoHosts(
+  hostId: string,
+  coHosts: NonNullable<MeetingTypeCoHosts>,
+  availability: HostAvailability,
+  startDate: Date,
+  endDate: Date
+): Promise<{ availability: HostAvailability; busyTimes: BusyTime[] }> {
+  const [coHostAvailabilities, bookings, coHostBusyTimes] = await Promise.all([
+    Promise.all(
+      coHosts.map((coHost) =>
+        applyAvailabilityCalendar(
+          coHost,
+          toHostAvailability(coHost),
+          startDate,
+          endDate
+        )
+      )
+    ),
+    client.fetch(BOOKINGS_ATTENDED_BY_HOSTS_QUERY, {
+      hostId,
+      hostIds: [hostId, ...coHosts.map((coHost) => coHost._id)],
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+    }),
+    coHosts.length > 0
+      ? getGoogleBusyTimes(
+          coHosts.flatMap((coHost) => coHost.connectedAccounts ?? []),
+          startDate,
+          endDate
+        )
+      : [],
+  ]);
+
+  return {
+    availability:
+      coHostAvailabilities.length > 0
+        ? intersectAvailability(
+            [availability, ...coHostAvailabilities],
+            startDate,
+            endDate
+          )
+        : availability,
+    busyTimes: [
+      ...bookings.map((booking) => ({
+        start: parseISO(booking.startTime),
+        end: parseISO(booking.endTime),
+      })),
+      ...coHostBusyTimes,
+    ],
+  };
+}
+
+/**
+ * Availability, bookings and busy times of each host in a round-robin pool,
+ * for computing the slots any of them can take. Each host keeps their own
+ * booking caps.
+ */
+export async function getRoundRobinPool(
+  roundRobinHosts: NonNullable<MeetingTypeRoundRobinHosts>,
+  slotOptions: SlotOptions,
+  startDate: Date,
+  endDate: Date
+): Promise<PoolMemberSlotInput[]> {
+  const members = roundRobinHosts.flatMap((entry) =>
+    entry.host ? [entry.host] : []
+  );
+
+  return Promise.all(
+    members.map(async (member) => {
+      const [availability, bookings, busyTimes] = await Promise.all([
+        applyAvailabilityCalendar(
+          member,
+          toHostAvailability(member),
+          startDate,
+          endDate
+        ),
+        // From a week back, so weekly caps count the whole week
+        client.fetch(BOOKINGS_ATTENDED_BY_HOST_QUERY, {
+          hostId: member._id,
+          startDate: subDays(startDate, 7).toISOString(),
+          endDate: endDate.toISOString(),
+        }),
+        getGoogleBusyTimes(member.connectedAccounts, startDate, endDate),
+      ]);
+
+      return {
+        availability,
+        bookings,
+        busyTimes,
+        options: {
+          ...slotOptions,
+          hostCaps: {
+            perDay: member.maxBookingsPerDay,
+            perWeek: member.maxBookingsPerWeek,
+          },
+        },
+      };
+    })
+  );
+}
+
+/**
+ * Pick the round-robin host for a meeting: pool members are tried in the
+ * order the strategy gives, and the first one whose availability, own
+ * booking caps and monthly quota, bookings and calendar leave the slot free
+ * gets it. Returns null when
+ * nobody is free.
+ */
+async function assignRoundRobinHost(
+  roundRobinHosts: NonNullable<MeetingTypeRoundRobinHosts>,
+  strategy: RoundRobinStrategy,
+  meetingTypeId: string,
+  startTime: Date,
+  endTime: Date,
+  slotOptions: SlotOptions
+): Promise<HostWithTokens | null> {
+  const members = new Map(
+    roundRobinHosts.flatMap((entry) =>
+      entry.host ? [[entry.host._id, { ...entry, host: entry.host }]] : []
+    )
+  );
+  if (members.size === 0) return null;
+
+  // Turns are counted in the week of the meeting (in the first host's
+  // timezone, so everyone in the pool is compared over the same week)
+  const [first] = members.values();
+  const week = getWeekBoundsInTimeZone(
+    startTime,
+    toHostAvailability(first.host).timezone
+  );
+  const history = await writeClient.fetch(ROUND_ROBIN_HISTORY_QUERY, {
+    hostIds: [...members.keys()],
+    meetingTypeId,
+    weekStart: week.start.toISOString(),
+    weekEnd: week.end.toISOString(),
+  });
+
+  const ranked = rankRoundRobinHosts(
+    history.map((entry) => ({
+      hostId: entry._id,
+      priority: members.get(entry._id)?.priority ?? 1,
+      lastBookedAt: entry.lastBookedAt,
+      weekBookings: entry.weekBookings,
+    })),
+    strategy
+  );
+
+  for (const candidate of ranked) {
+    const member = members.get(candidate.hostId)?.host;
+    if (!member) continue;
+
+    const options: SlotOptions = {
+      ...slotOptions,
+      hostCaps: {
+        perDay: member.maxBookingsPerDay,
+        perWeek: member.maxBookingsPerWeek,
+      },
+    };
+    const hostAvailability = await applyAvailabilityCalendar(
+      member,
+      toHostAvailability(member),
+      startTime,
+      endTime
+    );
+    const { timezone } = hostAvailability;
+    if (!isWithinAvailability(hostAvailability, startTime, endTime)) continue;
+
+    const memberWeek = getWeekBoundsInTimeZone(startTime, timezone);
+    const [weekBookings, { busyTimes }] = await Promise.all([
+      client.fetch(BOOKINGS_IN_RANGE_QUERY, {
+        hostId: member._id,
+        startDate: memberWeek.start.toISOString(),
+        endDate: memberWeek.end.toISOString(),
+      }),
+      // Meetings the host attends as someone's co-host
+      applyCoHosts(
+        member._id,
+        [],
+        hostAvailability,
+        subDays(startTime, 1),
+        addDays(endTime, 1)
+      ),
+    ]);
+    if (isBookingCapReached(startTime, weekBookings, options, timezone)) {
+      continue;
+    }
+    if (hasSlotConflict(startTime, endTime, [], busyTimes, options)) continue;
+
+    // The booking counts toward the member's own monthly quota
+    const quotaStatus = await getHostBookingQuotaStatus(
+      member.slug?.current ?? ""
+    );
+    if (quotaStatus.isExceeded) continue;
+
+    // Re-check their bookings and calendar right before booking them
+    if (await checkSlotAvailable(member, startTime, endTime, options)) {
+      return member;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if a time slot is available, keeping the meeting type's buffers free
  */
 async function checkSlotAvailable(
   host: HostWithTokens,
   startTime: Date,
-  endTime: Date
+  endTime: Date,
+  options: SlotOptions = {},
+  moving?: BookingToMove
 ): Promise<boolean> {
+  // Widen the window so bookings and events inside the buffers are found
+  const paddedStart = addMinutes(startTime, -(options.bufferBefore ?? 0));
+  const paddedEnd = addMinutes(endTime, options.bufferAfter ?? 0);
+
+  // Look back a day so bookings that started before the window are included
   const existingBookings = await client.fetch(BOOKINGS_IN_RANGE_QUERY, {
     hostId: host._id,
-    startDate: startTime.toISOString(),
-    endDate: endTime.toISOString(),
+    startDate: subDays(paddedStart, 1).toISOString(),
+    endDate: paddedEnd.toISOString(),
   });
 
+  // Find bookings that overlap once buffers are applied (including guests
+  // already booked into this slot of a group meeting, but not the booking
+  // being moved)
+  const overlappingBookings = existingBookings.filter(
+    (booking) =>
+      booking._id !== moving?._id &&
+      overlapsWithBuffer(
+        startTime,
+        endTime,
+        parseISO(booking.startTime),
+        parseISO(booking.endTime),
+        options
+      )
+  );
+
   // Get attendee statuses for overlapping bookings
   const defaultAccount = host.connectedAccounts?.find((a) => a.isDefault);
   const declinedBookingIds = new Set<string>();
 
   if (defaultAccount?.accessToken && defaultAccount?.refreshToken) {
-    // Find overlapping bookings first
-    const overlappingBookings = existingBookings.filter((booking) => {
-      const bookingStart = parseISO(booking.startTime);
-      const bookingEnd = parseISO(booking.endTime);
-      return startTime < bookingEnd && endTime > bookingStart;
-    });
-
     // Check their attendee status
     await Promise.all(
       overlappingBookings
@@ -419,11 +1362,33 @@ async function checkSlotAvailable(
     );
   }
 
-  // Check for any overlapping bookings (excluding declined ones)
-  return !existingBookings.some((booking) => {
-    if (declinedBookingIds.has(booking._id)) return false; // Declined = available
-    const bookingStart = parseISO(booking.startTime);
-    const bookingEnd = parseISO(booking.endTime);
-    return startTime < bookingEnd && endTime > bookingStart;
-  });
-}
\ No newline at end of file
+  // Check for conflicting bookings (excluding declined ones). Group meetings
+  // in this slot only conflict once their seats are taken.
+  const activeBookings = overlappingBookings.filter(
+    (b) => !declinedBookingIds.has(b._id)
+  );
+  if (hasSlotConflict(startTime, endTime, activeBookings, [], options)) {
+    return false;
+  }
+
+  // Check Google Calendar busy times around the slot (if available), apart
+  // from the moved booking's own event
+  let busyTimes: BusyTime[] = [];
+  try {
+    busyTimes = (
+      await getGoogleBusyTimes(host.connectedAccounts, paddedStart, paddedEnd)
+    ).filter(
+      (busy) => !moving?.googleEventId || busy.eventId !== moving.googleEventId
+    );
+  } catch {
+    // Continue without busy times if fetch fails
+  }
+
+  return !hasSlotConflict(
+    startTime,
+    endTime,
+    activeBookings,
+    busyTimes,
+    options
+  );
+}
@@ -1,20 +1,25 @@
 "use server";
 
 import { auth } from "@clerk/nextjs/server";
-import { writeClient } from "@/sanity/lib/writeClient";
+import { getCancellationFields } from "@/lib/booking-status";
+import { type BusyRules, resolveBusyRules } from "@/lib/busy-rules";
+import {
+  type AttendeeStatus,
+  fetchCalendarEvents,
+  type GoogleCalendarListEntry,
+  getEventAttendeeStatuses,
+  listCalendars,
+  releaseBookingEvent,
+  revokeGoogleToken,
+} from "@/lib/google-calendar";
 import { client } from "@/sanity/lib/client";
+import { writeClient } from "@/sanity/lib/writeClient";
+import { BOOKING_WITH_HOST_CALENDAR_QUERY } from "@/sanity/queries/bookings";
 import {
-  USER_WITH_TOKENS_QUERY,
+  type AvailabilityCalendarSetting,
   type ConnectedAccountWithTokens,
+  USER_WITH_TOKENS_QUERY,
 } from "@/sanity/queries/users";
-import { BOOKING_WITH_HOST_CALENDAR_QUERY } from "@/sanity/queries/bookings";
-import {
-  getCalendarClient,
-  revokeGoogleToken,
-  getEventAttendeeStatuses,
-  fetchCalendarEvents,
-  type AttendeeStatus,
-} from "@/lib/google-calendar";
 
 // ============================================================================
 // Types
@@ -98,11 +103,14 @@ export async function disconnectGoogleAccount(
     (a) => a._key !== accountKey
   );
 
-  // Remove the account from Sanity
-  await writeClient
-    .patch(user._id)
-    .unset([`connectedAccounts[_key=="${accountKey}"]`])
-    .commit();
+  // Remove the account from Sanity, along with the availability calendar
+  // if it was read from this account
+  const unsetPaths = [`connectedAccounts[_key=="${accountKey}"]`];
+  if (user.availabilityCalendarAccountKey === accountKey) {
+    unsetPaths.push("availabilityCalendar");
+  }
+
+  await writeClient.patch(user._id).unset(unsetPaths).commit();
 
   // If the removed account was the default and there are other accounts,
   // set the first remaining account as default
@@ -155,11 +163,101 @@ export async function setDefaultCalendarAccount(
     .commit();
 }
 
+/**
+ * List the calendars of a connected account (for picking an availability calendar)
+ */
+export async function getAccountCalendars(
+  accountKey: string
+): Promise<GoogleCalendarListEntry[]> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  const user = await client.fetch(USER_WITH_TOKENS_QUERY, { clerkId: userId });
+  const account = user?.connectedAccounts?.find((a) => a._key === accountKey);
+  if (!account) throw new Error("Account not found");
+
+  return listCalendars(account);
+}
+
+/**
+ * Choose the Google calendar whose events are read as availability
+ * (null stops using one)
+ */
+export async function setAvailabilityCalendar(
+  setting: NonNullable<AvailabilityCalendarSetting> | null
+): Promise<void> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  const user = await client.fetch(USER_WITH_TOKENS_QUERY, { clerkId: userId });
+  if (!user) throw new Error("User not found");
+
+  if (!setting) {
+    await writeClient.patch(user._id).unset(["availabilityCalendar"]).commit();
+    return;
+  }
+
+  const { accountKey, calendarId, calendarName, mode } = setting;
+  if (mode !== "merge" && mode !== "replace") {
+    throw new Error("Invalid availability calendar mode");
+  }
+
+  const account = user.connectedAccounts?.find((a) => a._key === accountKey);
+  if (!account) throw new Error("Account not found");
+
+  // Only calendars the account can actually read are accepted
+  const calendars = await listCalendars(account);
+  if (!calendars.some((calendar) => calendar.id === calendarId)) {
+    throw new Error("Calendar not found");
+  }
+
+  await writeClient
+    .patch(user._id)
+    .set({
+      availabilityCalendar: { accountKey, calendarId, calendarName, mode },
+    })
+    .commit();
+}
+
+/**
+ * Update which event kinds count as busy for a connected account
+ */
+export async function updateBusyRules(
+  accountKey: string,
+  rules: BusyRules
+): Promise<BusyRules> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  const user = await client.fetch(USER_WITH_TOKENS_QUERY, { clerkId: userId });
+  if (!user) throw new Error("User not found");
+
+  const account = user.connectedAccounts?.find((a) => a._key === accountKey);
+  if (!account) throw new Error("Account not found");
+
+  // Drop anything that isn't a known rule before saving
+  const busyRules = resolveBusyRules(rules);
+
+  await writeClient
+    .patch(user._id)
+    .set({
+      [`connectedAccounts[_key=="${accountKey}"].busyRules`]: busyRules,
+    })
+    .commit();
+
+  return busyRules;
+}
+
 /**
  * Cancel a booking (Host only - requires authentication)
- * Deletes the Google Calendar event and removes the booking from Sanity.
+ * Deletes the Google Calendar event (or takes the guest off a group meeting's
+ * event) and marks the booking as cancelled by the host, with the host's
+ * reason if they gave one.
  */
-export async function cancelBooking(bookingId: string): Promise<void> {
+export async function cancelBooking(
+  bookingId: string,
+  reason?: string
+): Promise<void> {
   const { userId } = await auth();
   if (!userId) throw new Error("Unauthorized");
 
@@ -168,7 +266,8 @@ export async function cancelBooking(bookingId: string): Promise<void> {
     bookingId,
   });
 
-  if (!booking) {
+  // Hosts can only cancel their own bookings
+  if (!booking || booking.host?.clerkId !== userId) {
     throw new Error("Booking not found");
   }
 
@@ -176,22 +275,29 @@ export async function cancelBooking(bookingId: string): Promise<void> {
   if (booking.googleEventId && booking.host?.connectedAccounts) {
     const account = booking.host.connectedAccounts;
     if (account.accessToken && account.refreshToken) {
+      const note = reason?.trim()
+        ? `Cancelled by the host: ${reason.trim()}`
+        : undefined;
       try {
-        const calendar = await getCalendarClient(account);
-        await calendar.events.delete({
-          calendarId: "primary",
-          eventId: booking.googleEventId,
-          sendUpdates: "all", // Sends cancellation emails
-        });
+        await releaseBookingEvent(
+          account,
+          booking._id,
+          booking.googleEventId,
+          booking.guestEmail,
+          note
+        );
       } catch (error) {
         console.error("Failed to delete Google Calendar event:", error);
-        // Continue anyway - delete booking from Sanity
+        // Continue anyway - cancel the booking in Sanity
       }
     }
   }
 
-  // Delete booking from Sanity (Google Calendar is source of truth)
-  await writeClient.delete(bookingId);
+  // Keep the booking, so its history isn't lost
+  await writeClient
+    .patch(bookingId)
+    .set(getCancellationFields("cancelled", "host", reason))
+    .commit();
 }
 
 export type BookingStatuses = {
@@ -200,40 +306,53 @@ export type BookingStatuses = {
 };
 
 /**
- * Clean up a cancelled booking by deleting the Google Calendar event and Sanity document.
- * Used for lazy deletion when we detect a booking has been cancelled.
+ * Record a booking that was called off in Google Calendar: "declined" when
+ * the guest declined the invite (their place on the event is released), or
+ * "cancelled" when the host cancelled or deleted the event.
+ * Used for lazy reconciliation when we detect a booking has been cancelled.
  */
-async function cleanupCancelledBooking(
+async function recordCancelledBooking(
   account: ConnectedAccountWithTokens,
   bookingId: string,
   googleEventId: string,
+  guestEmail: string,
   eventStillExists: boolean
 ): Promise<void> {
   // Delete Google Calendar event if it still exists
   if (eventStillExists && account.accessToken && account.refreshToken) {
     try {
-      const calendar = await getCalendarClient(account);
-      await calendar.events.delete({
-        calendarId: "primary",
-        eventId: googleEventId,
-        sendUpdates: "all",
-      });
+      await releaseBookingEvent(account, bookingId, googleEventId, guestEmail);
     } catch (error) {
       console.error("Failed to delete Google Calendar event:", error);
     }
   }
 
-  // Delete booking from Sanity
+  // Keep the booking with its new status
   try {
-    await writeClient.delete(bookingId);
+    await writeClient
+      .patch(bookingId)
+      .set(
+        eventStillExists
+          ? getCancellationFields(
+              "declined",
+              "guest",
+              "Declined in Google Calendar"
+            )
+          : getCancellationFields(
+              "cancelled",
+              "host",
+              "Cancelled in Google Calendar"
+            )
+      )
+      .commit();
   } catch (error) {
-    console.error("Failed to delete booking from Sanity:", error);
+    console.error("Failed to update booking status in Sanity:", error);
   }
 }
 
 /**
  * Get guest attendee statuses for multiple bookings from Google Calendar.
- * Google Calendar is the sole source of truth - we don't store status in Sanity.
+ * Bookings cancelled or declined there are marked so in Sanity.
  */
 export async function getBookingAttendeeStatuses(
   bookings: Array<{
@@ -277,12 +396,14 @@ export async function getBookingAttendeeStatuses(
           hostStatus === "declined" || guestStatus === "declined";
         statuses[booking.id] = { guestStatus, isCancelled };
 
-        // Lazy delete: If cancelled, clean up Google Calendar event and Sanity booking
+        // Lazy reconciliation: If cancelled, release the Google Calendar event and
+        // record the new status in Sanity
         if (isCancelled) {
-          await cleanupCancelledBooking(
+          await recordCancelledBooking(
             account,
             booking.id,
             booking.googleEventId,
+            booking.guestEmail,
             hostStatus !== "declined"
           );
         }
@@ -295,8 +416,8 @@ export async function getBookingAttendeeStatuses(
 
 /**
  * Check which bookings are cancelled in Google Calendar (for public booking page).
- * Uses the host's calendar credentials to check event status.
- * Google Calendar is the sole source of truth.
+ * Uses the host's calendar credentials to check event status, and marks
+ * cancelled and declined bookings so in Sanity.
  */
 export async function getActivebookingIds(
   hostAccount: {
@@ -355,12 +476,14 @@ export async function getActivebookingIds(
         const isCancelled =
           hostStatus === "declined" || guestStatus === "declined";
 
-        // Lazy delete: If cancelled, clean up Google Calendar event and Sanity booking
+        // Lazy reconciliation: If cancelled, release the Google Calendar event and
+        // record the new status in Sanity
         if (isCancelled) {
-          await cleanupCancelledBooking(
+          await recordCancelledBooking(
             account,
             booking.id,
             booking.googleEventId,
+            booking.guestEmail,
             hostStatus !== "declined"
           );
         } else {
@@ -0,0 +1,1006 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { ClientError } from "@sanity/client";
+import { defineQuery } from "next-sanity";
+import {
+  getOrCreateBookingLink,
+  getOrCreateUser,
+} from "@/lib/actions/availability";
+import {
+  isValidDuration,
+  MAX_MEETING_DURATION,
+  MIN_MEETING_DURATION,
+} from "@/lib/durations";
+import {
+  INTAKE_QUESTION_TYPES,
+  type IntakeQuestion,
+  isChoiceQuestion,
+} from "@/lib/intake-questions";
+import {
+  assertValidMeetingLocation,
+  type MeetingLocation,
+} from "@/lib/locations";
+import {
+  DEFAULT_ROUND_ROBIN_PRIORITY,
+  type HostRole,
+  MAX_ROUND_ROBIN_PRIORITY,
+  MIN_ROUND_ROBIN_PRIORITY,
+  ROUND_ROBIN_STRATEGY_OPTIONS,
+  type RoundRobinHostInput,
+  type RoundRobinStrategy,
+  SCHEDULING_TYPE_OPTIONS,
+  type SchedulingType,
+} from "@/lib/scheduling";
+import { generateSlug, getBaseUrl } from "@/lib/url";
+import { client } from "@/sanity/lib/client";
+import { sanityFetch } from "@/sanity/lib/live";
+import { writeClient } from "@/sanity/lib/writeClient";
+import {
+  MEETING_TYPES_BY_HOST_QUERY,
+  type MeetingTypeForHost,
+} from "@/sanity/queries/meetingTypes";
+
+type MeetingTypeInput = {
+  name: string;
+  /** Default duration in minutes */
+  duration: number;
+  /** Other durations guests can pick */
+  durationOptions?: number[];
+  description?: string;
+  /** Intake questions (new ones have "local-" keys) */
+  questions?: IntakeQuestion[];
+  /** Where meetings take place (Google Meet when not set) */
+  location?: MeetingLocation;
+  /** Leave off the public booking page (still bookable by direct link) */
+  hidden?: boolean;
+  /** Guests per slot, for group events (1 when not set) */
+  seats?: number;
+  /** Whether co-hosts attend too ("individual" when not set) */
+  schedulingType?: SchedulingType;
+  /**
+   * Emails of the co-hosts of a collective meeting type. New co-hosts are
+   * invited and only join once they accept.
+   */
+  coHostEmails?: string[];
+  /**
+   * Pool of a round-robin meeting type, by email. Like co-hosts, new
+   * members are invited and only join once they accept.
+   */
+  roundRobinHosts?: RoundRobinHostInput[];
+  /** How a round-robin meeting type picks the next host */
+  roundRobinStrategy?: RoundRobinStrategy;
+};
+
+// All of a host's meeting types in display order, for keeping exactly one
+// default and renumbering sortOrder (read without the CDN, so it's current)
+const MEETING_TYPE_ORDER_QUERY = defineQuery(`*[
+  _type == "meetingType"
+  && host._ref == $hostId
+] | order(coalesce(sortOrder, 0) asc, name asc) {
+  _id,
+  isDefault,
+  archived
+}`);
+
+const MEETING_TYPE_FOR_HOST_QUERY = defineQuery(`*[
+  _type == "meetingType"
+  && _id == $meetingTypeId
+  && host->clerkId == $clerkId
+][0]{
+  _id,
+  name,
+  "slug": slug.current,
+  isDefault,
+  archived,
+  previousSlugs,
+  "hostId": host._ref
+}`);
+
+// Current and previous slugs of a host's other meeting types
+const MEETING_TYPE_SLUGS_QUERY = defineQuery(`*[
+  _type == "meetingType"
+  && host._ref == $hostId
+  && _id != $excludeId
+] {
+  "slug": slug.current,
+  previousSlugs
+}`);
+
+// Users with any of the given (lowercase) emails, for adding co-hosts
+const USERS_BY_EMAILS_QUERY = defineQuery(`*[
+  _type == "user"
+  && lower(email) in $emails
+] {
+  _id,
+  email
+}`);
+
+// Who hosts a meeting type with the owner or was invited to, read without the
+// CDN so hosts who just accepted aren't invited again
+const MEETING_TYPE_HOSTS_QUERY = defineQuery(`*[
+  _type == "meetingType"
+  && _id == $meetingTypeId
+][0]{
+  _rev,
+  "coHostIds": coHosts[]._ref,
+  "roundRobinHostIds": roundRobinHosts[].host._ref,
+  hostInvitations[] {
+    role,
+    invitedAt,
+    "inviteeId": invitee._ref
+  }
+}`);
+
+// A user's open invitation to host a meeting type
+const HOST_INVITATION_QUERY = defineQuery(`*[
+  _type == "meetingType"
+  && _id == $meetingTypeId
+  && archived != true
+][0]{
+  _rev,
+  "invitation": hostInvitations[invitee._ref == $userId][0] {
+    _key,
+    role,
+    priority
+  }
+}`);
+
+const BOOKING_IDS_BY_MEETING_TYPE_QUERY = defineQuery(`*[
+  _type == "booking"
+  && meetingType._ref == $meetingTypeId
+]._id`);
+
+const BOOKING_LINK_IDS_BY_MEETING_TYPE_QUERY = defineQuery(`*[
+  _type == "bookingLink"
+  && meetingType._ref == $meetingTypeId
+]._id`);
+
+type MeetingTypeHosts = {
+  coHostIds: string[] | null;
+  roundRobinHostIds: Array<string | null> | null;
+  hostInvitations: Array<{
+    role: HostRole | null;
+    invitedAt: string | null;
+    inviteeId: string | null;
+  }> | null;
+};
+
+type MeetingTypeOrder = Array<{
+  _id: string;
+  isDefault: boolean | null;
+  archived: boolean | null;
+}>;
+
+// Number meeting types in the given order
+async function saveOrder(meetingTypeIds: string[]) {
+  const transaction = writeClient.transaction();
+  meetingTypeIds.forEach((id, index) => {
+    transaction.patch(id, (patch) => patch.set({ sortOrder: index }));
+  });
+  await transaction.commit();
+}
+
+// Fetch a meeting type, throwing unless it belongs to the current user
+async function getOwnMeetingType(meetingTypeId: string) {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  const meetingType = await client.fetch(MEETING_TYPE_FOR_HOST_QUERY, {
+    meetingTypeId,
+    clerkId: userId,
+  });
+  if (!meetingType) throw new Error("Meeting type not found");
+
+  return meetingType;
+}
+
+function assertValidMeetingType(data: MeetingTypeInput) {
+  if (!data.name.trim()) throw new Error("Meeting name is required");
+
+  const invalid = [data.duration, ...(data.durationOptions ?? [])].find(
+    (minutes) => !isValidDuration(minutes)
+  );
+  if (invalid !== undefined) {
+    throw new Error(
+      `Invalid duration: ${invalid} (must be ${MIN_MEETING_DURATION} to ${MAX_MEETING_DURATION} minutes)`
+    );
+  }
+
+  assertValidQuestions(data.questions ?? []);
+  if (data.location) assertValidMeetingLocation(data.location);
+
+  if (
+    data.schedulingType &&
+    !SCHEDULING_TYPE_OPTIONS.some((t) => t.value === data.schedulingType)
+  ) {
+    throw new Error(`Invalid scheduling type: ${data.schedulingType}`);
+  }
+  if (
+    data.roundRobinStrategy &&
+    !ROUND_ROBIN_STRATEGY_OPTIONS.some(
+      (t) => t.value === data.roundRobinStrategy
+    )
+  ) {
+    throw new Error(`Invalid round-robin strategy: ${data.roundRobinStrategy}`);
+  }
+  if (data.seats !== undefined) {
+    if (!Number.isInteger(data.seats) || data.seats < 1) {
+      throw new Error("Seats must be a whole number of at least 1");
+    }
+    if (data.seats > 1 && data.schedulingType === "roundRobin") {
+      throw new Error("Round-robin meeting types have one guest per slot");
+    }
+  }
+}
+
+function assertValidQuestions(questions: IntakeQuestion[]) {
+  for (const question of questions) {
+    if (!question.label.trim()) throw new Error("Questions need a label");
+    if (!INTAKE_QUESTION_TYPES.some((t) => t.value === question.type)) {
+      throw new Error(`Invalid question type: ${question.type}`);
+    }
+    if (isChoiceQuestion(question.type)) {
+      const options = question.options
+        .map((option) => option.trim())
+        .filter(Boolean);
+      if (options.length < 2) {
+        throw new Error(`"${question.label}" needs at least two choices`);
+      }
+      if (new Set(options).size !== options.length) {
+        throw new Error(`"${question.label}" has the same choice twice`);
+      }
+    }
+  }
+}
+
+// Questions as stored on the meeting type, with keys for new ones
+function toSanityQuestions(questions: IntakeQuestion[] = []) {
+  return questions.map((question) => ({
+    _type: "intakeQuestion",
+    _key: question._key.startsWith("local-")
+      ? crypto.randomUUID()
+      : question._key,
+    label: question.label.trim(),
+    type: question.type,
+    required: question.required,
+    options: isChoiceQuestion(question.type)
+      ? question.options.map((option) => option.trim()).filter(Boolean)
+      : [],
+  }));
+}
+
+// The location as stored on the meeting type, keeping only the details its
+// type uses
+function toSanityLocation(location: MeetingLocation) {
+  const { type } = location;
+  return {
+    type,
+    address: type === "inPerson" ? location.address?.trim() : undefined,
+    phone: type === "hostPhone" ? location.phone?.trim() : undefined,
+    url: type === "customVideo" ? location.url?.trim() : undefined,
+    jitsiDomain: type === "jitsi" ? location.jitsiDomain?.trim() : undefined,
+  };
+}
+
+// The ids of the users with the given emails (by lowercase email). Every
+// email must belong to a host.
+async function getUserIdsByEmail(emails: string[]) {
+  const users = await writeClient.fetch(USERS_BY_EMAILS_QUERY, { emails });
+  const ids = new Map(
+    users.map((user) => [user.email?.toLowerCase() ?? "", user._id])
+  );
+
+  const unknown = emails.find((email) => !ids.has(email));
+  if (unknown) throw new Error(`No host has the email ${unknown}`);
+
+  return ids;
+}
+
+// Emails by user id, from user ids by email
+function invertMap(idsByEmail: Map<string, string>) {
+  return new Map([...idsByEmail].map(([email, id]) => [id, email]));
+}
+
+// Trimmed, lowercase emails without duplicates
+function normalizeEmails(emails: string[]) {
+  return [...new Set(emails.map((email) => email.trim().toLowerCase()))].filter(
+    Boolean
+  );
+}
+
+// An invitation to host, keyed by the invitee (with the priority they join
+// a round-robin pool with). Hosts invited before keep their original
+// invitation date.
+function toSanityInvitation(
+  inviteeId: string,
+  role: HostRole,
+  current: MeetingTypeHosts | null,
+  priority?: number
+) {
+  const existing = current?.hostInvitations?.find(
+    (invitation) =>
+      invitation.inviteeId === inviteeId && invitation.role === role
+  );
+  return {
+    _type: "hostInvitation",
+    _key: inviteeId,
+    invitee: { _type: "reference", _ref: inviteeId },
+    role,
+    ...(priority !== undefined && { priority }),
+    invitedAt: existing?.invitedAt ?? new Date().toISOString(),
+  };
+}
+
+// References to the co-hosts with the given emails, and invitations for the
+// ones who haven't accepted yet (with everyone's email by user id). Every
+// email must belong to another host; collective meeting types need at least
+// one.
+async function toSanityCoHosts(
+  hostId: string,
+  data: MeetingTypeInput,
+  current: MeetingTypeHosts | null = null
+) {
+  if (data.schedulingType !== "collective") {
+    return { coHosts: [], invitations: [], emails: new Map<string, string>() };
+  }
+
+  const emails = normalizeEmails(data.coHostEmails ?? []);
+  if (emails.length === 0) {
+    throw new Error("Collective meeting types need at least one co-host");
+  }
+
+  const idsByEmail = await getUserIdsByEmail(emails);
+  const ids = emails.map((email) => idsByEmail.get(email) ?? "");
+  if (ids.includes(hostId)) {
+    throw new Error("You're already hosting this meeting type");
+  }
+
+  // Only co-hosts who accepted get bookings; everyone else is asked first
+  const accepted = ids.filter((id) => current?.coHostIds?.includes(id));
+  return {
+    coHosts: accepted.map((id) => ({
+      _type: "reference",
+      _ref: id,
+      _key: id,
+    })),
+    invitations: ids
+      .filter((id) => !accepted.includes(id))
+      .map((id) => toSanityInvitation(id, "coHost", current)),
+    emails: invertMap(idsByEmail),
+  };
+}
+
+// The pool of a round-robin meeting type, by email, and invitations for the
+// members who haven't accepted yet (with everyone's email by user id). The
+// host can be part of their own pool without an invitation; round-robin
+// meeting types need at least one host.
+async function toSanityRoundRobinHosts(
+  hostId: string,
+  data: MeetingTypeInput,
+  current: MeetingTypeHosts | null = null
+) {
+  if (data.schedulingType !== "roundRobin") {
+    return {
+      roundRobinHosts: [],
+      invitations: [],
+      emails: new Map<string, string>(),
+    };
+  }
+
+  const hosts = data.roundRobinHosts ?? [];
+  const emails = normalizeEmails(hosts.map((h) => h.email));
+  if (emails.length === 0) {
+    throw new Error("Round-robin meeting types need at least one host");
+  }
+  if (emails.length !== hosts.length) {
+    throw new Error("Each host can only be in the pool once");
+  }
+  const invalid = hosts.find(
+    (h) =>
+      !Number.isInteger(h.priority) ||
+      h.priority < MIN_ROUND_ROBIN_PRIORITY ||
+      h.priority > MAX_ROUND_ROBIN_PRIORITY
+  );
+  if (invalid) {
+    throw new Error(
+      `Priorities must be ${MIN_ROUND_ROBIN_PRIORITY} to ${MAX_ROUND_ROBIN_PRIORITY}`
+    );
+  }
+
+  const ids = await getUserIdsByEmail(emails);
+  const members = hosts.map((h) => ({
+    id: ids.get(h.email.trim().toLowerCase()) ?? "",
+    priority: h.priority,
+  }));
+
+  // Only members who accepted get bookings; everyone else is asked first
+  const isAccepted = (id: string) =>
+    id === hostId || !!current?.roundRobinHostIds?.includes(id);
+  return {
+    roundRobinHosts: members
+      .filter((member) => isAccepted(member.id))
+      .map((member) => ({
+        _type: "roundRobinHost",
+        _key: member.id,
+        host: { _type: "reference", _ref: member.id },
+        priority: member.priority,
+      })),
+    invitations: members
+      .filter((member) => !isAccepted(member.id))
+      .map((member) =>
+        toSanityInvitation(
+          member.id,
+          "roundRobinHost",
+          current,
+          member.priority
+        )
+      ),
+    emails: invertMap(ids),
+  };
+}
+
+// The other durations to store: unique, shortest first, without the default
+function normalizeDurationOptions(data: MeetingTypeInput) {
+  return [...new Set(data.durationOptions ?? [])]
+    .filter((minutes) => minutes !== data.duration)
+    .sort((a, b) => a - b);
+}
+
+// A slug for a new meeting type that none of the host's other meeting types
+// uses or used before, suffixed -2, -3, … when taken
+async function getUniqueSlug(hostId: string, name: string, excludeId = "") {
+  const others = await writeClient.fetch(MEETING_TYPE_SLUGS_QUERY, {
+    hostId,
+    excludeId,
+  });
+  const taken = new Set(
+    others.flatMap((t) => [t.slug, ...(t.previousSlugs ?? [])])
+  );
+
+  // Names that can't be romanized (e.g. Chinese) have no slug of their own
+  const base = generateSlug(name) || "meeting";
+  let slug = base;
+  for (let n = 2; taken.has(slug); n++) {
+    const suffix = `-${n}`;
+    slug = `${base.substring(0, 50 - suffix.length)}${suffix}`;
+  }
+
+  return slug;
+}
+
+// The first active meeting type other than excludeId, to take over as default
+function pickNextDefault(types: MeetingTypeOrder, excludeId: string) {
+  return types.find((t) => t._id !== excludeId && !t.archived)?._id ?? null;
+}
+
+/**
+ * Get all meeting types for the current user (including archived ones)
+ */
+export async function getMeetingTypes(): Promise<MeetingTypeForHost[]> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  const { data: meetingTypes } = await sanityFetch({
+    query: MEETING_TYPES_BY_HOST_QUERY,
+    params: { clerkId: userId },
+  });
+
+  return meetingTypes;
+}
+
+/**
+ * Create a new meeting type for the current user. The host's first meeting
+ * type becomes the default; making another one the default takes it over.
+ */
+export async function createMeetingType(
+  data: MeetingTypeInput & { isDefault?: boolean }
+): Promise<MeetingTypeForHost> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  assertValidMeetingType(data);
+
+  const user = await getOrCreateUser(userId);
+  const existing = await writeClient.fetch(MEETING_TYPE_ORDER_QUERY, {
+    hostId: user._id,
+  });
+
+  const hasDefault = existing.some((t) => t.isDefault && !t.archived);
+  const isDefault = data.isDefault ?? !hasDefault;
+  const name = data.name.trim();
+  const slug = await getUniqueSlug(user._id, name);
+  const durationOptions = normalizeDurationOptions(data);
+  const questions = toSanityQuestions(data.questions);
+  const location = data.location ? toSanityLocation(data.location) : null;
+  const schedulingType = data.schedulingType ?? "individual";
+  const coHostsResult = await toSanityCoHosts(user._id, data);
+  const roundRobinResult = await toSanityRoundRobinHosts(user._id, data);
+  const { coHosts } = coHostsResult;
+  const { roundRobinHosts } = roundRobinResult;
+  const invitations = [
+    ...coHostsResult.invitations,
+    ...roundRobinResult.invitations,
+  ];
+  const emails = new Map([...coHostsResult.emails, ...roundRobinResult.emails]);
+  const roundRobinStrategy = data.roundRobinStrategy ?? "leastRecentlyBooked";
+
+  const transaction = writeClient.transaction();
+  if (isDefault) {
+    for (const type of existing.filter((t) => t.isDefault)) {
+      transaction.patch(type._id, (patch) => patch.set({ isDefault: false }));
+    }
+  }
+  transaction.create({
+    _type: "meetingType",
+    name,
+    slug: { _type: "slug", current: slug },
+    duration: data.duration,
+    durationOptions,
+    description: data.description,
+    questions,
+    ...(location && { location }),
+    isDefault,
+    archived: false,
+    hidden: data.hidden ?? false,
+    seats: data.seats ?? 1,
+    schedulingType,
+    coHosts,
+    hostInvitations: invitations,
+    roundRobinHosts,
+    roundRobinStrategy,
+    sortOrder: existing.length,
+    host: { _type: "reference", _ref: user._id },
+  });
+
+  const result = await transaction.commit();
+  const meetingTypeId = result.results[result.results.length - 1].id;
+
+  return {
+    _id: meetingTypeId,
+    name,
+    slug,
+    duration: data.duration,
+    durationOptions,
+    description: data.description ?? null,
+    isDefault,
+    archived: false,
+    hidden: data.hidden ?? false,
+    seats: data.seats ?? 1,
+    schedulingType,
+    // A new meeting type's co-hosts are all invited
+    coHostEmails: [],
+    hostInvitations: invitations.map((invitation) => ({
+      _key: invitation._key,
+      role: invitation.role,
+      priority: invitation.priority ?? null,
+      email: emails.get(invitation._key) ?? null,
+    })),
+    roundRobinStrategy,
+    roundRobinHosts: roundRobinHosts.map((h) => ({
+      _key: h._key,
+      priority: h.priority,
+      email: emails.get(h._key) ?? null,
+    })),
+    location: location && {
+      type: location.type,
+      address: location.address ?? null,
+      phone: location.phone ?? null,
+      url: location.url ?? null,
+      jitsiDomain: location.jitsiDomain ?? null,
+    },
+    questions,
+    scheduleId: null,
+    bookingCount: 0,
+  };
+}
+
+/**
+ * Rename a meeting type or change its slug, durations, description, location,
+ * intake questions, seats, co-hosts or round-robin pool and whether it's
+ * hidden. The old slug is kept so booking links using it redirect to the new
+ * one.
+ */
+export async function updateMeetingType(
+  meetingTypeId: string,
+  data: MeetingTypeInput & { slug?: string }
+): Promise<void> {
+  const meetingType = await getOwnMeetingType(meetingTypeId);
+  assertValidMeetingType(data);
+
+  const current = await writeClient.fetch(MEETING_TYPE_HOSTS_QUERY, {
+    meetingTypeId,
+  });
+  if (!current) throw new Error("Meeting type not found");
+
+  const description = data.description?.trim();
+  // Fails if a co-host accepted or declined while this was being edited
+  const patch = writeClient.patch(meetingTypeId).ifRevisionId(current._rev);
+  patch.set({
+    name: data.name.trim(),
+    duration: data.duration,
+    durationOptions: normalizeDurationOptions(data),
+  });
+
+  if (data.questions) {
+    patch.set({ questions: toSanityQuestions(data.questions) });
+  }
+  if (data.location) {
+    patch.set({ location: toSanityLocation(data.location) });
+  }
+  if (data.hidden !== undefined) {
+    patch.set({ hidden: data.hidden });
+  }
+  if (data.seats !== undefined) {
+    patch.set({ seats: data.seats });
+  }
+  if (data.schedulingType) {
+    if (!meetingType.hostId) throw new Error("Meeting type has no host");
+    const { coHosts, invitations: coHostInvitations } = await toSanityCoHosts(
+      meetingType.hostId,
+      data,
+      current
+    );
+    const { roundRobinHosts, invitations: roundRobinInvitations } =
+      await toSanityRoundRobinHosts(meetingType.hostId, data, current);
+    patch.set({
+      schedulingType: data.schedulingType,
+      coHosts,
+      hostInvitations: [...coHostInvitations, ...roundRobinInvitations],
+      roundRobinHosts,
+      roundRobinStrategy: data.roundRobinStrategy ?? "leastRecentlyBooked",
+    });
+  }
+
+  const slug =
+    data.slug === undefined ? meetingType.slug : generateSlug(data.slug);
+  if (!slug) throw new Error("Slug must contain letters or numbers");
+
+  if (slug !== meetingType.slug) {
+    if (!meetingType.hostId) throw new Error("Meeting type has no host");
+
+    const others = await writeClient.fetch(MEETING_TYPE_SLUGS_QUERY, {
+      hostId: meetingType.hostId,
+      excludeId: meetingTypeId,
+    });
+    if (others.some((t) => t.slug === slug)) {
+      throw new Error(`Another meeting type already uses "${slug}"`);
+    }
+    // Old links with another meeting type's previous slug redirect to it
+    if (others.some((t) => t.previousSlugs?.includes(slug))) {
+      throw new Error(
+        `"${slug}" was used by another meeting type and still links to it`
+      );
+    }
+
+    // Remember the old slug; going back to an earlier slug drops it from
+    // the history
+    const previousSlugs = [
+      ...(meetingType.previousSlugs ?? []),
+      meetingType.slug,
+    ].filter(
+      (previous, index, all): previous is string =>
+        !!previous && previous !== slug && all.indexOf(previous) === index
+    );
+    patch.set({ slug: { _type: "slug", current: slug }, previousSlugs });
+  }
+
+  if (description) {
+    patch.set({ description });
+  } else {
+    patch.unset(["description"]);
+  }
+
+  try {
+    await patch.commit();
+  } catch (error) {
+    // 409: the revision no longer matches - a host answered an invitation
+    if (error instanceof ClientError && error.statusCode === 409) {
+      throw new Error("The hosts changed while you were editing. Try again.");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Make a meeting type the host's default (unsetting the previous default)
+ */
+export async function setDefaultMeetingType(
+  meetingTypeId: string
+): Promise<void> {
+  const meetingType = await getOwnMeetingType(meetingTypeId);
+  if (meetingType.archived) {
+    throw new Error("Archived meeting types can't be the default");
+  }
+  if (!meetingType.hostId) throw new Error("Meeting type has no host");
+
+  const types = await writeClient.fetch(MEETING_TYPE_ORDER_QUERY, {
+    hostId: meetingType.hostId,
+  });
+
+  const transaction = writeClient.transaction();
+  for (const type of types) {
+    if (type._id !== meetingTypeId && type.isDefault) {
+      transaction.patch(type._id, (patch) => patch.set({ isDefault: false }));
+    }
+  }
+  transaction.patch(meetingTypeId, (patch) => patch.set({ isDefault: true }));
+
+  await transaction.commit();
+}
+
+/**
+ * Archive a meeting type (hidden from the booking page, bookings kept), or
+ * restore it. Archiving the default hands the default to the next active type.
+ */
+export async function setMeetingTypeArchived(
+  meetingTypeId: string,
+  archived: boolean
+): Promise<void> {
+  const meetingType = await getOwnMeetingType(meetingTypeId);
+  if (!meetingType.hostId) throw new Error("Meeting type has no host");
+
+  const types = await writeClient.fetch(MEETING_TYPE_ORDER_QUERY, {
+    hostId: meetingType.hostId,
+  });
+
+  const transaction = writeClient.transaction();
+
+  if (archived) {
+    transaction.patch(meetingTypeId, (patch) =>
+      patch.set({ archived: true, isDefault: false })
+    );
+
+    const nextDefault = meetingType.isDefault
+      ? pickNextDefault(types, meetingTypeId)
+      : null;
+    if (nextDefault) {
+      transaction.patch(nextDefault, (patch) =>
+        patch.set({ isDefault: true })
+      );
+    }
+  } else {
+    // A restored type becomes the default if the host has none
+    const hasDefault = types.some((t) => t.isDefault && !t.archived);
+    transaction.patch(meetingTypeId, (patch) =>
+      patch.set({ archived: false, isDefault: !hasDefault })
+    );
+  }
+
+  await transaction.commit();
+}
+
+/**
+ * Copy a meeting type with all its settings. The copy is placed right after
+ * the original and is never the default.
+ */
+export async function duplicateMeetingType(
+  meetingTypeId: string
+): Promise<{ _id: string }> {
+  const meetingType = await getOwnMeetingType(meetingTypeId);
+  if (!meetingType.hostId) throw new Error("Meeting type has no host");
+
+  const [source, types] = await Promise.all([
+    writeClient.getDocument(meetingTypeId),
+    writeClient.fetch(MEETING_TYPE_ORDER_QUERY, { hostId: meetingType.hostId }),
+  ]);
+  if (!source) throw new Error("Meeting type not found");
+
+  // The copy starts without the original's slug history
+  const {
+    _id,
+    _rev,
+    _createdAt,
+    _updatedAt,
+    previousSlugs: _previousSlugs,
+    coHosts,
+    roundRobinHosts,
+    hostInvitations,
+    ...fields
+  } = source;
+  const name = `${meetingType.name} (copy)`;
+  const slug = await getUniqueSlug(meetingType.hostId, name);
+
+  // Co-hosts and other members of the pool agreed to host the original
+  // only, so they're asked again
+  const coHostIds: string[] = (coHosts ?? []).map(
+    (coHost: { _ref: string }) => coHost._ref
+  );
+  const poolMembers: Array<{ host: { _ref: string }; priority?: number }> =
+    roundRobinHosts ?? [];
+  const isOwner = (member: { host: { _ref: string } }) =>
+    member.host._ref === meetingType.hostId;
+  const copy = await writeClient.create({
+    ...fields,
+    _type: "meetingType",
+    name,
+    slug: { _type: "slug", current: slug },
+    isDefault: false,
+    archived: false,
+    coHosts: [],
+    roundRobinHosts: poolMembers.filter(isOwner),
+    hostInvitations: [
+      ...(hostInvitations ?? []),
+      ...coHostIds.map((id) => toSanityInvitation(id, "coHost", null)),
+      ...poolMembers
+        .filter((member) => !isOwner(member))
+        .map((member) =>
+          toSanityInvitation(
+            member.host._ref,
+            "roundRobinHost",
+            null,
+            member.priority
+          )
+        ),
+    ],
+  });
+
+  // Renumber so the copy sits right after the original
+  const ids = types.map((t) => t._id);
+  ids.splice(ids.indexOf(meetingTypeId) + 1, 0, copy._id);
+  await saveOrder(ids);
+
+  return { _id: copy._id };
+}
+
+/**
+ * Accept or decline the current user's invitation to host someone else's
+ * meeting type. Accepting makes them a co-host or puts them in the
+ * round-robin pool, so they get its bookings.
+ */
+export async function respondToHostInvitation(
+  meetingTypeId: string,
+  accept: boolean
+): Promise<void> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  const user = await getOrCreateUser(userId);
+  const meetingType = await writeClient.fetch(HOST_INVITATION_QUERY, {
+    meetingTypeId,
+    userId: user._id,
+  });
+  const invitation = meetingType?.invitation;
+  if (!meetingType || !invitation?._key) {
+    throw new Error("Invitation not found");
+  }
+
+  const patch = writeClient
+    .patch(meetingTypeId)
+    .ifRevisionId(meetingType._rev)
+    .unset([`hostInvitations[_key=="${invitation._key}"]`]);
+  if (accept && invitation.role === "coHost") {
+    patch
+      .setIfMissing({ coHosts: [] })
+      .append("coHosts", [
+        { _type: "reference", _ref: user._id, _key: user._id },
+      ]);
+  }
+  if (accept && invitation.role === "roundRobinHost") {
+    patch.setIfMissing({ roundRobinHosts: [] }).append("roundRobinHosts", [
+      {
+        _type: "roundRobinHost",
+        _key: user._id,
+        host: { _type: "reference", _ref: user._id },
+        priority: invitation.priority ?? DEFAULT_ROUND_ROBIN_PRIORITY,
+      },
+    ]);
+  }
+
+  await patch.commit();
+}
+
+/**
+ * Delete a meeting type. Its bookings are kept: they lose the reference but
+ * remember the meeting type's name. Its one-off booking links are deleted.
+ * Deleting the default hands the default to the next active type.
+ */
+export async function deleteMeetingType(meetingTypeId: string): Promise<void> {
+  const meetingType = await getOwnMeetingType(meetingTypeId);
+  if (!meetingType.hostId) throw new Error("Meeting type has no host");
+
+  const [bookingIds, linkIds, types] = await Promise.all([
+    writeClient.fetch(BOOKING_IDS_BY_MEETING_TYPE_QUERY, { meetingTypeId }),
+    writeClient.fetch(BOOKING_LINK_IDS_BY_MEETING_TYPE_QUERY, {
+      meetingTypeId,
+    }),
+    writeClient.fetch(MEETING_TYPE_ORDER_QUERY, { hostId: meetingType.hostId }),
+  ]);
+
+  // Remove the references first so the meeting type can be deleted
+  const transaction = writeClient.transaction();
+  for (const bookingId of bookingIds) {
+    transaction.patch(bookingId, (patch) =>
+      patch
+        .setIfMissing({ meetingTypeName: meetingType.name })
+        .unset(["meetingType"])
+    );
+  }
+  // One-off links to the meeting type stop working with it
+  for (const linkId of linkIds) {
+    transaction.delete(linkId);
+  }
+
+  const nextDefault = meetingType.isDefault
+    ? pickNextDefault(types, meetingTypeId)
+    : null;
+  if (nextDefault) {
+    transaction.patch(nextDefault, (patch) => patch.set({ isDefault: true }));
+  }
+
+  transaction.delete(meetingTypeId);
+
+  await transaction.commit();
+}
+
+/**
+ * Create a one-off link to book a meeting type: usable once, until a date,
+ * or both. Returns the URL to hand out.
+ */
+export async function createOneOffBookingLink(
+  meetingTypeId: string,
+  options: { singleUse: boolean; expiresAt?: string }
+): Promise<{ url: string }> {
+  const meetingType = await getOwnMeetingType(meetingTypeId);
+  if (meetingType.archived) {
+    throw new Error("Archived meeting types can't be booked");
+  }
+  if (!meetingType.hostId) throw new Error("Meeting type has no host");
+
+  let expiresAt: string | undefined;
+  if (options.expiresAt) {
+    const date = new Date(options.expiresAt);
+    if (Number.isNaN(date.getTime())) throw new Error("Invalid expiry date");
+    if (date <= new Date()) {
+      throw new Error("Expiry date must be in the future");
+    }
+    expiresAt = date.toISOString();
+  }
+  if (!options.singleUse && !expiresAt) {
+    throw new Error("Links that can be reused need an expiry date");
+  }
+
+  const { slug: hostSlug } = await getOrCreateBookingLink();
+  const token = crypto.randomUUID().replace(/-/g, "");
+
+  await writeClient.create({
+    _type: "bookingLink",
+    token,
+    host: { _type: "reference", _ref: meetingType.hostId },
+    meetingType: { _type: "reference", _ref: meetingTypeId },
+    singleUse: options.singleUse,
+    expiresAt,
+    createdAt: new Date().toISOString(),
+  });
+
+  return {
+    url: `${getBaseUrl()}/book/${hostSlug}/${meetingType.slug}?token=${token}`,
+  };
+}
+
+/**
+ * Save the order of the current user's meeting types (ids in display order)
+ */
+export async function reorderMeetingTypes(
+  meetingTypeIds: string[]
+): Promise<void> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  const user = await getOrCreateUser(userId);
+  const meetingTypes = await writeClient.fetch(MEETING_TYPE_ORDER_QUERY, {
+    hostId: user._id,
+  });
+
+  // The new order must contain each of the host's meeting types exactly once
+  const ownIds = new Set(meetingTypes.map((t) => t._id));
+  if (
+    meetingTypeIds.length !== ownIds.size ||
+    new Set(meetingTypeIds).size !== ownIds.size ||
+    !meetingTypeIds.every((id) => ownIds.has(id))
+  ) {
+    throw new Error("Meeting types out of date, please refresh");
+  }
+
+  await saveOrder(meetingTypeIds);
+}
@@ -0,0 +1,115 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { defineQuery } from "next-sanity";
+import { getOrCreateUser } from "@/lib/actions/availability";
+import { isValidTimezone } from "@/lib/availability";
+import { client } from "@/sanity/lib/client";
+import { writeClient } from "@/sanity/lib/writeClient";
+import { SCHEDULE_ID_FOR_HOST_QUERY } from "@/sanity/queries/schedules";
+
+const MEETING_TYPE_ID_FOR_HOST_QUERY = defineQuery(`*[
+  _type == "meetingType"
+  && _id == $meetingTypeId
+  && host->clerkId == $clerkId
+][0]._id`);
+
+const MEETING_TYPE_IDS_BY_SCHEDULE_QUERY = defineQuery(`*[
+  _type == "meetingType"
+  && schedule._ref == $scheduleId
+]._id`);
+
+// Throws unless the schedule belongs to the host
+async function assertOwnSchedule(clerkId: string, scheduleId: string) {
+  const id = await client.fetch(SCHEDULE_ID_FOR_HOST_QUERY, {
+    scheduleId,
+    clerkId,
+  });
+  if (!id) throw new Error("Schedule not found");
+}
+
+/**
+ * Create a new, empty named schedule for the current user
+ */
+export async function createSchedule(data: {
+  name: string;
+  timezone: string;
+}): Promise<{ _id: string; name: string; timezone: string }> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  const name = data.name.trim();
+  if (!name) throw new Error("Schedule name is required");
+  if (!isValidTimezone(data.timezone)) {
+    throw new Error(`Invalid timezone: ${data.timezone}`);
+  }
+
+  const user = await getOrCreateUser(userId);
+
+  const schedule = await writeClient.create({
+    _type: "schedule",
+    name,
+    host: { _type: "reference", _ref: user._id },
+    timezone: data.timezone,
+    availability: [],
+    availabilityRules: [],
+    availabilityOverrides: [],
+  });
+
+  return { _id: schedule._id, name, timezone: data.timezone };
+}
+
+/**
+ * Delete a schedule. Meeting types using it fall back to the host's
+ * default availability.
+ */
+export async function deleteSchedule(scheduleId: string): Promise<void> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  await assertOwnSchedule(userId, scheduleId);
+
+  const meetingTypeIds = await client.fetch(
+    MEETING_TYPE_IDS_BY_SCHEDULE_QUERY,
+    { scheduleId }
+  );
+
+  // Remove the references first so the schedule can be deleted
+  const transaction = writeClient.transaction();
+  for (const meetingTypeId of meetingTypeIds) {
+    transaction.patch(meetingTypeId, (patch) => patch.unset(["schedule"]));
+  }
+  transaction.delete(scheduleId);
+
+  await transaction.commit();
+}
+
+/**
+ * Assign a schedule to a meeting type, or pass null to use the host's
+ * default availability
+ */
+export async function setMeetingTypeSchedule(
+  meetingTypeId: string,
+  scheduleId: string | null
+): Promise<void> {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized");
+
+  const ownMeetingTypeId = await client.fetch(MEETING_TYPE_ID_FOR_HOST_QUERY, {
+    meetingTypeId,
+    clerkId: userId,
+  });
+  if (!ownMeetingTypeId) throw new Error("Meeting type not found");
+
+  if (!scheduleId) {
+    await writeClient.patch(meetingTypeId).unset(["schedule"]).commit();
+    return;
+  }
+
+  await assertOwnSchedule(userId, scheduleId);
+
+  await writeClient
+    .patch(meetingTypeId)
+    .set({ schedule: { _type: "reference", _ref: scheduleId } })
+    .commit();
+}
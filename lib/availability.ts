@@ -1,4 +1,3 @@
-
 /**
  * Availability computation utilities
  *
@@ -8,14 +7,17 @@
  */
 
 import {
-  startOfDay,
-  endOfDay,
-  addMinutes,
+  addBusinessDays,
   addDays,
-  isWithinInterval,
+  addHours,
+  addMinutes,
+  differenceInMinutes,
+  max,
+  min,
   parseISO,
-  format,
+  startOfMinute,
 } from "date-fns";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
 
 // ============================================================================
 // Types
@@ -31,152 +33,1056 @@ export type BookingSlot = {
   _id: string;
   startTime: string;
   endTime: string;
+  meetingTypeId?: string | null;
+  googleEventId?: string | null;
 };
 
 export type BusyTime = {
   start: Date;
   end: Date;
+  /** Google Calendar event behind the busy time, if known */
+  eventId?: string | null;
+};
+
+/**
+ * A meeting of a group meeting type (one with seats) and how many guests
+ * have booked into it
+ */
+export type SeatedMeeting = {
+  start: Date;
+  end: Date;
+  guests: number;
+};
+
+export type Weekday =
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday"
+  | "sunday";
+
+/**
+ * A recurring weekly availability rule, e.g. "Mon–Fri 09:00–17:00 in Europe/Berlin".
+ * Times are wall-clock times in the rule's timezone; effective dates are YYYY-MM-DD.
+ */
+export type AvailabilityRule = {
+  _key: string;
+  days: string[];
+  startTime: string;
+  endTime: string;
+  timezone: string;
+  effectiveFrom?: string | null;
+  effectiveUntil?: string | null;
+};
+
+/**
+ * A date-specific override. "unavailable" blocks whole days (time off,
+ * holidays, vacations); "custom" replaces the day's hours with `hours`.
+ * Dates are YYYY-MM-DD and, like hours, interpreted in the override's timezone.
+ */
+export type AvailabilityOverride = {
+  _key: string;
+  type: "unavailable" | "custom";
+  startDate: string;
+  endDate?: string | null;
+  hours?: Array<{ _key: string; startTime: string; endTime: string }> | null;
+  timezone: string;
+  label?: string | null;
+};
+
+/**
+ * Everything that defines when a host is available, in order of precedence:
+ * overrides beat recurring rules and one-off blocks, which are combined.
+ */
+export type HostAvailability = {
+  /** Host's home timezone; defines where their days start and end */
+  timezone: string;
+  blocks: AvailabilitySlot[];
+  rules?: AvailabilityRule[];
+  overrides?: AvailabilityOverride[];
+};
+
+/**
+ * How far in advance a meeting must be booked, e.g. 4 hours or 2 business days
+ */
+export type MinimumNotice = {
+  amount?: number | null;
+  unit?: "minutes" | "hours" | "days" | "businessDays" | null;
+};
+
+/**
+ * How far ahead a meeting can be booked: a rolling number of days from
+ * today, or up to a fixed date (YYYY-MM-DD, inclusive)
+ */
+export type BookingWindow = {
+  mode?: "unlimited" | "rolling" | "until" | null;
+  days?: number | null;
+  untilDate?: string | null;
+};
+
+/**
+ * Maximum number of bookings per day and per week (Monday to Sunday).
+ * Empty values mean no limit.
+ */
+export type BookingCaps = {
+  perDay?: number | null;
+  perWeek?: number | null;
+};
+
+/**
+ * Per-meeting-type settings applied when generating slots
+ */
+export type SlotOptions = {
+  /** Minutes that must be free before a meeting starts */
+  bufferBefore?: number;
+  /** Minutes that must be free after a meeting ends */
+  bufferAfter?: number;
+  /** Minutes between possible start times; defaults to the meeting duration */
+  slotInterval?: number | null;
+  minimumNotice?: MinimumNotice | null;
+  bookingWindow?: BookingWindow | null;
+  /** Caps across all of the host's bookings */
+  hostCaps?: BookingCaps | null;
+  /** Caps for one meeting type, counting bookings that reference it */
+  meetingTypeCaps?: (BookingCaps & { meetingTypeId: string }) | null;
+  /** Guests per slot for a group meeting type, who share one meeting */
+  seats?: { meetingTypeId: string; capacity: number } | null;
+};
+
+/**
+ * A single calendar date affected by an override, as a UTC interval
+ * plus the replacement hours (empty for time off).
+ */
+export type OverrideDay = {
+  overrideKey: string;
+  date: string;
+  start: Date;
+  end: Date;
+  hours: Array<{ start: Date; end: Date }>;
 };
 
 // ============================================================================
-// Core Computation Functions
+// Constants
 // ============================================================================
 
+// Indexed by Date.getUTCDay() (Sunday = 0)
+const WEEKDAYS_BY_INDEX: Weekday[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
 /**
- * Compute available dates from host availability and existing bookings.
- * This is a pure function that doesn't fetch any data.
+ * How far ahead recurring rules are expanded on the public booking page.
+ * Concrete blocks have a natural end; recurring rules repeat indefinitely.
+ */
+export const RECURRING_AVAILABILITY_WINDOW_DAYS = 60;
+
+/** Timezone used for hosts that haven't set one */
+export const DEFAULT_TIMEZONE = "UTC";
+
+// ============================================================================
+// Timezone Helpers
+// ============================================================================
+
+// Calendar-date arithmetic on UTC midnights (immune to the server's DST shifts)
+const addUtcDays = (date: Date, days: number): Date =>
+  new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+// Shift a YYYY-MM-DD calendar date by whole days
+const addDaysToDateString = (dateStr: string, days: number): string =>
+  addUtcDays(parseISO(`${dateStr}T00:00:00Z`), days)
+    .toISOString()
+    .slice(0, 10);
+
+// Monday (YYYY-MM-DD) of the week containing a calendar date
+const getWeekStartDateString = (dateStr: string): string => {
+  const weekday = parseISO(`${dateStr}T00:00:00Z`).getUTCDay();
+  return addDaysToDateString(dateStr, -((weekday + 6) % 7));
+};
+
+/**
+ * Whether a string is a valid IANA timezone, e.g. Europe/Berlin
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function toDateInTimeZone(date: Date, timezone: string): string {
+  return formatInTimeZone(date, timezone, "yyyy-MM-dd");
+}
+
+/**
+ * First and last instant of a calendar date (YYYY-MM-DD) in the given
+ * timezone. Days are 23 or 25 hours long on DST transitions.
+ */
+export function getDayBoundsInTimeZone(
+  dateStr: string,
+  timezone: string
+): { start: Date; end: Date } {
+  const nextDateStr = addDaysToDateString(dateStr, 1);
+  return {
+    start: fromZonedTime(`${dateStr}T00:00:00`, timezone),
+    end: new Date(
+      fromZonedTime(`${nextDateStr}T00:00:00`, timezone).getTime() - 1
+    ),
+  };
+}
+
+/**
+ * First and last instant of the week (Monday to Sunday) containing `date`
+ * in the given timezone
+ */
+export function getWeekBoundsInTimeZone(
+  date: Date,
+  timezone: string
+): { start: Date; end: Date } {
+  const monday = getWeekStartDateString(toDateInTimeZone(date, timezone));
+  return {
+    start: getDayBoundsInTimeZone(monday, timezone).start,
+    end: getDayBoundsInTimeZone(addDaysToDateString(monday, 6), timezone).end,
+  };
+}
+
+// ============================================================================
+// Recurring Rule Expansion
+// ============================================================================
+
+/**
+ * Expand recurring weekly rules into concrete availability blocks that
+ * overlap the given range. Wall-clock times are converted to UTC instants
+ * per calendar date, so "9–5" stays 9–5 across DST transitions.
  *
- * @param availability - Host's availability slots
- * @param bookings - Existing confirmed bookings
- * @param startDate - Range start
- * @param endDate - Range end
- * @param slotDurationMinutes - Duration of each slot
- * @param busyTimes - Optional Google Calendar busy times
- * @returns Array of date strings in YYYY-MM-DD format
+ * Generated keys are stable (`<ruleKey>-<YYYY-MM-DD>`) so they can be used
+ * as React keys for read-only calendar events.
  */
-export function computeAvailableDates(
-  availability: AvailabilitySlot[],
-  bookings: BookingSlot[],
-  startDate: Date,
-  endDate: Date,
-  slotDurationMinutes = 30,
-  busyTimes: BusyTime[] = []
-): string[] {
-  const availableDates: string[] = [];
-  let currentDate = startOfDay(startDate);
-  const today = startOfDay(new Date());
-
-  while (currentDate <= endDate) {
-    // Skip past dates
-    if (currentDate < today) {
-      currentDate = addDays(currentDate, 1);
+export function expandAvailabilityRules(
+  rules: AvailabilityRule[],
+  rangeStart: Date,
+  rangeEnd: Date
+): AvailabilitySlot[] {
+  const blocks: AvailabilitySlot[] = [];
+
+  for (const rule of rules) {
+    if (!rule.days?.length || !rule.startTime || !rule.endTime) continue;
+    if (rule.endTime <= rule.startTime) continue;
+
+    const timezone = rule.timezone || "UTC";
+
+    // Walk calendar dates in the rule's timezone, padded by a day on each
+    // side so blocks that straddle the range boundaries are included
+    const firstDate = formatInTimeZone(rangeStart, timezone, "yyyy-MM-dd");
+    const lastDate = formatInTimeZone(rangeEnd, timezone, "yyyy-MM-dd");
+    let cursor = addUtcDays(parseISO(`${firstDate}T00:00:00Z`), -1);
+    const last = addUtcDays(parseISO(`${lastDate}T00:00:00Z`), 1);
+
+    while (cursor <= last) {
+      const dateStr = cursor.toISOString().slice(0, 10);
+      const weekday = WEEKDAYS_BY_INDEX[cursor.getUTCDay()];
+      cursor = addUtcDays(cursor, 1);
+
+      if (!rule.days.includes(weekday)) continue;
+      if (rule.effectiveFrom && dateStr < rule.effectiveFrom) continue;
+      if (rule.effectiveUntil && dateStr > rule.effectiveUntil) continue;
+
+      const start = fromZonedTime(`${dateStr}T${rule.startTime}:00`, timezone);
+      const end = fromZonedTime(`${dateStr}T${rule.endTime}:00`, timezone);
+
+      if (start < rangeEnd && end > rangeStart) {
+        blocks.push({
+          _key: `${rule._key}-${dateStr}`,
+          startDateTime: start.toISOString(),
+          endDateTime: end.toISOString(),
+        });
+      }
+    }
+  }
+
+  return blocks;
+}
+
+// ============================================================================
+// Date Overrides
+// ============================================================================
+
+/**
+ * Expand overrides into the individual calendar days they cover that
+ * overlap the given range. Multi-day ranges yield one entry per day.
+ */
+export function expandOverrideDays(
+  overrides: AvailabilityOverride[],
+  rangeStart: Date,
+  rangeEnd: Date
+): OverrideDay[] {
+  const days: OverrideDay[] = [];
+
+  for (const override of overrides) {
+    if (!override.startDate) continue;
+
+    const timezone = override.timezone || "UTC";
+    const lastDate = override.endDate ?? override.startDate;
+    let cursor = parseISO(`${override.startDate}T00:00:00Z`);
+    const last = parseISO(`${lastDate}T00:00:00Z`);
+
+    while (cursor <= last) {
+      const dateStr = cursor.toISOString().slice(0, 10);
+      cursor = addUtcDays(cursor, 1);
+      const nextDateStr = cursor.toISOString().slice(0, 10);
+
+      const start = fromZonedTime(`${dateStr}T00:00:00`, timezone);
+      const end = fromZonedTime(`${nextDateStr}T00:00:00`, timezone);
+      if (start >= rangeEnd || end <= rangeStart) continue;
+
+      const toInstant = (time: string) =>
+        fromZonedTime(`${dateStr}T${time}:00`, timezone);
+      const hours =
+        override.type === "custom"
+          ? (override.hours ?? [])
+              .filter((h) => h.startTime && h.endTime > h.startTime)
+              .map((h) => ({
+                start: toInstant(h.startTime),
+                end: toInstant(h.endTime),
+              }))
+          : [];
+
+      days.push({
+        overrideKey: override._key,
+        date: dateStr,
+        start,
+        end,
+        hours,
+      });
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Apply date overrides to resolved availability blocks: every overridden
+ * day is cleared, then its custom hours (if any) are added back.
+ */
+export function applyAvailabilityOverrides(
+  blocks: AvailabilitySlot[],
+  overrides: AvailabilityOverride[],
+  rangeStart: Date,
+  rangeEnd: Date
+): AvailabilitySlot[] {
+  const overrideDays = expandOverrideDays(overrides, rangeStart, rangeEnd);
+  if (overrideDays.length === 0) return blocks;
+
+  let result = blocks;
+  for (const day of overrideDays) {
+    result = subtractInterval(result, day.start, day.end);
+  }
+
+  const customBlocks = overrideDays.flatMap((day) =>
+    day.hours.map((hours, index) => ({
+      _key: `${day.overrideKey}-${day.date}-${index}`,
+      startDateTime: hours.start.toISOString(),
+      endDateTime: hours.end.toISOString(),
+    }))
+  );
+
+  return mergeBlocks([...result, ...customBlocks]);
+}
+
+// Remove [start, end) from every block, splitting blocks that straddle it
+function subtractInterval(
+  blocks: AvailabilitySlot[],
+  start: Date,
+  end: Date
+): AvailabilitySlot[] {
+  const result: AvailabilitySlot[] = [];
+
+  for (const block of blocks) {
+    const blockStart = parseISO(block.startDateTime);
+    const blockEnd = parseISO(block.endDateTime);
+
+    if (blockEnd <= start || blockStart >= end) {
+      result.push(block);
       continue;
     }
+    if (blockStart < start) {
+      result.push({
+        _key: `${block._key}-before`,
+        startDateTime: block.startDateTime,
+        endDateTime: start.toISOString(),
+      });
+    }
+    if (blockEnd > end) {
+      result.push({
+        _key: `${block._key}-after`,
+        startDateTime: end.toISOString(),
+        endDateTime: block.endDateTime,
+      });
+    }
+  }
 
-    const dayStart = startOfDay(currentDate);
-    const dayEnd = endOfDay(currentDate);
+  return result;
+}
 
-    // Find availability blocks for this day
-    const availabilityForDate = availability.filter((slot) => {
-      const slotStart = parseISO(slot.startDateTime);
-      const slotEnd = parseISO(slot.endDateTime);
+// ============================================================================
+// Availability Resolution
+// ============================================================================
 
-      return (
-        isWithinInterval(slotStart, { start: dayStart, end: dayEnd }) ||
-        isWithinInterval(slotEnd, { start: dayStart, end: dayEnd }) ||
-        (slotStart <= dayStart && slotEnd >= dayEnd)
-      );
-    });
-
-    if (availabilityForDate.length > 0) {
-      const hasAvailableSlot = checkDayHasAvailableSlot(
-        availabilityForDate,
-        bookings,
-        dayStart,
-        dayEnd,
-        slotDurationMinutes,
-        busyTimes
-      );
+/**
+ * Resolve a host's availability into concrete blocks for a range:
+ * one-off blocks and expanded recurring rules are combined, then date
+ * overrides are applied on top.
+ */
+export function resolveAvailabilityBlocks(
+  availability: HostAvailability,
+  rangeStart: Date,
+  rangeEnd: Date
+): AvailabilitySlot[] {
+  const { blocks, rules = [], overrides = [] } = availability;
+  if (rules.length === 0 && overrides.length === 0) return blocks;
 
-      if (hasAvailableSlot) {
-        // Format as YYYY-MM-DD in local timezone (not UTC)
-        availableDates.push(format(currentDate, "yyyy-MM-dd"));
+  const combined = mergeBlocks([
+    ...blocks,
+    ...expandAvailabilityRules(rules, rangeStart, rangeEnd),
+  ]);
+
+  return applyAvailabilityOverrides(combined, overrides, rangeStart, rangeEnd);
+}
+
+/**
+ * Build a HostAvailability from a host or schedule document projection
+ * (any query that selects availability, availabilityRules and availabilityOverrides)
+ */
+export function toHostAvailability(host: {
+  timezone?: string | null;
+  availability?: AvailabilitySlot[] | null;
+  availabilityRules?: AvailabilityRule[] | null;
+  availabilityOverrides?: AvailabilityOverride[] | null;
+}): HostAvailability {
+  return {
+    timezone: host.timezone || DEFAULT_TIMEZONE,
+    blocks: host.availability ?? [],
+    rules: host.availabilityRules ?? [],
+    overrides: host.availabilityOverrides ?? [],
+  };
+}
+
+/**
+ * Availability shared by several hosts (e.g. everyone attending a collective
+ * meeting): only the times inside every host's resolved blocks for the
+ * range. Days run in the first host's timezone.
+ */
+export function intersectAvailability(
+  availabilities: HostAvailability[],
+  rangeStart: Date,
+  rangeEnd: Date
+): HostAvailability {
+  const [first, ...others] = availabilities;
+  let blocks = mergeBlocks(
+    resolveAvailabilityBlocks(first, rangeStart, rangeEnd)
+  );
+
+  for (const other of others) {
+    const otherBlocks = mergeBlocks(
+      resolveAvailabilityBlocks(other, rangeStart, rangeEnd)
+    );
+    blocks = blocks.flatMap((block) =>
+      otherBlocks.flatMap((otherBlock) => {
+        const start = max([
+          parseISO(block.startDateTime),
+          parseISO(otherBlock.startDateTime),
+        ]);
+        const end = min([
+          parseISO(block.endDateTime),
+          parseISO(otherBlock.endDateTime),
+        ]);
+        return start < end
+          ? [
+              {
+                _key: `${block._key}-${otherBlock._key}`,
+                startDateTime: start.toISOString(),
+                endDateTime: end.toISOString(),
+              },
+            ]
+          : [];
+      })
+    );
+  }
+
+  return { timezone: first.timezone, blocks, rules: [], overrides: [] };
+}
+
+/**
+ * Latest point in time the host could be available, used as the end of
+ * the range the public booking page computes slots for. Never later than
+ * `latest` (the meeting type's booking horizon) when one is given.
+ */
+export function getAvailabilityHorizon(
+  availability: HostAvailability,
+  from: Date,
+  latest: Date | null = null
+): Date {
+  const { blocks, rules = [], overrides = [] } = availability;
+
+  // Recurring rules never run out, so they extend the range up to the
+  // booking horizon, or by a rolling window if there is none
+  let horizon = from;
+  if (rules.length > 0) {
+    horizon = latest ?? addDays(from, RECURRING_AVAILABILITY_WINDOW_DAYS);
+  }
+
+  for (const block of blocks) {
+    const blockEnd = parseISO(block.endDateTime);
+    if (blockEnd > horizon) horizon = blockEnd;
+  }
+
+  for (const override of overrides) {
+    if (override.type !== "custom") continue;
+    const lastDate = override.endDate ?? override.startDate;
+    const overrideEnd = fromZonedTime(
+      `${lastDate}T23:59:59`,
+      override.timezone || "UTC"
+    );
+    if (overrideEnd > horizon) horizon = overrideEnd;
+  }
+
+  return latest && latest < horizon ? latest : horizon;
+}
+
+/**
+ * Check that a meeting fits entirely inside the host's availability
+ * (used to re-validate a requested time before booking)
+ */
+export function isWithinAvailability(
+  availability: HostAvailability,
+  start: Date,
+  end: Date
+): boolean {
+  const blocks = mergeBlocks(resolveAvailabilityBlocks(availability, start, end));
+
+  return blocks.some(
+    (block) =>
+      parseISO(block.startDateTime) <= start &&
+      parseISO(block.endDateTime) >= end
+  );
+}
+
+// Merge overlapping or touching blocks (sorted by start)
+function mergeBlocks(blocks: AvailabilitySlot[]): AvailabilitySlot[] {
+  const sorted = [...blocks].sort(
+    (a, b) =>
+      parseISO(a.startDateTime).getTime() - parseISO(b.startDateTime).getTime()
+  );
+
+  const merged: AvailabilitySlot[] = [];
+  for (const block of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && parseISO(block.startDateTime) <= parseISO(last.endDateTime)) {
+      if (parseISO(block.endDateTime) > parseISO(last.endDateTime)) {
+        last.endDateTime = block.endDateTime;
       }
+    } else {
+      merged.push({ ...block });
     }
+  }
+
+  return merged;
+}
+
+// ============================================================================
+// Booking Window
+// ============================================================================
 
-    currentDate = addDays(currentDate, 1);
+/**
+ * Earliest and latest start times a guest can book right now.
+ * `latest` is null when the meeting type has no booking horizon, otherwise
+ * the end of the last bookable day in the host's timezone.
+ */
+export function getBookableRange(
+  options: SlotOptions = {},
+  now = new Date(),
+  timezone = DEFAULT_TIMEZONE
+): { earliest: Date; latest: Date | null } {
+  const amount = options.minimumNotice?.amount ?? 0;
+  let earliest = now;
+  switch (options.minimumNotice?.unit) {
+    case "minutes":
+      earliest = addMinutes(now, amount);
+      break;
+    case "hours":
+      earliest = addHours(now, amount);
+      break;
+    case "days":
+      earliest = addDays(now, amount);
+      break;
+    case "businessDays":
+      earliest = addBusinessDays(now, amount);
+      break;
   }
 
-  return availableDates;
+  const { bookingWindow } = options;
+  let latest: Date | null = null;
+  if (bookingWindow?.mode === "rolling" && bookingWindow.days != null) {
+    const lastDate = addDaysToDateString(
+      toDateInTimeZone(now, timezone),
+      bookingWindow.days
+    );
+    latest = getDayBoundsInTimeZone(lastDate, timezone).end;
+  } else if (bookingWindow?.mode === "until" && bookingWindow.untilDate) {
+    latest = getDayBoundsInTimeZone(bookingWindow.untilDate, timezone).end;
+  }
+
+  return { earliest, latest };
 }
 
 /**
- * Compute available time slots for a specific date.
- * This is a pure function that doesn't fetch any data.
+ * Check if a meeting may start at the given time within a bookable range
  */
-export function computeAvailableSlots(
-  availability: AvailabilitySlot[],
-  bookings: BookingSlot[],
+export function isBookableStart(
+  start: Date,
+  earliest: Date,
+  latest: Date | null
+): boolean {
+  return start >= earliest && (!latest || start <= latest);
+}
+
+// ============================================================================
+// Booking Caps
+// ============================================================================
+
+/**
+ * Check if the day or week containing `date` (in the host's timezone) has
+ * hit the host's or the meeting type's booking cap. `bookings` must cover
+ * the whole week.
+ */
+export function isBookingCapReached(
   date: Date,
-  slotDurationMinutes = 30,
+  bookings: BookingSlot[],
+  options: SlotOptions = {},
+  timezone = DEFAULT_TIMEZONE
+): boolean {
+  return createCapChecker(
+    bookings,
+    options,
+    timezone
+  )(toDateInTimeZone(date, timezone));
+}
+
+// Count bookings per day and week (in the host's timezone) once, so caps
+// can be checked for every day of a range without rescanning the bookings.
+// The returned function takes a YYYY-MM-DD date.
+function createCapChecker(
+  bookings: BookingSlot[],
+  options: SlotOptions,
+  timezone: string
+): (dateStr: string) => boolean {
+  const { hostCaps, meetingTypeCaps } = options;
+  if (
+    !hostCaps?.perDay &&
+    !hostCaps?.perWeek &&
+    !meetingTypeCaps?.perDay &&
+    !meetingTypeCaps?.perWeek
+  ) {
+    return () => false;
+  }
+
+  type Counts = { day: Map<string, number>; week: Map<string, number> };
+  const increment = (counts: Map<string, number>, key: string) =>
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+
+  const hostCounts: Counts = { day: new Map(), week: new Map() };
+  const meetingTypeCounts: Counts = { day: new Map(), week: new Map() };
+  const countedMeetings = new Set<string>();
+
+  for (const booking of bookings) {
+    // Guests of a group meeting share one meeting, which counts once
+    if (booking.meetingTypeId) {
+      const meetingKey = `${booking.meetingTypeId}|${booking.startTime}`;
+      if (countedMeetings.has(meetingKey)) continue;
+      countedMeetings.add(meetingKey);
+    }
+
+    const dateStr = toDateInTimeZone(parseISO(booking.startTime), timezone);
+    const weekStr = getWeekStartDateString(dateStr);
+
+    increment(hostCounts.day, dateStr);
+    increment(hostCounts.week, weekStr);
+    if (booking.meetingTypeId === meetingTypeCaps?.meetingTypeId) {
+      increment(meetingTypeCounts.day, dateStr);
+      increment(meetingTypeCounts.week, weekStr);
+    }
+  }
+
+  const isCapReached = (
+    caps: BookingCaps | null | undefined,
+    counts: Counts,
+    dateStr: string
+  ) =>
+    (!!caps?.perDay && (counts.day.get(dateStr) ?? 0) >= caps.perDay) ||
+    (!!caps?.perWeek &&
+      (counts.week.get(getWeekStartDateString(dateStr)) ?? 0) >=
+        caps.perWeek);
+
+  return (dateStr) =>
+    isCapReached(hostCaps, hostCounts, dateStr) ||
+    isCapReached(meetingTypeCaps, meetingTypeCounts, dateStr);
+}
+
+// ============================================================================
+// Seats
+// ============================================================================
+
+/**
+ * Key of a meeting's time slot, as used by `getSeatedMeetings`
+ */
+export function getSeatKey(start: Date, end: Date): string {
+  return `${start.getTime()}-${end.getTime()}`;
+}
+
+/**
+ * Group the bookings of the meeting type in `options.seats` by slot: guests
+ * who booked the same start and end share one meeting. Keyed by
+ * `getSeatKey`.
+ */
+export function getSeatedMeetings(
+  bookings: BookingSlot[],
+  options: SlotOptions = {}
+): Map<string, SeatedMeeting> {
+  const meetings = new Map<string, SeatedMeeting>();
+  if (!options.seats) return meetings;
+
+  for (const booking of bookings) {
+    if (booking.meetingTypeId !== options.seats.meetingTypeId) continue;
+
+    const start = parseISO(booking.startTime);
+    const end = parseISO(booking.endTime);
+    const key = getSeatKey(start, end);
+    const meeting = meetings.get(key);
+    if (meeting) {
+      meeting.guests++;
+    } else {
+      meetings.set(key, { start, end, guests: 1 });
+    }
+  }
+
+  return meetings;
+}
+
+// Set aside the group meetings that still have seats. Guests can join their
+// own slot, so they only block other slots; their bookings and calendar
+// events are left out of the returned bookings and busy times.
+function separateOpenMeetings(
+  bookings: BookingSlot[],
+  busyTimes: BusyTime[],
+  options: SlotOptions
+): {
+  bookings: BookingSlot[];
+  busyTimes: BusyTime[];
+  openMeetings: Map<string, SeatedMeeting>;
+} {
+  const { seats } = options;
+  if (!seats) return { bookings, busyTimes, openMeetings: new Map() };
+
+  const openMeetings = new Map(
+    [...getSeatedMeetings(bookings, options)].filter(
+      ([, meeting]) => meeting.guests < seats.capacity
+    )
+  );
+  const openEventIds = new Set<string>();
+  const blocking = bookings.filter((booking) => {
+    const isOpen =
+      booking.meetingTypeId === seats.meetingTypeId &&
+      openMeetings.has(
+        getSeatKey(parseISO(booking.startTime), parseISO(booking.endTime))
+      );
+    if (isOpen && booking.googleEventId) {
+      openEventIds.add(booking.googleEventId);
+    }
+    return !isOpen;
+  });
+
+  return {
+    bookings: blocking,
+    busyTimes: busyTimes.filter(
+      (busy) => !busy.eventId || !openEventIds.has(busy.eventId)
+    ),
+    openMeetings,
+  };
+}
+
+// ============================================================================
+// Conflict Detection
+// ============================================================================
+
+/**
+ * Check if a meeting overlaps a busy interval once its buffers are applied.
+ * Buffers extend the meeting, so a busy interval ending 10 minutes before
+ * the start conflicts when `bufferBefore` is 15.
+ */
+export function overlapsWithBuffer(
+  start: Date,
+  end: Date,
+  busyStart: Date,
+  busyEnd: Date,
+  options: SlotOptions = {}
+): boolean {
+  const paddedStart = addMinutes(start, -(options.bufferBefore ?? 0));
+  const paddedEnd = addMinutes(end, options.bufferAfter ?? 0);
+  return paddedStart < busyEnd && paddedEnd > busyStart;
+}
+
+/**
+ * Check if a meeting conflicts with any booking or busy time, buffers
+ * included. A group meeting in the same slot doesn't conflict until all its
+ * seats are taken.
+ */
+export function hasSlotConflict(
+  start: Date,
+  end: Date,
+  bookings: BookingSlot[],
+  busyTimes: BusyTime[],
+  options: SlotOptions = {}
+): boolean {
+  const separated = separateOpenMeetings(bookings, busyTimes, options);
+  const seatKey = getSeatKey(start, end);
+  const hasBookingConflict =
+    separated.bookings.some((booking) =>
+      overlapsWithBuffer(
+        start,
+        end,
+        parseISO(booking.startTime),
+        parseISO(booking.endTime),
+        options
+      )
+    ) ||
+    [...separated.openMeetings].some(
+      ([key, meeting]) =>
+        key !== seatKey &&
+        overlapsWithBuffer(start, end, meeting.start, meeting.end, options)
+    );
+  if (hasBookingConflict) return true;
+
+  return separated.busyTimes.some((busy) =>
+    overlapsWithBuffer(start, end, busy.start, busy.end, options)
+  );
+}
+
+// ============================================================================
+// Slot Generation
+// ============================================================================
+
+/**
+ * Candidate meetings that fit inside an availability window.
+ *
+ * With an interval, starts fall on multiples of it counted from midnight in
+ * the host's timezone (a 15-minute interval gives :00, :15, :30, :45; 60
+ * gives "on the hour"),
+ * so candidates overlap when the interval is shorter than the duration.
+ * Without one, meetings are packed back to back from the window start.
+ */
+export function generateSlotCandidates(
+  windowStart: Date,
+  windowEnd: Date,
+  durationMinutes: number,
+  intervalMinutes?: number | null,
+  timezone = DEFAULT_TIMEZONE
+): Array<{ start: Date; end: Date }> {
+  const candidates: Array<{ start: Date; end: Date }> = [];
+  const step = intervalMinutes && intervalMinutes > 0 ? intervalMinutes : null;
+
+  let currentStart = windowStart;
+  if (step) {
+    // Round up to the next interval boundary
+    const { start: midnight } = getDayBoundsInTimeZone(
+      toDateInTimeZone(windowStart, timezone),
+      timezone
+    );
+    const minutesIntoDay = differenceInMinutes(windowStart, midnight);
+    const offset = (step - (minutesIntoDay % step)) % step;
+    currentStart = addMinutes(startOfMinute(windowStart), offset);
+    if (currentStart < windowStart) {
+      currentStart = addMinutes(currentStart, step);
+    }
+  }
+
+  while (addMinutes(currentStart, durationMinutes) <= windowEnd) {
+    const currentEnd = addMinutes(currentStart, durationMinutes);
+    candidates.push({ start: currentStart, end: currentEnd });
+    currentStart = step ? addMinutes(currentStart, step) : currentEnd;
+  }
+
+  return candidates;
+}
+
+// ============================================================================
+// Busy Timeline
+// ============================================================================
+
+/**
+ * Bookings and busy times merged into sorted, non-overlapping intervals
+ * (epoch milliseconds), so conflicts can be found without rescanning every
+ * booking for every slot
+ */
+export type BusyTimeline = Array<{ start: number; end: number }>;
+
+/**
+ * Merge bookings and busy times into a busy timeline
+ */
+export function buildBusyTimeline(
+  bookings: BookingSlot[],
   busyTimes: BusyTime[] = []
+): BusyTimeline {
+  const intervals = [
+    ...bookings.map((booking) => ({
+      start: parseISO(booking.startTime).getTime(),
+      end: parseISO(booking.endTime).getTime(),
+    })),
+    ...busyTimes.map((busy) => ({
+      start: busy.start.getTime(),
+      end: busy.end.getTime(),
+    })),
+  ].sort((a, b) => a.start - b.start);
+
+  const timeline: BusyTimeline = [];
+  for (const interval of intervals) {
+    const last = timeline[timeline.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      timeline.push({ ...interval });
+    }
+  }
+
+  return timeline;
+}
+
+// ============================================================================
+// Core Computation Functions
+// ============================================================================
+
+/**
+ * Compute every bookable slot from `rangeStart` up to `rangeEnd` in one
+ * pass. This is the single slot engine behind the booking page and the
+ * booking actions; it is a pure function that doesn't fetch any data.
+ *
+ * Availability windows are walked in order and split at midnight in the
+ * host's timezone (meetings never span two days). Candidates are checked
+ * against the busy timeline with one pointer that only moves forward (a
+ * sweep line), so the cost grows with slots + bookings, not their product.
+ * Group meetings with seats left stay bookable in their own slot.
+ *
+ * @param availability - Host's blocks, recurring rules and date overrides
+ * @param bookings - Existing confirmed bookings
+ * @param rangeStart - Range start
+ * @param rangeEnd - Range end (exclusive)
+ * @param slotDurationMinutes - Duration of each slot
+ * @param busyTimes - Optional Google Calendar busy times
+ * @param options - Meeting type settings such as buffers
+ * @returns Slots in chronological order
+ */
+export function computeSlotsInRange(
+  availability: HostAvailability,
+  bookings: BookingSlot[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  slotDurationMinutes = 30,
+  busyTimes: BusyTime[] = [],
+  options: SlotOptions = {}
 ): Array<{ start: Date; end: Date }> {
-  const dayStart = startOfDay(date);
-  const dayEnd = endOfDay(date);
-  const now = new Date();
-  const slots: Array<{ start: Date; end: Date }> = [];
+  const { timezone } = availability;
+  const { earliest, latest } = getBookableRange(options, new Date(), timezone);
+  const isCapReached = createCapChecker(bookings, options, timezone);
+  const separated = separateOpenMeetings(bookings, busyTimes, options);
+  const timeline = buildBusyTimeline(separated.bookings, separated.busyTimes);
+  const openMeetings = [...separated.openMeetings];
+  const bufferBeforeMs = (options.bufferBefore ?? 0) * 60 * 1000;
+  const bufferAfterMs = (options.bufferAfter ?? 0) * 60 * 1000;
 
-  // Find availability blocks for this day
-  const availabilityForDate = availability.filter((slot) => {
-    const slotStart = parseISO(slot.startDateTime);
-    const slotEnd = parseISO(slot.endDateTime);
+  const windows = mergeBlocks(
+    resolveAvailabilityBlocks(availability, rangeStart, rangeEnd)
+  );
 
-    return (
-      isWithinInterval(slotStart, { start: dayStart, end: dayEnd }) ||
-      isWithinInterval(slotEnd, { start: dayStart, end: dayEnd }) ||
-      (slotStart <= dayStart && slotEnd >= dayEnd)
+  const slots: Array<{ start: Date; end: Date }> = [];
+  let busyIndex = 0;
+
+  for (const window of windows) {
+    const windowEnd = Math.min(
+      parseISO(window.endDateTime).getTime(),
+      rangeEnd.getTime()
+    );
+    let segmentStart = Math.max(
+      parseISO(window.startDateTime).getTime(),
+      rangeStart.getTime()
     );
-  });
 
-  for (const availSlot of availabilityForDate) {
-    const availStart = parseISO(availSlot.startDateTime);
-    const availEnd = parseISO(availSlot.endDateTime);
+    while (segmentStart < windowEnd) {
+      const dateStr = toDateInTimeZone(new Date(segmentStart), timezone);
+      const nextMidnight =
+        getDayBoundsInTimeZone(dateStr, timezone).end.getTime() + 1;
+      const segmentEnd = Math.min(nextMidnight, windowEnd);
 
-    // Clamp to day boundaries
-    const slotStart = availStart < dayStart ? dayStart : availStart;
-    const slotEnd = availEnd > dayEnd ? dayEnd : availEnd;
+      // Days that have hit a booking cap have no new slots (availability is
+      // kept), but guests can still join group meetings with seats left
+      const capReached = isCapReached(dateStr);
+      const candidates =
+        capReached && openMeetings.length === 0
+          ? []
+          : generateSlotCandidates(
+              new Date(segmentStart),
+              new Date(segmentEnd),
+              slotDurationMinutes,
+              options.slotInterval,
+              timezone
+            );
 
-    // Generate potential slots
-    let currentStart = slotStart;
-    while (addMinutes(currentStart, slotDurationMinutes) <= slotEnd) {
-      const currentEnd = addMinutes(currentStart, slotDurationMinutes);
+      for (const candidate of candidates) {
+        // Skip slots in the past, inside the minimum notice or beyond the horizon
+        if (!isBookableStart(candidate.start, earliest, latest)) continue;
 
-      // Skip slots in the past
-      if (currentStart < now) {
-        currentStart = currentEnd;
-        continue;
-      }
+        const seatKey = getSeatKey(candidate.start, candidate.end);
+        if (capReached && !separated.openMeetings.has(seatKey)) continue;
 
-      // Check if this slot is blocked by a booking
-      const hasBookingConflict = bookings.some((booking) => {
-        const bookingStart = parseISO(booking.startTime);
-        const bookingEnd = parseISO(booking.endTime);
-        return currentStart < bookingEnd && currentEnd > bookingStart;
-      });
+        // Buffers extend the meeting on both sides
+        const paddedStart = candidate.start.getTime() - bufferBeforeMs;
+        const paddedEnd = candidate.end.getTime() + bufferAfterMs;
 
-      // Check if this slot is blocked by busy time
-      const hasBusyConflict = busyTimes.some((busy) => {
-        return currentStart < busy.end && currentEnd > busy.start;
-      });
+        // Candidates only move forward, so busy intervals that end before
+        // this one can never conflict again
+        while (
+          busyIndex < timeline.length &&
+          timeline[busyIndex].end <= paddedStart
+        ) {
+          busyIndex++;
+        }
 
-      if (!hasBookingConflict && !hasBusyConflict) {
-        slots.push({
-          start: new Date(currentStart),
-          end: new Date(currentEnd),
-        });
+        const nextBusy = timeline[busyIndex];
+        if (nextBusy && nextBusy.start < paddedEnd) continue;
+
+        // Group meetings with seats left block every slot but their own
+        const overlapsOpenMeeting = openMeetings.some(
+          ([key, meeting]) =>
+            key !== seatKey &&
+            meeting.start.getTime() < paddedEnd &&
+            meeting.end.getTime() > paddedStart
+        );
+        if (!overlapsOpenMeeting) {
+          slots.push(candidate);
+        }
       }
 
-      currentStart = currentEnd;
+      segmentStart = segmentEnd;
     }
   }
 
@@ -184,47 +1090,127 @@ export function computeAvailableSlots(
 }
 
 /**
- * Check if a specific day has at least one available slot
+ * What `computeSlotsInRange` needs to find one host's slots on their own
  */
-function checkDayHasAvailableSlot(
-  availabilityForDate: AvailabilitySlot[],
-  bookings: BookingSlot[],
-  dayStart: Date,
-  dayEnd: Date,
-  slotDurationMinutes: number,
-  busyTimes: BusyTime[]
-): boolean {
-  for (const availSlot of availabilityForDate) {
-    const availStart = parseISO(availSlot.startDateTime);
-    const availEnd = parseISO(availSlot.endDateTime);
-
-    const slotStart = availStart < dayStart ? dayStart : availStart;
-    const slotEnd = availEnd > dayEnd ? dayEnd : availEnd;
-
-    // Generate potential slots
-    let currentStart = slotStart;
-    while (addMinutes(currentStart, slotDurationMinutes) <= slotEnd) {
-      const currentEnd = addMinutes(currentStart, slotDurationMinutes);
-
-      // Check if this slot is blocked by a booking
-      const hasBookingConflict = bookings.some((booking) => {
-        const bookingStart = parseISO(booking.startTime);
-        const bookingEnd = parseISO(booking.endTime);
-        return currentStart < bookingEnd && currentEnd > bookingStart;
-      });
-
-      // Check if this slot is blocked by busy time
-      const hasBusyConflict = busyTimes.some((busy) => {
-        return currentStart < busy.end && currentEnd > busy.start;
-      });
+export type PoolMemberSlotInput = {
+  availability: HostAvailability;
+  bookings: BookingSlot[];
+  busyTimes: BusyTime[];
+  options: SlotOptions;
+};
 
-      if (!hasBookingConflict && !hasBusyConflict) {
-        return true;
-      }
+/**
+ * Compute the slots of a pool of hosts (a round-robin meeting type): the
+ * union of the slots each member could take on their own, with their own
+ * availability, bookings, busy times and caps. A time several members can
+ * take is listed once.
+ *
+ * @returns Slots in chronological order
+ */
+export function computePoolSlotsInRange(
+  members: PoolMemberSlotInput[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  slotDurationMinutes = 30
+): Array<{ start: Date; end: Date }> {
+  const slotsByStart = new Map<number, { start: Date; end: Date }>();
 
-      currentStart = currentEnd;
+  for (const member of members) {
+    const slots = computeSlotsInRange(
+      member.availability,
+      member.bookings,
+      rangeStart,
+      rangeEnd,
+      slotDurationMinutes,
+      member.busyTimes,
+      member.options
+    );
+    for (const slot of slots) {
+      slotsByStart.set(slot.start.getTime(), slot);
     }
   }
 
-  return false;
-}
\ No newline at end of file
+  return [...slotsByStart.values()].sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+}
+
+/**
+ * Compute available dates from host availability and existing bookings.
+ * This is a pure function that doesn't fetch any data. Days run from
+ * midnight to midnight in the host's timezone, wherever the server runs.
+ *
+ * @param availability - Host's blocks, recurring rules and date overrides
+ * @param bookings - Existing confirmed bookings
+ * @param startDate - Range start
+ * @param endDate - Range end (its whole day is included)
+ * @param slotDurationMinutes - Duration of each slot
+ * @param busyTimes - Optional Google Calendar busy times
+ * @param options - Meeting type settings such as buffers
+ * @returns Array of date strings in YYYY-MM-DD format (host's timezone)
+ */
+export function computeAvailableDates(
+  availability: HostAvailability,
+  bookings: BookingSlot[],
+  startDate: Date,
+  endDate: Date,
+  slotDurationMinutes = 30,
+  busyTimes: BusyTime[] = [],
+  options: SlotOptions = {}
+): string[] {
+  const { timezone } = availability;
+  const rangeStart = getDayBoundsInTimeZone(
+    toDateInTimeZone(startDate, timezone),
+    timezone
+  ).start;
+  const lastDay = getDayBoundsInTimeZone(
+    toDateInTimeZone(endDate, timezone),
+    timezone
+  );
+  const rangeEnd = new Date(lastDay.end.getTime() + 1);
+
+  const slots = computeSlotsInRange(
+    availability,
+    bookings,
+    rangeStart,
+    rangeEnd,
+    slotDurationMinutes,
+    busyTimes,
+    options
+  );
+
+  // Slots are chronological, so dates come out sorted
+  const dates = new Set(
+    slots.map((slot) => toDateInTimeZone(slot.start, timezone))
+  );
+  return [...dates];
+}
+
+/**
+ * Compute available time slots for the host's calendar day containing `date`.
+ * This is a pure function that doesn't fetch any data.
+ */
+export function computeAvailableSlots(
+  availability: HostAvailability,
+  bookings: BookingSlot[],
+  date: Date,
+  slotDurationMinutes = 30,
+  busyTimes: BusyTime[] = [],
+  options: SlotOptions = {}
+): Array<{ start: Date; end: Date }> {
+  const { timezone } = availability;
+  const { start: dayStart, end: dayEnd } = getDayBoundsInTimeZone(
+    toDateInTimeZone(date, timezone),
+    timezone
+  );
+
+  return computeSlotsInRange(
+    availability,
+    bookings,
+    dayStart,
+    new Date(dayEnd.getTime() + 1),
+    slotDurationMinutes,
+    busyTimes,
+    options
+  );
+}
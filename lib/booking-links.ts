@@ -0,0 +1,41 @@
+/**
+ * One-off booking links: tokenized URLs a host hands out that can be used
+ * once or until a date.
+ */
+
+export type BookingLinkStatus = "valid" | "used" | "expired" | "invalid";
+
+/** A booking link as stored (any field may be unset) */
+export type StoredBookingLink = {
+  singleUse: boolean | null;
+  expiresAt: string | null;
+  usedAt: string | null;
+} | null;
+
+/**
+ * Whether a booking link can still be booked with. Links without a
+ * `singleUse` flag are single use.
+ */
+export function getBookingLinkStatus(
+  link: StoredBookingLink | undefined,
+  now = new Date()
+): BookingLinkStatus {
+  if (!link) return "invalid";
+  if (link.singleUse !== false && link.usedAt) return "used";
+  if (link.expiresAt && new Date(link.expiresAt) <= now) return "expired";
+  return "valid";
+}
+
+/** Why a booking link can't be used, for guests */
+export function describeBookingLinkStatus(status: BookingLinkStatus): string {
+  switch (status) {
+    case "used":
+      return "This booking link has already been used.";
+    case "expired":
+      return "This booking link has expired.";
+    case "invalid":
+      return "This booking link is not valid.";
+    default:
+      return "";
+  }
+}
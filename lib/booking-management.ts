@@ -0,0 +1,39 @@
+/**
+ * Guest self-service: the secret links in a booking's invite and
+ * confirmation that let the guest reschedule or cancel it.
+ */
+
+/**
+ * A new, unguessable token for a booking's links. Only the booking stores
+ * it, so the links work for that booking alone.
+ */
+export function createManageToken(): string {
+  return crypto.randomUUID().replace(/-/g, "");
+}
+
+/** Page where the guest sees their booking and can cancel it */
+export function getCancelBookingPath(manageToken: string): string {
+  return `/book/manage/${manageToken}`;
+}
+
+/** Page that takes the guest to a new time for their booking */
+export function getRescheduleBookingPath(manageToken: string): string {
+  return `/book/manage/${manageToken}/reschedule`;
+}
+
+/** Guests can move or cancel a booking until it starts */
+export function isBookingChangeable(
+  startTime: string | Date,
+  now = new Date()
+): boolean {
+  return new Date(startTime) > now;
+}
+
+/** Why a guest's link can't be used, for guests */
+export function describeUnchangeableBooking(
+  booking: { startTime: string } | null | undefined
+): string {
+  return booking
+    ? "This meeting has already started, so it can't be changed any more."
+    : "This booking was cancelled or the link is not valid.";
+}
@@ -0,0 +1,62 @@
+/**
+ * Where a booking is in its life: booked, moved, called off or over.
+ * Bookings are never deleted, so cancelled and moved meetings keep their
+ * history. Cancelled, rescheduled and declined bookings no longer hold their
+ * time, and the booking queries leave them out.
+ */
+
+export type BookingStatus =
+  | "pending"
+  | "confirmed"
+  | "cancelled"
+  | "rescheduled"
+  | "declined"
+  | "noShow"
+  | "completed";
+
+/** Who called a meeting off */
+export type BookingCanceller = "host" | "guest";
+
+export const BOOKING_STATUS_OPTIONS: Array<{
+  value: BookingStatus;
+  label: string;
+}> = [
+  { value: "pending", label: "Pending" },
+  { value: "confirmed", label: "Confirmed" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "rescheduled", label: "Rescheduled" },
+  { value: "declined", label: "Declined" },
+  { value: "noShow", label: "No-show" },
+  { value: "completed", label: "Completed" },
+];
+
+export const BOOKING_CANCELLER_OPTIONS: Array<{
+  value: BookingCanceller;
+  label: string;
+}> = [
+  { value: "host", label: "Host" },
+  { value: "guest", label: "Guest" },
+];
+
+/**
+ * Fields that call a booking off, for patching it: "cancelled" when the
+ * meeting was cancelled, "declined" when the guest turned the invite down
+ */
+export function getCancellationFields(
+  status: "cancelled" | "declined",
+  cancelledBy: BookingCanceller,
+  reason?: string,
+  now = new Date()
+): {
+  status: BookingStatus;
+  statusChangedAt: string;
+  cancelledBy: BookingCanceller;
+  cancellationReason?: string;
+} {
+  return {
+    status,
+    statusChangedAt: now.toISOString(),
+    cancelledBy,
+    ...(reason?.trim() && { cancellationReason: reason.trim() }),
+  };
+}
@@ -6,8 +6,8 @@
  */
 
 import {
-  getBookingAttendeeStatuses,
   type BookingStatuses,
+  getBookingAttendeeStatuses,
 } from "@/lib/actions/calendar";
 import type { AttendeeStatus } from "@/lib/google-calendar";
 import type {
@@ -52,7 +52,7 @@ export async function processBookingsWithStatuses<
   activeBookings: ProcessedBooking<T>[];
 }> {
   // Fetch attendee statuses for bookings with Google events
-  // This also deletes any bookings whose Google Calendar events are cancelled/deleted
+  // This also marks bookings whose Google Calendar events are cancelled/deleted
   const statuses = await getBookingAttendeeStatuses(
     bookings
       .filter((b) => b.googleEventId)
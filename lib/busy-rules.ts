@@ -0,0 +1,51 @@
+/**
+ * Per-account rules for which Google Calendar events count as busy.
+ */
+
+export type BusyRuleKey =
+  | "allDay"
+  | "tentative"
+  | "free"
+  | "declined"
+  | "workingLocation"
+  | "outOfOffice";
+
+export type BusyRules = Record<BusyRuleKey, boolean>;
+
+/** Stored rules as returned by Sanity (any field may be unset) */
+export type StoredBusyRules = Partial<Record<BusyRuleKey, boolean | null>>;
+
+export const DEFAULT_BUSY_RULES: BusyRules = {
+  allDay: true,
+  tentative: true,
+  free: false,
+  declined: false,
+  workingLocation: false,
+  outOfOffice: true,
+};
+
+export const BUSY_RULE_OPTIONS: Array<{
+  key: BusyRuleKey;
+  label: string;
+}> = [
+  { key: "allDay", label: "All-day events" },
+  { key: "tentative", label: "Tentative (maybe) invites" },
+  { key: "free", label: "Events marked as free" },
+  { key: "declined", label: "Declined invites" },
+  { key: "workingLocation", label: "Working location" },
+  { key: "outOfOffice", label: "Out of office" },
+];
+
+/**
+ * Fill unset rules with their defaults.
+ */
+export function resolveBusyRules(
+  rules: StoredBusyRules | null | undefined
+): BusyRules {
+  const resolved = { ...DEFAULT_BUSY_RULES };
+  for (const { key } of BUSY_RULE_OPTIONS) {
+    const value = rules?.[key];
+    if (typeof value === "boolean") resolved[key] = value;
+  }
+  return resolved;
+}
@@ -0,0 +1,41 @@
+/**
+ * Meeting type durations.
+ */
+
+/** Shortest and longest meeting a host can offer, in minutes */
+export const MIN_MEETING_DURATION = 5;
+export const MAX_MEETING_DURATION = 720;
+
+/**
+ * Whether a duration (in minutes) is a whole number within the allowed range.
+ */
+export function isValidDuration(minutes: number): boolean {
+  return (
+    Number.isInteger(minutes) &&
+    minutes >= MIN_MEETING_DURATION &&
+    minutes <= MAX_MEETING_DURATION
+  );
+}
+
+/**
+ * All durations a guest can pick for a meeting type, shortest first: the
+ * default duration plus any other durations the host offers.
+ */
+export function getDurationChoices(
+  duration: number,
+  durationOptions?: number[] | null
+): number[] {
+  return [...new Set([duration, ...(durationOptions ?? [])])].sort(
+    (a, b) => a - b
+  );
+}
+
+/**
+ * Format a duration for display, e.g. "45 min" or "1 h 30 min".
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
@@ -1,6 +1,6 @@
 import { auth, clerkClient } from "@clerk/nextjs/server";
+import { endOfMonth, startOfMonth } from "date-fns";
 import { client } from "@/sanity/lib/client";
-import { startOfMonth, endOfMonth } from "date-fns";
 
 export type PlanType = "free" | "starter" | "pro";
 
@@ -57,6 +57,7 @@ const HOST_CLERK_ID_BY_SLUG_QUERY = `*[
 // Query to count bookings for a host in a date range
 const COUNT_HOST_BOOKINGS_QUERY = `count(*[
   _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
   && host->slug.current == $hostSlug
   && startTime >= $monthStart
   && startTime < $monthEnd
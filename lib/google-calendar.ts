@@ -1,9 +1,14 @@
-import { google } from "googleapis";
-import { writeClient } from "@/sanity/lib/writeClient";
+import { fromZonedTime } from "date-fns-tz";
+import { type calendar_v3, google } from "googleapis";
+import type { AvailabilitySlot } from "@/lib/availability";
+import { type BusyRules, resolveBusyRules } from "@/lib/busy-rules";
 import { client } from "@/sanity/lib/client";
+import { writeClient } from "@/sanity/lib/writeClient";
+import { OTHER_BOOKINGS_ON_EVENT_COUNT_QUERY } from "@/sanity/queries/bookings";
 import {
-  USER_ID_BY_ACCOUNT_KEY_QUERY,
+  type CalendarAccountWithTokens,
   type ConnectedAccountWithTokens,
+  USER_ID_BY_ACCOUNT_KEY_QUERY,
 } from "@/sanity/queries/users";
 
 // OAuth2 client configuration
@@ -125,6 +130,7 @@ async function updateAccountTokens(
  * Named to distinguish from UI CalendarEvent in components/calendar/types.ts
  */
 export type GoogleCalendarEvent = {
+  id: string | null;
   start: Date;
   end: Date;
   title: string;
@@ -132,11 +138,57 @@ export type GoogleCalendarEvent = {
 };
 
 /**
- * Fetch calendar events from connected accounts.
+ * Decide whether a Google event blocks time, according to the account's rules.
+ * Event types take precedence over the attendee response (or a tentative
+ * event), which takes precedence over transparency; the all-day rule applies
+ * last.
+ */
+function isBusyEvent(event: calendar_v3.Schema$Event, rules: BusyRules) {
+  if (event.status === "cancelled") return false;
+
+  if (event.eventType === "workingLocation") return rules.workingLocation;
+  if (event.eventType === "outOfOffice") return rules.outOfOffice;
+
+  const self = event.attendees?.find((a) => a.self);
+  if (self?.responseStatus === "declined" && !rules.declined) return false;
+  // Tentative events, and events the account only tentatively accepted
+  const isTentative =
+    event.status === "tentative" || self?.responseStatus === "tentative";
+  if (isTentative && !rules.tentative) return false;
+
+  if (event.transparency === "transparent" && !rules.free) return false;
+
+  const isAllDay = !event.start?.dateTime;
+  if (isAllDay && !rules.allDay) return false;
+
+  return true;
+}
+
+/**
+ * Resolve an event boundary to an instant. All-day events only carry a date,
+ * which starts at midnight in the calendar's timezone.
+ */
+function getEventTime(
+  time: calendar_v3.Schema$EventDateTime | undefined,
+  calendarTimezone: string
+): Date | null {
+  if (time?.dateTime) return new Date(time.dateTime);
+  if (time?.date) {
+    return fromZonedTime(
+      `${time.date}T00:00:00`,
+      time.timeZone ?? calendarTimezone
+    );
+  }
+  return null;
+}
+
+/**
+ * Fetch busy calendar events from connected accounts.
  * This is the core function used by both authenticated and public busy time fetchers.
+ * Each account's busy rules decide which events are included.
  */
 export async function fetchCalendarEvents(
-  accounts: ConnectedAccountWithTokens[],
+  accounts: CalendarAccountWithTokens[],
   startDate: Date,
   endDate: Date
 ): Promise<GoogleCalendarEvent[]> {
@@ -145,6 +197,8 @@ export async function fetchCalendarEvents(
   for (const account of accounts) {
     if (!account.accessToken || !account.refreshToken) continue;
 
+    const rules = resolveBusyRules(account.busyRules);
+
     try {
       const calendar = await getCalendarClient(account);
       const { data } = await calendar.events.list({
@@ -154,13 +208,19 @@ export async function fetchCalendarEvents(
         singleEvents: true,
         orderBy: "startTime",
       });
+      const calendarTimezone = data.timeZone ?? "UTC";
 
       for (const event of data.items ?? []) {
-        // Skip all-day events (they have date instead of dateTime)
-        if (!event.start?.dateTime || !event.end?.dateTime) continue;
+        if (!isBusyEvent(event, rules)) continue;
+
+        const start = getEventTime(event.start, calendarTimezone);
+        const end = getEventTime(event.end, calendarTimezone);
+        if (!start || !end) continue;
+
         events.push({
-          start: new Date(event.start.dateTime),
-          end: new Date(event.end.dateTime),
+          id: event.id ?? null,
+          start,
+          end,
           title: event.summary ?? "Busy",
           accountEmail: account.email,
         });
@@ -173,6 +233,72 @@ export async function fetchCalendarEvents(
   return events;
 }
 
+/**
+ * A calendar the connected account can read, for picking an availability source
+ */
+export type GoogleCalendarListEntry = {
+  id: string;
+  name: string;
+  primary: boolean;
+};
+
+// List the calendars visible to a connected account
+export async function listCalendars(
+  account: ConnectedAccountWithTokens
+): Promise<GoogleCalendarListEntry[]> {
+  const calendar = await getCalendarClient(account);
+  const { data } = await calendar.calendarList.list({
+    minAccessRole: "reader",
+  });
+
+  return (data.items ?? [])
+    .filter((entry) => entry.id)
+    .map((entry) => ({
+      id: entry.id as string,
+      name: entry.summaryOverride ?? entry.summary ?? (entry.id as string),
+      primary: entry.primary ?? false,
+    }));
+}
+
+/**
+ * Fetch the events of a designated availability calendar as availability
+ * windows. Every non-cancelled event is an open window, whatever its
+ * transparency; all-day events open the whole day.
+ */
+export async function fetchAvailabilityWindows(
+  account: ConnectedAccountWithTokens,
+  calendarId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<AvailabilitySlot[]> {
+  const calendar = await getCalendarClient(account);
+  const { data } = await calendar.events.list({
+    calendarId,
+    timeMin: startDate.toISOString(),
+    timeMax: endDate.toISOString(),
+    singleEvents: true,
+    orderBy: "startTime",
+  });
+  const calendarTimezone = data.timeZone ?? "UTC";
+
+  const windows: AvailabilitySlot[] = [];
+  for (const event of data.items ?? []) {
+    if (event.status === "cancelled") continue;
+
+    const start = getEventTime(event.start, calendarTimezone);
+    const end = getEventTime(event.end, calendarTimezone);
+    if (!start || !end || end <= start) continue;
+
+    windows.push({
+      _key: `gcal-${event.id ?? start.getTime()}`,
+      startDateTime: start.toISOString(),
+      endDateTime: end.toISOString(),
+    });
+  }
+
+  return windows;
+}
+
 // Revoke Google OAuth token
 export async function revokeGoogleToken(accessToken: string) {
   try {
@@ -185,6 +311,94 @@ export async function revokeGoogleToken(accessToken: string) {
   }
 }
 
+// Add a guest to an existing event (a group meeting someone else booked)
+export async function addEventAttendee(
+  account: ConnectedAccountWithTokens,
+  eventId: string,
+  email: string
+): Promise<void> {
+  const calendar = await getCalendarClient(account);
+  const { data } = await calendar.events.get({
+    calendarId: "primary",
+    eventId,
+  });
+  const attendees = data.attendees ?? [];
+  if (attendees.some((a) => a.email?.toLowerCase() === email.toLowerCase())) {
+    return;
+  }
+
+  await calendar.events.patch({
+    calendarId: "primary",
+    eventId,
+    sendUpdates: "all", // Sends the invite to the new guest
+    requestBody: { attendees: [...attendees, { email }] },
+  });
+}
+
+// Remove a guest from an event that other guests still attend
+export async function removeEventAttendee(
+  account: ConnectedAccountWithTokens,
+  eventId: string,
+  email: string
+): Promise<void> {
+  const calendar = await getCalendarClient(account);
+  const { data } = await calendar.events.get({
+    calendarId: "primary",
+    eventId,
+  });
+
+  await calendar.events.patch({
+    calendarId: "primary",
+    eventId,
+    sendUpdates: "all",
+    requestBody: {
+      attendees: (data.attendees ?? []).filter(
+        (a) => a.email?.toLowerCase() !== email.toLowerCase()
+      ),
+    },
+  });
+}
+
+/**
+ * Take a booking off its Google Calendar event. Guests of a group meeting are
+ * removed from the event while other guests still attend it; otherwise the
+ * event is cancelled, with the note (e.g. the guest's reason) as its
+ * description if one is given.
+ */
+export async function releaseBookingEvent(
+  account: ConnectedAccountWithTokens,
+  bookingId: string,
+  googleEventId: string,
+  guestEmail: string,
+  note?: string
+): Promise<void> {
+  const otherBookings = await writeClient.fetch(
+    OTHER_BOOKINGS_ON_EVENT_COUNT_QUERY,
+    { googleEventId, bookingId }
+  );
+  if (otherBookings > 0) {
+    await removeEventAttendee(account, googleEventId, guestEmail);
+    return;
+  }
+
+  const calendar = await getCalendarClient(account);
+  if (note) {
+    await calendar.events.patch({
+      calendarId: "primary",
+      eventId: googleEventId,
+      sendUpdates: "all", // Sends cancellation emails
+      requestBody: { status: "cancelled", description: note },
+    });
+    return;
+  }
+
+  await calendar.events.delete({
+    calendarId: "primary",
+    eventId: googleEventId,
+    sendUpdates: "all", // Sends cancellation emails
+  });
+}
+
 // Attendee response status type
 export type AttendeeStatus =
   | "accepted"
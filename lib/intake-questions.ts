@@ -0,0 +1,183 @@
+/**
+ * Intake questions a host asks guests when they book a meeting type.
+ */
+
+export type IntakeQuestionType =
+  | "shortText"
+  | "longText"
+  | "singleChoice"
+  | "multiChoice"
+  | "phone"
+  | "checkbox";
+
+export type IntakeQuestion = {
+  _key: string;
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  /** Choices for single and multiple choice questions */
+  options: string[];
+};
+
+/** Stored question as returned by Sanity (any field may be unset) */
+export type StoredIntakeQuestion = {
+  _key: string;
+  label: string | null;
+  type: IntakeQuestionType | null;
+  required: boolean | null;
+  options: string[] | null;
+};
+
+/** Guest's answers as entered, by question _key */
+export type IntakeAnswerValues = Record<string, string | string[] | boolean>;
+
+/** Answer as stored on the booking, with the question as it was asked */
+export type IntakeAnswer = {
+  _key: string;
+  question: string;
+  answer: string;
+};
+
+export const INTAKE_QUESTION_TYPES: Array<{
+  value: IntakeQuestionType;
+  label: string;
+}> = [
+  { value: "shortText", label: "Short text" },
+  { value: "longText", label: "Long text" },
+  { value: "singleChoice", label: "Single choice" },
+  { value: "multiChoice", label: "Multiple choice" },
+  { value: "phone", label: "Phone number" },
+  { value: "checkbox", label: "Checkbox" },
+];
+
+export const MAX_SHORT_ANSWER_LENGTH = 200;
+export const MAX_LONG_ANSWER_LENGTH = 2000;
+
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+
+export function isChoiceQuestion(type: IntakeQuestionType): boolean {
+  return type === "singleChoice" || type === "multiChoice";
+}
+
+/**
+ * Fill unset fields of stored questions and drop ones without a label.
+ */
+export function resolveIntakeQuestions(
+  questions: StoredIntakeQuestion[] | null | undefined
+): IntakeQuestion[] {
+  return (questions ?? []).flatMap((question) =>
+    question.label?.trim()
+      ? [
+          {
+            _key: question._key,
+            label: question.label.trim(),
+            type: question.type ?? "shortText",
+            required: question.required ?? false,
+            options: question.options ?? [],
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * Whether a phone number looks dialable: digits with optional +, spaces,
+ * dashes, dots and parentheses.
+ */
+export function isValidPhone(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  return PHONE_PATTERN.test(value) && digits.length >= 6 && digits.length <= 15;
+}
+
+/**
+ * Check a guest's answers against the questions and turn them into the
+ * answers stored on the booking. Throws an Error naming the first question
+ * that isn't answered correctly; unanswered optional questions are skipped.
+ */
+export function validateIntakeAnswers(
+  questions: IntakeQuestion[],
+  values: IntakeAnswerValues
+): IntakeAnswer[] {
+  const answers: IntakeAnswer[] = [];
+
+  for (const question of questions) {
+    const answer = getAnswerText(question, values[question._key]);
+    if (!answer) {
+      if (question.required) {
+        throw new Error(`Please answer "${question.label}"`);
+      }
+      continue;
+    }
+
+    answers.push({ _key: question._key, question: question.label, answer });
+  }
+
+  return answers;
+}
+
+// The answer to one question as text ("" when unanswered), throwing if the
+// value isn't a valid answer
+function getAnswerText(
+  question: IntakeQuestion,
+  value: string | string[] | boolean | undefined
+): string {
+  const invalid = () => new Error(`Invalid answer to "${question.label}"`);
+
+  switch (question.type) {
+    case "checkbox":
+      if (value !== undefined && typeof value !== "boolean") throw invalid();
+      // Only a ticked box counts as an answer, so required means "must agree"
+      return value ? "Yes" : "";
+
+    case "multiChoice": {
+      if (value === undefined) return "";
+      if (!Array.isArray(value)) throw invalid();
+      if (!value.every((choice) => question.options.includes(choice))) {
+        throw invalid();
+      }
+      // Keep the host's order of the choices
+      return question.options
+        .filter((option) => value.includes(option))
+        .join(", ");
+    }
+
+    case "singleChoice": {
+      if (value === undefined || value === "") return "";
+      if (typeof value !== "string" || !question.options.includes(value)) {
+        throw invalid();
+      }
+      return value;
+    }
+
+    default: {
+      if (value === undefined) return "";
+      if (typeof value !== "string") throw invalid();
+
+      const text = value.trim();
+      const maxLength =
+        question.type === "longText"
+          ? MAX_LONG_ANSWER_LENGTH
+          : MAX_SHORT_ANSWER_LENGTH;
+      if (text.length > maxLength) {
+        throw new Error(
+          `Answer to "${question.label}" is too long (max ${maxLength} characters)`
+        );
+      }
+      if (text && question.type === "phone" && !isValidPhone(text)) {
+        throw new Error(
+          `Please enter a valid phone number for "${question.label}"`
+        );
+      }
+      return text;
+    }
+  }
+}
+
+/**
+ * Answers as "Question: answer" lines (for calendar event descriptions).
+ */
+export function formatIntakeAnswers(answers: IntakeAnswer[]): string {
+  return answers
+    .map(({ question, answer }) => `${question}: ${answer}`)
+    .join("\n");
+}
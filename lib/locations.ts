@@ -0,0 +1,172 @@
+/**
+ * Where a meeting type's meetings take place.
+ */
+
+export type MeetingLocationType =
+  | "googleMeet"
+  | "jitsi"
+  | "customVideo"
+  | "inPerson"
+  | "guestPhone"
+  | "hostPhone";
+
+/** A meeting type's location setting */
+export type MeetingLocation = {
+  type: MeetingLocationType;
+  /** Street address for in-person meetings */
+  address?: string;
+  /** Host's number for phone calls the guest makes */
+  phone?: string;
+  /** Link for a custom video meeting */
+  url?: string;
+  /** Server Jitsi rooms are created on */
+  jitsiDomain?: string;
+};
+
+/** Stored setting as returned by Sanity (any field may be unset) */
+export type StoredMeetingLocation = {
+  type: MeetingLocationType | null;
+  address: string | null;
+  phone: string | null;
+  url: string | null;
+  jitsiDomain: string | null;
+} | null;
+
+/** Where a single booking takes place, as stored on the booking */
+export type BookingLocation = {
+  type: MeetingLocationType;
+  /** Address, phone number or meeting link (empty when not known yet) */
+  value: string;
+};
+
+export const DEFAULT_JITSI_DOMAIN = "meet.jit.si";
+
+export const LOCATION_TYPE_OPTIONS: Array<{
+  value: MeetingLocationType;
+  label: string;
+}> = [
+  { value: "googleMeet", label: "Google Meet" },
+  { value: "jitsi", label: "Jitsi Meet" },
+  { value: "customVideo", label: "Custom video link" },
+  { value: "inPerson", label: "In person" },
+  { value: "guestPhone", label: "Phone call (I call the guest)" },
+  { value: "hostPhone", label: "Phone call (guest calls me)" },
+];
+
+const DOMAIN_PATTERN = /^[a-z0-9.-]+\.[a-z]{2,}(:\d+)?$/i;
+
+/**
+ * Fill unset fields of a stored location. Meeting types without one use
+ * Google Meet.
+ */
+export function resolveMeetingLocation(
+  location: StoredMeetingLocation | undefined
+): MeetingLocation {
+  return {
+    type: location?.type ?? "googleMeet",
+    address: location?.address?.trim() || undefined,
+    phone: location?.phone?.trim() || undefined,
+    url: location?.url?.trim() || undefined,
+    jitsiDomain: location?.jitsiDomain?.trim() || DEFAULT_JITSI_DOMAIN,
+  };
+}
+
+/**
+ * Check a location setting has the details its type needs. Throws an Error
+ * describing the first problem.
+ */
+export function assertValidMeetingLocation(location: MeetingLocation): void {
+  switch (location.type) {
+    case "inPerson":
+      if (!location.address?.trim()) {
+        throw new Error("Enter the address for in-person meetings");
+      }
+      break;
+    case "hostPhone":
+      if (!location.phone?.trim()) {
+        throw new Error("Enter the phone number guests should call");
+      }
+      break;
+    case "customVideo":
+      if (!isHttpUrl(location.url)) {
+        throw new Error("Enter a valid video meeting link (https://…)");
+      }
+      break;
+    case "jitsi":
+      if (
+        location.jitsiDomain &&
+        !DOMAIN_PATTERN.test(location.jitsiDomain.trim())
+      ) {
+        throw new Error("Enter a valid Jitsi server, e.g. meet.jit.si");
+      }
+      break;
+    case "googleMeet":
+    case "guestPhone":
+      break;
+    default:
+      throw new Error(`Invalid location type: ${location.type}`);
+  }
+}
+
+function isHttpUrl(value: string | undefined): boolean {
+  if (!value) return false;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A new, hard-to-guess Jitsi room link for one booking.
+ */
+export function createJitsiRoomUrl(domain = DEFAULT_JITSI_DOMAIN): string {
+  const room = crypto.randomUUID().replace(/-/g, "");
+  return `https://${domain}/${room}`;
+}
+
+/**
+ * What guests are told about a meeting type's location before booking.
+ * Phone numbers and links are only shared once the meeting is booked.
+ */
+export function describeMeetingLocation(location: MeetingLocation): string {
+  switch (location.type) {
+    case "inPerson":
+      return location.address ? `In person · ${location.address}` : "In person";
+    case "guestPhone":
+      return "Phone call · the host will call you";
+    case "hostPhone":
+      return "Phone call · you call the host";
+    case "customVideo":
+      return "Video call · link sent when you book";
+    case "jitsi":
+      return "Jitsi Meet video call";
+    default:
+      return "Google Meet video call";
+  }
+}
+
+/**
+ * What guests and hosts are told about a booking's location, e.g.
+ * "Call +1 555 0100" or "Join at https://meet.jit.si/…".
+ */
+export function describeBookingLocation(location: BookingLocation): string {
+  switch (location.type) {
+    case "inPerson":
+      return location.value;
+    case "guestPhone":
+      return `Host calls ${location.value}`;
+    case "hostPhone":
+      return `Call ${location.value}`;
+    default:
+      return location.value
+        ? `Join at ${location.value}`
+        : "Video link sent in the calendar invite";
+  }
+}
+
+/** Whether a location type is a video call that guests join by link */
+export function isVideoLocation(type: MeetingLocationType): boolean {
+  return type === "googleMeet" || type === "jitsi" || type === "customVideo";
+}
@@ -0,0 +1,152 @@
+/**
+ * Who hosts a meeting type's meetings: the host alone, the host together
+ * with co-hosts who all attend, or one member of a pool of hosts, taking
+ * turns.
+ */
+
+export type SchedulingType = "individual" | "collective" | "roundRobin";
+
+/** How a round-robin meeting type picks whose turn it is */
+export type RoundRobinStrategy =
+  | "leastRecentlyBooked"
+  | "fewestThisWeek"
+  | "weighted";
+
+/** What an invited host joins a meeting type as, once they accept */
+export type HostRole = "coHost" | "roundRobinHost";
+
+/** One of the hosts a round-robin meeting type's bookings are shared among */
+export type RoundRobinCandidate = {
+  hostId: string;
+  /** Higher priorities get proportionally more bookings ("weighted") */
+  priority: number;
+  /** When the host was last booked for the meeting type (ISO), if ever */
+  lastBookedAt: string | null;
+  /** The host's bookings of the meeting type in the week of the meeting */
+  weekBookings: number;
+};
+
+/** A host in a round-robin pool, as edited by the meeting type's owner */
+export type RoundRobinHostInput = {
+  email: string;
+  priority: number;
+};
+
+export const MIN_ROUND_ROBIN_PRIORITY = 1;
+export const MAX_ROUND_ROBIN_PRIORITY = 10;
+export const DEFAULT_ROUND_ROBIN_PRIORITY = 1;
+
+export const SCHEDULING_TYPE_OPTIONS: Array<{
+  value: SchedulingType;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "individual",
+    label: "One host",
+    description: "Guests meet you.",
+  },
+  {
+    value: "collective",
+    label: "Collective",
+    description:
+      "Guests meet you and your co-hosts together, at times everyone is free.",
+  },
+  {
+    value: "roundRobin",
+    label: "Round robin",
+    description:
+      "Each booking goes to one host from a pool, whoever is free and next in line.",
+  },
+];
+
+export const ROUND_ROBIN_STRATEGY_OPTIONS: Array<{
+  value: RoundRobinStrategy;
+  label: string;
+}> = [
+  { value: "leastRecentlyBooked", label: "Least recently booked" },
+  { value: "fewestThisWeek", label: "Fewest bookings this week" },
+  { value: "weighted", label: "Weighted priority" },
+];
+
+export const HOST_ROLE_OPTIONS: Array<{ value: HostRole; label: string }> = [
+  { value: "coHost", label: "Co-host" },
+  { value: "roundRobinHost", label: "Round-robin host" },
+];
+
+/** Meeting types made before scheduling types existed have one host */
+export function resolveSchedulingType(
+  value: string | null | undefined
+): SchedulingType {
+  return SCHEDULING_TYPE_OPTIONS.some((option) => option.value === value)
+    ? (value as SchedulingType)
+    : "individual";
+}
+
+/** Meeting types without a strategy go to the least recently booked host */
+export function resolveRoundRobinStrategy(
+  value: string | null | undefined
+): RoundRobinStrategy {
+  return ROUND_ROBIN_STRATEGY_OPTIONS.some((option) => option.value === value)
+    ? (value as RoundRobinStrategy)
+    : "leastRecentlyBooked";
+}
+
+/**
+ * Whether a meeting type can take bookings with the hosts who accepted so
+ * far. Collective meeting types wait until every invited co-host has
+ * answered and at least one accepted, and round-robin meeting types need
+ * someone in the pool, so neither is ever booked with the owner alone.
+ */
+export function hasBookableHosts(meetingType: {
+  schedulingType: string | null;
+  coHosts: unknown[] | null;
+  invitedCoHostCount: number | null;
+  roundRobinHosts: Array<{ host: unknown }> | null;
+}): boolean {
+  switch (resolveSchedulingType(meetingType.schedulingType)) {
+    case "collective":
+      return (
+        (meetingType.coHosts ?? []).some(Boolean) &&
+        !meetingType.invitedCoHostCount
+      );
+    case "roundRobin":
+      return (meetingType.roundRobinHosts ?? []).some((entry) => entry.host);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Order a round-robin pool by whose turn it is, first in line first. Ties
+ * go to the host booked least recently, then to the higher priority.
+ *
+ * - leastRecentlyBooked: hosts never booked first, then by last booking
+ * - fewestThisWeek: fewest bookings in the week of the meeting
+ * - weighted: fewest bookings this week per point of priority, so a host
+ *   with priority 2 takes twice as many meetings as one with priority 1
+ */
+export function rankRoundRobinHosts(
+  candidates: RoundRobinCandidate[],
+  strategy: RoundRobinStrategy
+): RoundRobinCandidate[] {
+  const lastBooked = (candidate: RoundRobinCandidate) =>
+    candidate.lastBookedAt ? new Date(candidate.lastBookedAt).getTime() : 0;
+  const load = (candidate: RoundRobinCandidate) => {
+    switch (strategy) {
+      case "fewestThisWeek":
+        return candidate.weekBookings;
+      case "weighted":
+        return candidate.weekBookings / Math.max(candidate.priority, 1);
+      default:
+        return lastBooked(candidate);
+    }
+  };
+
+  return [...candidates].sort(
+    (a, b) =>
+      load(a) - load(b) ||
+      lastBooked(a) - lastBooked(b) ||
+      b.priority - a.priority
+  );
+}
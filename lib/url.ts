@@ -17,15 +17,119 @@ export function getBaseUrl(): string {
   return "http://localhost:3000";
 }
 
+// Latin letters that don't decompose into a base letter plus accents
+const LATIN_SPECIAL: Record<string, string> = {
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  ł: "l",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ı: "i",
+};
+
+const CYRILLIC: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  д: "d",
+  е: "e",
+  ё: "e",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+  є: "ye",
+  і: "i",
+  ї: "yi",
+  ґ: "g",
+};
+
+const GREEK: Record<string, string> = {
+  α: "a",
+  β: "v",
+  γ: "g",
+  δ: "d",
+  ε: "e",
+  ζ: "z",
+  η: "i",
+  θ: "th",
+  ι: "i",
+  κ: "k",
+  λ: "l",
+  μ: "m",
+  ν: "n",
+  ξ: "x",
+  ο: "o",
+  π: "p",
+  ρ: "r",
+  σ: "s",
+  ς: "s",
+  τ: "t",
+  υ: "y",
+  φ: "f",
+  χ: "ch",
+  ψ: "ps",
+  ω: "o",
+};
+
+const TRANSLITERATIONS: Record<string, string> = {
+  ...LATIN_SPECIAL,
+  ...CYRILLIC,
+  ...GREEK,
+};
+
+/**
+ * Transliterate text to ASCII where possible: accents are stripped
+ * (é → e) and Cyrillic and Greek letters are romanized. Characters
+ * without a known romanization are left as they are.
+ */
+export function transliterate(text: string): string {
+  const unaccented = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+  return Array.from(unaccented)
+    .map((char) => TRANSLITERATIONS[char] ?? char)
+    .join("");
+}
+
 /**
  * Generate a URL-safe slug from a string.
- * Converts to lowercase, replaces non-alphanumeric characters with hyphens,
- * and trims leading/trailing hyphens.
+ * Transliterates to ASCII, converts to lowercase, replaces non-alphanumeric
+ * characters with hyphens, and trims leading/trailing hyphens.
+ * Returns an empty string when nothing can be romanized (e.g. Chinese).
  */
 export function generateSlug(text: string): string {
-  return text
-    .toLowerCase()
+  return transliterate(text)
     .replace(/[^a-z0-9]+/g, "-")
     .replace(/^-|-$/g, "")
-    .substring(0, 50);
-}
\ No newline at end of file
+    .substring(0, 50)
+    .replace(/-$/, "");
+}
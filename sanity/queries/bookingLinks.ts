@@ -0,0 +1,20 @@
+import { defineQuery } from "next-sanity";
+import type { BOOKING_LINK_BY_TOKEN_QUERYResult } from "@/sanity/types";
+
+/**
+ * Get a one-off booking link by its token, for a host's meeting type
+ */
+export const BOOKING_LINK_BY_TOKEN_QUERY = defineQuery(`*[
+  _type == "bookingLink"
+  && token == $linkToken
+  && host->slug.current == $hostSlug
+  && meetingType->slug.current == $meetingTypeSlug
+][0] {
+  _id,
+  _rev,
+  singleUse,
+  expiresAt,
+  usedAt
+}`);
+
+export type BookingLinkByToken = BOOKING_LINK_BY_TOKEN_QUERYResult;
@@ -4,12 +4,14 @@
  * All queries use `defineQuery` from `next-sanity` for TypeGen support.
  * Run `pnpm run typegen` after modifying queries to regenerate types.
  *
- * Note: Cancelled bookings are DELETED from Sanity (Google Calendar is source of truth).
- * If a booking exists in Sanity, it's active.
+ * Note: Cancelled, declined and rescheduled bookings are kept in Sanity with
+ * their status (see `lib/booking-status.ts`). Queries leave them out, so the
+ * bookings they return are the ones that still hold their time.
  */
 
 import { defineQuery } from "next-sanity";
 import type {
+  BOOKING_BY_MANAGE_TOKEN_QUERYResult,
   HOST_BOOKINGS_BY_CLERK_ID_QUERYResult,
   HOST_UPCOMING_BOOKINGS_QUERYResult,
 } from "@/sanity/types";
@@ -22,11 +24,15 @@ export type HostBooking =
 export type HostUpcomingBooking =
   NonNullable<HOST_UPCOMING_BOOKINGS_QUERYResult>[number];
 
+// Derived type for a booking the guest manages through their links
+export type ManagedBooking = NonNullable<BOOKING_BY_MANAGE_TOKEN_QUERYResult>;
+
 /**
  * Get all bookings for a host
  */
 export const BOOKINGS_BY_HOST_QUERY = defineQuery(`*[
   _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
   && host._ref == $hostId
 ] | order(startTime asc) {
   _id,
@@ -45,6 +51,7 @@ export const BOOKINGS_BY_HOST_QUERY = defineQuery(`*[
  */
 export const BOOKINGS_IN_RANGE_QUERY = defineQuery(`*[
   _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
   && host._ref == $hostId
   && startTime >= $startDate
   && startTime <= $endDate
@@ -53,7 +60,8 @@ export const BOOKINGS_IN_RANGE_QUERY = defineQuery(`*[
   startTime,
   endTime,
   googleEventId,
-  guestEmail
+  guestEmail,
+  "meetingTypeId": meetingType._ref
 }`);
 
 /**
@@ -74,6 +82,7 @@ export const BOOKING_BY_ID_QUERY = defineQuery(`*[
   guestEmail,
   startTime,
   endTime,
+  status,
   notes,
   googleEventId,
   meetLink
@@ -84,12 +93,57 @@ export const BOOKING_BY_ID_QUERY = defineQuery(`*[
  */
 export const BOOKING_WITH_HOST_CALENDAR_QUERY = defineQuery(`*[
   _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
   && _id == $bookingId
 ][0]{
   _id,
   googleEventId,
+  guestEmail,
+  host->{
+    _id,
+    clerkId,
+    connectedAccounts[isDefault == true][0]{
+      _key,
+      accountId,
+      email,
+      accessToken,
+      refreshToken,
+      expiryDate,
+      isDefault
+    }
+  }
+}`);
+
+/**
+ * Get a booking by the secret token in the guest's reschedule and cancel
+ * links, with its meeting type and the host's default calendar account
+ */
+export const BOOKING_BY_MANAGE_TOKEN_QUERY = defineQuery(`*[
+  _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
+  && manageToken == $manageToken
+][0]{
+  _id,
+  guestName,
+  guestEmail,
+  startTime,
+  endTime,
+  duration,
+  googleEventId,
+  meetLink,
+  location {
+    type,
+    value
+  },
+  "meetingTypeId": meetingType._ref,
+  "meetingTypeName": coalesce(meetingType->name, meetingTypeName),
+  "meetingTypeSlug": meetingType->slug.current,
+  "meetingTypeHostSlug": meetingType->host->slug.current,
+  "meetingTypeArchived": meetingType->archived,
   host->{
     _id,
+    name,
+    "slug": slug.current,
     connectedAccounts[isDefault == true][0]{
       _key,
       accountId,
@@ -102,11 +156,45 @@ export const BOOKING_WITH_HOST_CALENDAR_QUERY = defineQuery(`*[
   }
 }`);
 
+/**
+ * Count the other bookings on a Google Calendar event (guests of the same
+ * group meeting)
+ */
+export const OTHER_BOOKINGS_ON_EVENT_COUNT_QUERY = defineQuery(`count(*[
+  _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
+  && googleEventId == $googleEventId
+  && _id != $bookingId
+])`);
+
+/**
+ * Get the first booking of a group meeting (a meeting type with seats) at a
+ * given time. Guests who book the same slot share its Google event and
+ * location.
+ */
+export const GROUP_MEETING_BOOKING_QUERY = defineQuery(`*[
+  _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
+  && host._ref == $hostId
+  && meetingType._ref == $meetingTypeId
+  && startTime == $startTime
+  && endTime == $endTime
+] | order(_createdAt asc)[0] {
+  _id,
+  googleEventId,
+  meetLink,
+  location {
+    type,
+    value
+  }
+}`);
+
 /**
  * Get all bookings for a host by their Clerk ID (for dashboard)
  */
 export const HOST_BOOKINGS_BY_CLERK_ID_QUERY = defineQuery(`*[
   _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
   && host->clerkId == $clerkId
 ] | order(startTime asc) {
   _id,
@@ -116,6 +204,15 @@ export const HOST_BOOKINGS_BY_CLERK_ID_QUERY = defineQuery(`*[
   startTime,
   endTime,
   notes,
+  answers[] {
+    _key,
+    question,
+    answer
+  },
+  location {
+    type,
+    value
+  },
   googleEventId,
   meetLink
 }`);
@@ -125,6 +222,7 @@ export const HOST_BOOKINGS_BY_CLERK_ID_QUERY = defineQuery(`*[
  */
 export const HOST_UPCOMING_BOOKINGS_QUERY = defineQuery(`*[
   _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
   && host->clerkId == $clerkId
   && startTime >= $startDate
 ] | order(startTime asc) {
@@ -142,6 +240,7 @@ export const HOST_UPCOMING_BOOKINGS_QUERY = defineQuery(`*[
  */
 export const BOOKINGS_BY_HOST_SLUG_IN_RANGE_QUERY = defineQuery(`*[
   _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
   && host->slug.current == $hostSlug
   && startTime >= $startDate
   && startTime <= $endDate
@@ -156,11 +255,72 @@ export const BOOKINGS_BY_HOST_SLUG_IN_RANGE_QUERY = defineQuery(`*[
  */
 export const ALL_BOOKINGS_BY_HOST_SLUG_QUERY = defineQuery(`*[
   _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
   && host->slug.current == $hostSlug
 ] | order(startTime asc) {
   _id,
   startTime,
   endTime,
   googleEventId,
-  guestEmail
-}`);
\ No newline at end of file
+  guestEmail,
+  "meetingTypeId": meetingType._ref
+}`);
+/**
+ * Get bookings in a date range that any of the given hosts attends, as host
+ * or co-host, except the host's own (those are checked against their Google
+ * Calendar separately)
+ */
+export const BOOKINGS_ATTENDED_BY_HOSTS_QUERY = defineQuery(`*[
+  _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
+  && host._ref != $hostId
+  && (host._ref in $hostIds || count(coHosts[_ref in $hostIds]) > 0)
+  && startTime < $endDate
+  && endTime > $startDate
+] | order(startTime asc) {
+  _id,
+  startTime,
+  endTime
+}`);
+
+/**
+ * Get bookings in a date range that a host attends, as host or co-host
+ * (for round-robin slots, where each pool member is checked on their own)
+ */
+export const BOOKINGS_ATTENDED_BY_HOST_QUERY = defineQuery(`*[
+  _type == "booking"
+  && !(status in ["cancelled", "rescheduled", "declined"])
+  && (host._ref == $hostId || $hostId in coHosts[]._ref)
+  && startTime < $endDate
+  && endTime > $startDate
+] | order(startTime asc) {
+  _id,
+  startTime,
+  endTime,
+  "meetingTypeId": meetingType._ref
+}`);
+
+/**
+ * Get how often each host of a round-robin pool was booked for a meeting
+ * type: their last booking and their bookings in a week
+ */
+export const ROUND_ROBIN_HISTORY_QUERY = defineQuery(`*[
+  _type == "user"
+  && _id in $hostIds
+] {
+  _id,
+  "lastBookedAt": *[
+    _type == "booking"
+    && !(status in ["cancelled", "rescheduled", "declined"])
+    && meetingType._ref == $meetingTypeId
+    && host._ref == ^._id
+  ] | order(_createdAt desc)[0]._createdAt,
+  "weekBookings": count(*[
+    _type == "booking"
+    && !(status in ["cancelled", "rescheduled", "declined"])
+    && meetingType._ref == $meetingTypeId
+    && host._ref == ^._id
+    && startTime >= $weekStart
+    && startTime < $weekEnd
+  ])
+}`);
@@ -1,5 +1,10 @@
 import { defineQuery } from "next-sanity";
-import type { MEETING_TYPES_BY_HOST_QUERYResult } from "@/sanity/types";
+import type {
+  HOST_INVITATIONS_QUERYResult,
+  MEETING_TYPE_BY_SLUGS_QUERYResult,
+  MEETING_TYPES_BY_HOST_QUERYResult,
+  MEETING_TYPES_BY_HOST_SLUG_QUERYResult,
+} from "@/sanity/types";
 
 /**
  * Get all meeting types for a host by their Clerk ID
@@ -7,18 +12,78 @@ import type { MEETING_TYPES_BY_HOST_QUERYResult } from "@/sanity/types";
 export const MEETING_TYPES_BY_HOST_QUERY = defineQuery(`*[
   _type == "meetingType"
   && host->clerkId == $clerkId
-] | order(isDefault desc, name asc) {
+] | order(coalesce(sortOrder, 0) asc, name asc) {
   _id,
   name,
   "slug": slug.current,
   duration,
+  durationOptions,
   description,
-  isDefault
+  isDefault,
+  archived,
+  hidden,
+  seats,
+  schedulingType,
+  "coHostEmails": coHosts[]->email,
+  hostInvitations[] {
+    _key,
+    role,
+    priority,
+    "email": invitee->email
+  },
+  roundRobinStrategy,
+  roundRobinHosts[] {
+    _key,
+    priority,
+    "email": host->email
+  },
+  location {
+    type,
+    address,
+    phone,
+    url,
+    jitsiDomain
+  },
+  questions[] {
+    _key,
+    label,
+    type,
+    required,
+    options
+  },
+  "scheduleId": schedule._ref,
+  "bookingCount": count(*[
+    _type == "booking"
+    && !(status in ["cancelled", "rescheduled", "declined"])
+    && references(^._id)
+  ])
 }`);
 
 export type MeetingTypeForHost =
   NonNullable<MEETING_TYPES_BY_HOST_QUERYResult>[number];
 
+/**
+ * Get the meeting types a user (by Clerk ID) was invited to host and hasn't
+ * answered yet
+ */
+export const HOST_INVITATIONS_QUERY = defineQuery(`*[
+  _type == "meetingType"
+  && archived != true
+  && *[_type == "user" && clerkId == $clerkId][0]._id in hostInvitations[].invitee._ref
+] | order(name asc) {
+  _id,
+  name,
+  schedulingType,
+  "ownerName": host->name,
+  "invitation": hostInvitations[invitee->clerkId == $clerkId][0] {
+    role,
+    invitedAt
+  }
+}`);
+
+export type HostInvitationForUser =
+  NonNullable<HOST_INVITATIONS_QUERYResult>[number];
+
 /**
  * Get a specific meeting type by host slug and meeting type slug
  */
@@ -26,22 +91,213 @@ export const MEETING_TYPE_BY_SLUGS_QUERY = defineQuery(`*[
   _type == "meetingType"
   && host->slug.current == $hostSlug
   && slug.current == $meetingTypeSlug
+  && archived != true
 ][0] {
   _id,
   name,
   "slug": slug.current,
   duration,
+  durationOptions,
+  bufferBefore,
+  bufferAfter,
+  slotInterval,
+  minimumNotice,
+  bookingWindow,
+  maxBookingsPerDay,
+  maxBookingsPerWeek,
+  seats,
   description,
+  location {
+    type,
+    address,
+    phone,
+    url,
+    jitsiDomain
+  },
+  questions[] {
+    _key,
+    label,
+    type,
+    required,
+    options
+  },
+  schedule-> {
+    _id,
+    timezone,
+    availability[] {
+      _key,
+      startDateTime,
+      endDateTime
+    },
+    availabilityRules[] {
+      _key,
+      days,
+      startTime,
+      endTime,
+      timezone,
+      effectiveFrom,
+      effectiveUntil
+    },
+    availabilityOverrides[] {
+      _key,
+      type,
+      startDate,
+      endDate,
+      hours[] {
+        _key,
+        startTime,
+        endTime
+      },
+      timezone,
+      label
+    }
+  },
+  schedulingType,
+  coHosts[]-> {
+    _id,
+    name,
+    email,
+    timezone,
+    availability[] {
+      _key,
+      startDateTime,
+      endDateTime
+    },
+    availabilityRules[] {
+      _key,
+      days,
+      startTime,
+      endTime,
+      timezone,
+      effectiveFrom,
+      effectiveUntil
+    },
+    availabilityOverrides[] {
+      _key,
+      type,
+      startDate,
+      endDate,
+      hours[] {
+        _key,
+        startTime,
+        endTime
+      },
+      timezone,
+      label
+    },
+    availabilityCalendar {
+      accountKey,
+      calendarId,
+      mode
+    },
+    connectedAccounts[] {
+      _key,
+      accountId,
+      email,
+      isDefault,
+      accessToken,
+      refreshToken,
+      expiryDate,
+      busyRules
+    }
+  },
+  "invitedCoHostCount": count(hostInvitations[role == "coHost"]),
+  roundRobinStrategy,
+  roundRobinHosts[] {
+    _key,
+    priority,
+    host-> {
+      _id,
+      name,
+      email,
+      slug,
+      timezone,
+      maxBookingsPerDay,
+      maxBookingsPerWeek,
+      availability[] {
+        _key,
+        startDateTime,
+        endDateTime
+      },
+      availabilityRules[] {
+        _key,
+        days,
+        startTime,
+        endTime,
+        timezone,
+        effectiveFrom,
+        effectiveUntil
+      },
+      availabilityOverrides[] {
+        _key,
+        type,
+        startDate,
+        endDate,
+        hours[] {
+          _key,
+          startTime,
+          endTime
+        },
+        timezone,
+        label
+      },
+      availabilityCalendar {
+        accountKey,
+        calendarId,
+        mode
+      },
+      connectedAccounts[] {
+        _key,
+        accountId,
+        email,
+        accessToken,
+        refreshToken,
+        expiryDate,
+        isDefault,
+        busyRules
+      }
+    }
+  },
   host-> {
     _id,
     name,
     email,
     "slug": slug.current,
+    timezone,
+    maxBookingsPerDay,
+    maxBookingsPerWeek,
     availability[] {
       _key,
       startDateTime,
       endDateTime
     },
+    availabilityRules[] {
+      _key,
+      days,
+      startTime,
+      endTime,
+      timezone,
+      effectiveFrom,
+      effectiveUntil
+    },
+    availabilityOverrides[] {
+      _key,
+      type,
+      startDate,
+      endDate,
+      hours[] {
+        _key,
+        startTime,
+        endTime
+      },
+      timezone,
+      label
+    },
+    availabilityCalendar {
+      accountKey,
+      calendarId,
+      mode
+    },
     connectedAccounts[] {
       _key,
       accountId,
@@ -49,28 +305,59 @@ export const MEETING_TYPE_BY_SLUGS_QUERY = defineQuery(`*[
       isDefault,
       accessToken,
       refreshToken,
-      expiryDate
+      expiryDate,
+      busyRules
     }
   }
 }`);
 
+// A bookable meeting type, with everything its booking page needs
+export type MeetingTypeBySlugs = NonNullable<MEETING_TYPE_BY_SLUGS_QUERYResult>;
+
+// Other hosts who must all be free, for collective meeting types
+export type MeetingTypeCoHosts =
+  NonNullable<MEETING_TYPE_BY_SLUGS_QUERYResult>["coHosts"];
+
+// Hosts taking turns, for round-robin meeting types
+export type MeetingTypeRoundRobinHosts =
+  NonNullable<MEETING_TYPE_BY_SLUGS_QUERYResult>["roundRobinHosts"];
+
+// The schedule a meeting type's slots are computed from (null = host's own)
+export type MeetingTypeSchedule =
+  NonNullable<MEETING_TYPE_BY_SLUGS_QUERYResult>["schedule"];
+
+/**
+ * Get the current slug of a host's meeting type that used to have the given
+ * slug (for redirecting old booking links after a slug change)
+ */
+export const MEETING_TYPE_SLUG_REDIRECT_QUERY = defineQuery(`*[
+  _type == "meetingType"
+  && host->slug.current == $hostSlug
+  && $meetingTypeSlug in previousSlugs
+  && archived != true
+] | order(_updatedAt desc)[0].slug.current`);
+
 /**
- * Get all meeting types for a host (for public booking page)
+ * Get all listed (not archived or hidden) meeting types for a host (for public
+ * booking page)
  */
 export const MEETING_TYPES_BY_HOST_SLUG_QUERY = defineQuery(`*[
   _type == "meetingType"
   && host->slug.current == $hostSlug
-] | order(isDefault desc, name asc) {
+  && archived != true
+  && hidden != true
+] | order(coalesce(sortOrder, 0) asc, name asc) {
   _id,
   name,
   "slug": slug.current,
   duration,
+  durationOptions,
   description,
   isDefault
 }`);
 
-// Uses same structure as MeetingTypeForHost since the projection is identical
-export type MeetingTypePublic = MeetingTypeForHost;
+export type MeetingTypePublic =
+  NonNullable<MEETING_TYPES_BY_HOST_SLUG_QUERYResult>[number];
 
 /**
  * Get the host's Sanity _id by their Clerk ID (for creating meeting types)
@@ -78,4 +365,4 @@ export type MeetingTypePublic = MeetingTypeForHost;
 export const HOST_ID_BY_CLERK_ID_QUERY = defineQuery(`*[
   _type == "user"
   && clerkId == $clerkId
-][0]._id`);
\ No newline at end of file
+][0]._id`);
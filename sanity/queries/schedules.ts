@@ -0,0 +1,69 @@
+import { defineQuery } from "next-sanity";
+import type { SCHEDULES_BY_HOST_QUERYResult } from "@/sanity/types";
+
+/**
+ * Get all schedules for a host by their Clerk ID, with the meeting types
+ * that use each one
+ */
+export const SCHEDULES_BY_HOST_QUERY = defineQuery(`*[
+  _type == "schedule"
+  && host->clerkId == $clerkId
+] | order(name asc) {
+  _id,
+  name,
+  timezone,
+  "meetingTypeIds": *[_type == "meetingType" && references(^._id)]._id
+}`);
+
+export type ScheduleForHost =
+  NonNullable<SCHEDULES_BY_HOST_QUERYResult>[number];
+
+/**
+ * Get a host's schedule with its availability (for the availability page)
+ */
+export const SCHEDULE_WITH_AVAILABILITY_QUERY = defineQuery(`*[
+  _type == "schedule"
+  && _id == $scheduleId
+  && host->clerkId == $clerkId
+][0]{
+  _id,
+  _rev,
+  name,
+  timezone,
+  availability[]{
+    _key,
+    startDateTime,
+    endDateTime
+  },
+  availabilityRules[]{
+    _key,
+    days,
+    startTime,
+    endTime,
+    timezone,
+    effectiveFrom,
+    effectiveUntil
+  },
+  availabilityOverrides[]{
+    _key,
+    type,
+    startDate,
+    endDate,
+    hours[]{
+      _key,
+      startTime,
+      endTime
+    },
+    timezone,
+    label
+  }
+}`);
+
+/**
+ * Get a schedule's ID if it belongs to the host (ownership check before writes)
+ */
+export const SCHEDULE_ID_FOR_HOST_QUERY = defineQuery(`*[
+  _type == "schedule"
+  && _id == $scheduleId
+  && host->clerkId == $clerkId
+][0]._id`);
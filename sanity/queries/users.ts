@@ -9,19 +9,30 @@
 
 import { defineQuery } from "next-sanity";
 import type {
-  USER_WITH_TOKENS_QUERYResult,
   HOST_BY_SLUG_WITH_TOKENS_QUERYResult,
   USER_CONNECTED_ACCOUNTS_DISPLAY_QUERYResult,
+  USER_WITH_TOKENS_QUERYResult,
 } from "@/sanity/types";
 
-// Derived type from USER_WITH_TOKENS_QUERY result
-export type ConnectedAccountWithTokens = NonNullable<
+// Derived type from USER_WITH_TOKENS_QUERY result (token fields only)
+export type ConnectedAccountWithTokens = Omit<
+  CalendarAccountWithTokens,
+  "busyRules"
+>;
+
+// Connected account with tokens and busy rules (for busy time fetching)
+export type CalendarAccountWithTokens = NonNullable<
   NonNullable<USER_WITH_TOKENS_QUERYResult>["connectedAccounts"]
 >[number];
 
 // Derived type for host with tokens (for booking actions)
 export type HostWithTokens = NonNullable<HOST_BY_SLUG_WITH_TOKENS_QUERYResult>;
 
+// Derived type for the host's availability calendar selection
+export type AvailabilityCalendarSetting = NonNullable<
+  USER_CONNECTED_ACCOUNTS_DISPLAY_QUERYResult
+>["availabilityCalendar"];
+
 // Derived type for connected account display (without tokens)
 export type ConnectedAccountDisplay = NonNullable<
   NonNullable<USER_CONNECTED_ACCOUNTS_DISPLAY_QUERYResult>["connectedAccounts"]
@@ -82,6 +93,7 @@ export const USER_WITH_TOKENS_QUERY = defineQuery(`*[
   && clerkId == $clerkId
 ][0]{
   _id,
+  "availabilityCalendarAccountKey": availabilityCalendar.accountKey,
   connectedAccounts[]{
     _key,
     accountId,
@@ -89,7 +101,8 @@ export const USER_WITH_TOKENS_QUERY = defineQuery(`*[
     accessToken,
     refreshToken,
     expiryDate,
-    isDefault
+    isDefault,
+    busyRules
   }
 }`);
 
@@ -104,13 +117,15 @@ export const USER_ID_BY_ACCOUNT_KEY_QUERY = defineQuery(`*[
 }`);
 
 /**
- * Get just the user ID by Clerk ID (minimal query for existence checks)
+ * Get the user ID by Clerk ID (minimal query for existence checks, plus
+ * the timezone so a missing one can be filled in)
  */
 export const USER_ID_BY_CLERK_ID_QUERY = defineQuery(`*[
   _type == "user"
   && clerkId == $clerkId
 ][0]{
-  _id
+  _id,
+  timezone
 }`);
 
 /**
@@ -121,10 +136,34 @@ export const USER_WITH_AVAILABILITY_QUERY = defineQuery(`*[
   && clerkId == $clerkId
 ][0]{
   _id,
+  _rev,
+  timezone,
   availability[]{
     _key,
     startDateTime,
     endDateTime
+  },
+  availabilityRules[]{
+    _key,
+    days,
+    startTime,
+    endTime,
+    timezone,
+    effectiveFrom,
+    effectiveUntil
+  },
+  availabilityOverrides[]{
+    _key,
+    type,
+    startDate,
+    endDate,
+    hours[]{
+      _key,
+      startTime,
+      endTime
+    },
+    timezone,
+    label
   }
 }`);
 
@@ -152,11 +191,41 @@ export const HOST_BY_SLUG_WITH_TOKENS_QUERY = defineQuery(`*[
   name,
   email,
   slug,
+  timezone,
+  maxBookingsPerDay,
+  maxBookingsPerWeek,
   availability[]{
     _key,
     startDateTime,
     endDateTime
   },
+  availabilityRules[]{
+    _key,
+    days,
+    startTime,
+    endTime,
+    timezone,
+    effectiveFrom,
+    effectiveUntil
+  },
+  availabilityOverrides[]{
+    _key,
+    type,
+    startDate,
+    endDate,
+    hours[]{
+      _key,
+      startTime,
+      endTime
+    },
+    timezone,
+    label
+  },
+  availabilityCalendar{
+    accountKey,
+    calendarId,
+    mode
+  },
   connectedAccounts[]{
     _key,
     accountId,
@@ -164,7 +233,8 @@ export const HOST_BY_SLUG_WITH_TOKENS_QUERY = defineQuery(`*[
     accessToken,
     refreshToken,
     expiryDate,
-    isDefault
+    isDefault,
+    busyRules
   }
 }`);
 
@@ -175,11 +245,19 @@ export const USER_CONNECTED_ACCOUNTS_DISPLAY_QUERY = defineQuery(`*[
   _type == "user"
   && clerkId == $clerkId
 ][0]{
+  timezone,
   connectedAccounts[]{
     _key,
     accountId,
     email,
-    isDefault
+    isDefault,
+    busyRules
+  },
+  availabilityCalendar{
+    accountKey,
+    calendarId,
+    calendarName,
+    mode
   }
 }`);
 
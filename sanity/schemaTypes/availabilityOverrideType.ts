@@ -0,0 +1,114 @@
+import { CalendarIcon } from "@sanity/icons";
+import { defineArrayMember, defineField, defineType } from "sanity";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const availabilityOverrideType = defineType({
+  name: "availabilityOverride",
+  title: "Availability Override",
+  type: "object",
+  icon: CalendarIcon,
+  fields: [
+    defineField({
+      name: "type",
+      title: "Type",
+      type: "string",
+      options: {
+        list: [
+          { title: "Unavailable (time off)", value: "unavailable" },
+          { title: "Custom hours", value: "custom" },
+        ],
+        layout: "radio",
+      },
+      initialValue: "unavailable",
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "startDate",
+      title: "Start Date",
+      type: "date",
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "endDate",
+      title: "End Date",
+      type: "date",
+      description: "Leave empty for a single day",
+      validation: (Rule) =>
+        Rule.custom((value, context) => {
+          const parent = context.parent as { startDate?: string };
+          if (value && parent?.startDate && value < parent.startDate) {
+            return "Must be on or after the start date";
+          }
+          return true;
+        }),
+    }),
+    defineField({
+      name: "hours",
+      title: "Hours",
+      type: "array",
+      description: "Replaces the regular hours on each day in the range",
+      of: [
+        defineArrayMember({
+          name: "timeRange",
+          type: "object",
+          fields: [
+            defineField({
+              name: "startTime",
+              title: "Start Time",
+              type: "string",
+              validation: (Rule) =>
+                Rule.required().regex(TIME_PATTERN, { name: "HH:mm" }),
+            }),
+            defineField({
+              name: "endTime",
+              title: "End Time",
+              type: "string",
+              validation: (Rule) =>
+                Rule.required().regex(TIME_PATTERN, { name: "HH:mm" }),
+            }),
+          ],
+          preview: {
+            select: { startTime: "startTime", endTime: "endTime" },
+            prepare({ startTime, endTime }) {
+              return { title: `${startTime} - ${endTime}` };
+            },
+          },
+        }),
+      ],
+      hidden: ({ parent }) => parent?.type !== "custom",
+    }),
+    defineField({
+      name: "timezone",
+      title: "Timezone",
+      type: "string",
+      description: "IANA timezone the dates and hours are in",
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "label",
+      title: "Label",
+      type: "string",
+      description: "e.g. 'Vacation', 'Christmas Eve'",
+    }),
+  ],
+  preview: {
+    select: {
+      type: "type",
+      startDate: "startDate",
+      endDate: "endDate",
+      label: "label",
+    },
+    prepare({ type, startDate, endDate, label }) {
+      const range =
+        endDate && endDate !== startDate
+          ? `${startDate} → ${endDate}`
+          : (startDate ?? "No date");
+
+      return {
+        title: label || (type === "custom" ? "Custom hours" : "Time off"),
+        subtitle: range,
+      };
+    },
+  },
+});
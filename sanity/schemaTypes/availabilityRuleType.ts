@@ -0,0 +1,98 @@
+import { RestoreIcon } from "@sanity/icons";
+import { defineField, defineType } from "sanity";
+
+const WEEKDAY_OPTIONS = [
+  { title: "Monday", value: "monday" },
+  { title: "Tuesday", value: "tuesday" },
+  { title: "Wednesday", value: "wednesday" },
+  { title: "Thursday", value: "thursday" },
+  { title: "Friday", value: "friday" },
+  { title: "Saturday", value: "saturday" },
+  { title: "Sunday", value: "sunday" },
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const availabilityRuleType = defineType({
+  name: "availabilityRule",
+  title: "Availability Rule",
+  type: "object",
+  icon: RestoreIcon,
+  fields: [
+    defineField({
+      name: "days",
+      title: "Days",
+      type: "array",
+      of: [{ type: "string" }],
+      options: {
+        list: WEEKDAY_OPTIONS,
+        layout: "grid",
+      },
+      validation: (Rule) =>
+        Rule.required().min(1).error("Select at least one day"),
+    }),
+    defineField({
+      name: "startTime",
+      title: "Start Time",
+      type: "string",
+      description: "24-hour time, e.g. 09:00",
+      validation: (Rule) =>
+        Rule.required().regex(TIME_PATTERN, { name: "HH:mm" }),
+    }),
+    defineField({
+      name: "endTime",
+      title: "End Time",
+      type: "string",
+      description: "24-hour time, e.g. 17:00",
+      validation: (Rule) =>
+        Rule.required().regex(TIME_PATTERN, { name: "HH:mm" }),
+    }),
+    defineField({
+      name: "timezone",
+      title: "Timezone",
+      type: "string",
+      description: "IANA timezone the times are in, e.g. Europe/Berlin",
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "effectiveFrom",
+      title: "Effective From",
+      type: "date",
+      description: "Leave empty to apply from today",
+    }),
+    defineField({
+      name: "effectiveUntil",
+      title: "Effective Until",
+      type: "date",
+      description: "Leave empty to repeat indefinitely",
+      validation: (Rule) =>
+        Rule.custom((value, context) => {
+          const parent = context.parent as { effectiveFrom?: string };
+          if (value && parent?.effectiveFrom && value < parent.effectiveFrom) {
+            return "Must be on or after the effective from date";
+          }
+          return true;
+        }),
+    }),
+  ],
+  preview: {
+    select: {
+      days: "days",
+      startTime: "startTime",
+      endTime: "endTime",
+      timezone: "timezone",
+    },
+    prepare({ days, startTime, endTime, timezone }) {
+      const dayLabels = (days as string[] | undefined)
+        ?.map((day) => day.charAt(0).toUpperCase() + day.slice(1, 3))
+        .join(", ");
+
+      return {
+        title: dayLabels || "No days selected",
+        subtitle: `${startTime ?? "--:--"} - ${endTime ?? "--:--"}${
+          timezone ? ` (${timezone})` : ""
+        }`,
+      };
+    },
+  },
+});
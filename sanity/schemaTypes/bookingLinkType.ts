@@ -0,0 +1,89 @@
+import { LinkIcon } from "@sanity/icons";
+import { defineField, defineType } from "sanity";
+
+export const bookingLinkType = defineType({
+  name: "bookingLink",
+  title: "Booking Link",
+  type: "document",
+  icon: LinkIcon,
+  fields: [
+    defineField({
+      name: "token",
+      type: "string",
+      description: "Secret part of the link guests book with",
+      readOnly: true,
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "host",
+      type: "reference",
+      to: [{ type: "user" }],
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "meetingType",
+      title: "Meeting Type",
+      type: "reference",
+      to: [{ type: "meetingType" }],
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "singleUse",
+      title: "Single Use",
+      type: "boolean",
+      description: "The link stops working after one booking",
+      initialValue: true,
+    }),
+    defineField({
+      name: "expiresAt",
+      title: "Expires At",
+      type: "datetime",
+      description:
+        "The link stops working after this time. Leave empty to never expire",
+    }),
+    defineField({
+      name: "usedAt",
+      title: "Used At",
+      type: "datetime",
+      description: "When a single-use link was booked with",
+      readOnly: true,
+    }),
+    defineField({
+      name: "booking",
+      type: "reference",
+      to: [{ type: "booking" }],
+      description: "Booking made with a single-use link",
+      weak: true,
+      readOnly: true,
+    }),
+    defineField({
+      name: "createdAt",
+      title: "Created At",
+      type: "datetime",
+      readOnly: true,
+    }),
+  ],
+  preview: {
+    select: {
+      meetingTypeName: "meetingType.name",
+      hostName: "host.name",
+      singleUse: "singleUse",
+      usedAt: "usedAt",
+      expiresAt: "expiresAt",
+    },
+    prepare({ meetingTypeName, hostName, singleUse, usedAt, expiresAt }) {
+      const status = usedAt
+        ? "used"
+        : expiresAt
+          ? `until ${new Date(expiresAt).toLocaleDateString()}`
+          : singleUse
+            ? "single use"
+            : "no expiry";
+
+      return {
+        title: `${meetingTypeName || "Meeting"} · ${status}`,
+        subtitle: hostName || "No host",
+      };
+    },
+  },
+});
@@ -1,5 +1,10 @@
-import { defineField, defineType } from "sanity";
 import { CalendarIcon } from "@sanity/icons";
+import { defineArrayMember, defineField, defineType } from "sanity";
+import {
+  BOOKING_CANCELLER_OPTIONS,
+  BOOKING_STATUS_OPTIONS,
+} from "../../lib/booking-status";
+import { LOCATION_TYPE_OPTIONS } from "../../lib/locations";
 
 export const bookingType = defineType({
   name: "booking",
@@ -14,6 +19,14 @@ export const bookingType = defineType({
       to: [{ type: "user" }],
       validation: (Rule) => Rule.required(),
     }),
+    defineField({
+      name: "coHosts",
+      title: "Co-hosts",
+      type: "array",
+      description: "Other hosts attending, for collective meeting types",
+      of: [defineArrayMember({ type: "reference", to: [{ type: "user" }] })],
+      readOnly: true,
+    }),
     defineField({
       name: "meetingType",
       title: "Meeting Type",
@@ -21,6 +34,13 @@ export const bookingType = defineType({
       to: [{ type: "meetingType" }],
       description: "The type of meeting booked",
     }),
+    defineField({
+      name: "meetingTypeName",
+      title: "Meeting Type Name",
+      type: "string",
+      description: "Name of the meeting type, kept after the type is deleted",
+      readOnly: true,
+    }),
     defineField({
       name: "guestName",
       title: "Guest Name",
@@ -45,6 +65,70 @@ export const bookingType = defineType({
       type: "datetime",
       validation: (Rule) => Rule.required(),
     }),
+    defineField({
+      name: "status",
+      title: "Status",
+      type: "string",
+      description:
+        "Cancelled, declined and rescheduled bookings no longer hold their time",
+      options: {
+        list: BOOKING_STATUS_OPTIONS.map(({ value, label }) => ({
+          title: label,
+          value,
+        })),
+      },
+      initialValue: "confirmed",
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "statusChangedAt",
+      title: "Status Changed At",
+      type: "datetime",
+      readOnly: true,
+    }),
+    defineField({
+      name: "cancelledBy",
+      title: "Cancelled By",
+      type: "string",
+      options: {
+        list: BOOKING_CANCELLER_OPTIONS.map(({ value, label }) => ({
+          title: label,
+          value,
+        })),
+      },
+      readOnly: true,
+      hidden: ({ document }) =>
+        document?.status !== "cancelled" && document?.status !== "declined",
+    }),
+    defineField({
+      name: "cancellationReason",
+      title: "Cancellation Reason",
+      type: "text",
+      rows: 2,
+      readOnly: true,
+      hidden: ({ document }) =>
+        document?.status !== "cancelled" && document?.status !== "declined",
+    }),
+    defineField({
+      name: "rescheduledFrom",
+      title: "Rescheduled From",
+      type: "reference",
+      to: [{ type: "booking" }],
+      weak: true,
+      description: "The booking this one replaced when the guest moved it",
+      readOnly: true,
+      hidden: ({ value }) => !value,
+    }),
+    defineField({
+      name: "rescheduledTo",
+      title: "Rescheduled To",
+      type: "reference",
+      to: [{ type: "booking" }],
+      weak: true,
+      description: "The booking at the new time",
+      readOnly: true,
+      hidden: ({ value }) => !value,
+    }),
     defineField({
       name: "googleEventId",
       title: "Google Event ID",
@@ -52,6 +136,44 @@ export const bookingType = defineType({
       description: "The ID of the event in Google Calendar",
       readOnly: true,
     }),
+    defineField({
+      name: "manageToken",
+      title: "Manage Token",
+      type: "string",
+      description: "Secret in the guest's reschedule and cancel links",
+      readOnly: true,
+      hidden: true,
+    }),
+    defineField({
+      name: "duration",
+      type: "number",
+      description: "Length of the meeting in minutes, as picked by the guest",
+      readOnly: true,
+    }),
+    defineField({
+      name: "location",
+      title: "Location",
+      type: "object",
+      description: "Where the meeting takes place",
+      readOnly: true,
+      fields: [
+        defineField({
+          name: "type",
+          type: "string",
+          options: {
+            list: LOCATION_TYPE_OPTIONS.map(({ value, label }) => ({
+              title: label,
+              value,
+            })),
+          },
+        }),
+        defineField({
+          name: "value",
+          type: "string",
+          description: "Address, phone number or meeting link",
+        }),
+      ],
+    }),
     defineField({
       name: "meetLink",
       title: "Google Meet Link",
@@ -65,6 +187,14 @@ export const bookingType = defineType({
       type: "text",
       description: "Additional notes from the guest",
     }),
+    defineField({
+      name: "answers",
+      title: "Intake Answers",
+      type: "array",
+      description: "The guest's answers to the meeting type's questions",
+      of: [defineArrayMember({ type: "intakeAnswer" })],
+      readOnly: true,
+    }),
   ],
   preview: {
     select: {
@@ -72,14 +202,20 @@ export const bookingType = defineType({
       startTime: "startTime",
       hostName: "host.name",
       meetingTypeName: "meetingType.name",
+      deletedMeetingTypeName: "meetingTypeName",
+      bookedDuration: "duration",
       meetingTypeDuration: "meetingType.duration",
+      status: "status",
     },
     prepare({
       guestName,
       startTime,
       hostName,
       meetingTypeName,
+      deletedMeetingTypeName,
+      bookedDuration,
       meetingTypeDuration,
+      status,
     }) {
       const date = startTime
         ? new Date(startTime).toLocaleDateString("en-US", {
@@ -91,12 +227,19 @@ export const bookingType = defineType({
           })
         : "No date";
 
-      const duration = meetingTypeDuration ? `${meetingTypeDuration}min` : "";
-      const type = meetingTypeName ? ` · ${meetingTypeName}` : "";
+      const minutes = bookedDuration ?? meetingTypeDuration;
+      const duration = minutes ? `${minutes}min` : "";
+      const typeName = meetingTypeName ?? deletedMeetingTypeName;
+      const type = typeName ? ` · ${typeName}` : "";
+      const statusLabel = BOOKING_STATUS_OPTIONS.find(
+        (option) => option.value === status,
+      )?.label;
+      const state =
+        statusLabel && status !== "confirmed" ? ` · ${statusLabel}` : "";
 
       return {
         title: `${guestName || "Guest"} → ${hostName || "Host"}${type}`,
-        subtitle: `${date} ${duration}`,
+        subtitle: `${date} ${duration}${state}`,
       };
     },
   },
@@ -112,4 +255,4 @@ export const bookingType = defineType({
       by: [{ field: "startTime", direction: "asc" }],
     },
   ],
-});
\ No newline at end of file
+});
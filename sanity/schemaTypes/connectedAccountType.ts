@@ -1,5 +1,5 @@
-import { defineField, defineType } from "sanity";
 import { PlugIcon } from "@sanity/icons";
+import { defineField, defineType } from "sanity";
 
 export const connectedAccountType = defineType({
   name: "connectedAccount",
@@ -59,6 +59,50 @@ export const connectedAccountType = defineType({
       description: "Use this account for creating new calendar events",
       initialValue: false,
     }),
+    defineField({
+      name: "busyRules",
+      title: "Busy Rules",
+      type: "object",
+      description: "Which calendar events block bookings",
+      fields: [
+        defineField({
+          name: "allDay",
+          title: "All-day events",
+          type: "boolean",
+          initialValue: true,
+        }),
+        defineField({
+          name: "tentative",
+          title: "Tentative (maybe) invites",
+          type: "boolean",
+          initialValue: true,
+        }),
+        defineField({
+          name: "free",
+          title: "Events marked as free",
+          type: "boolean",
+          initialValue: false,
+        }),
+        defineField({
+          name: "declined",
+          title: "Declined invites",
+          type: "boolean",
+          initialValue: false,
+        }),
+        defineField({
+          name: "workingLocation",
+          title: "Working location",
+          type: "boolean",
+          initialValue: false,
+        }),
+        defineField({
+          name: "outOfOffice",
+          title: "Out of office",
+          type: "boolean",
+          initialValue: true,
+        }),
+      ],
+    }),
     defineField({
       name: "connectedAt",
       title: "Connected At",
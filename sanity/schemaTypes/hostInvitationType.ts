@@ -0,0 +1,62 @@
+import { EnvelopeIcon } from "@sanity/icons";
+import { defineField, defineType } from "sanity";
+import {
+  DEFAULT_ROUND_ROBIN_PRIORITY,
+  HOST_ROLE_OPTIONS,
+  MAX_ROUND_ROBIN_PRIORITY,
+  MIN_ROUND_ROBIN_PRIORITY,
+} from "../../lib/scheduling";
+
+export const hostInvitationType = defineType({
+  name: "hostInvitation",
+  title: "Host Invitation",
+  type: "object",
+  icon: EnvelopeIcon,
+  fields: [
+    defineField({
+      name: "invitee",
+      type: "reference",
+      to: [{ type: "user" }],
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "role",
+      type: "string",
+      description: "What the invitee joins as once they accept",
+      options: {
+        list: HOST_ROLE_OPTIONS.map(({ value, label }) => ({
+          title: label,
+          value,
+        })),
+      },
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "priority",
+      type: "number",
+      description: "The round-robin priority the invitee joins the pool with",
+      initialValue: DEFAULT_ROUND_ROBIN_PRIORITY,
+      hidden: ({ parent }) => parent?.role !== "roundRobinHost",
+      validation: (Rule) =>
+        Rule.integer()
+          .min(MIN_ROUND_ROBIN_PRIORITY)
+          .max(MAX_ROUND_ROBIN_PRIORITY),
+    }),
+    defineField({
+      name: "invitedAt",
+      title: "Invited At",
+      type: "datetime",
+      readOnly: true,
+    }),
+  ],
+  preview: {
+    select: { title: "invitee.name", role: "role" },
+    prepare({ title, role }) {
+      const option = HOST_ROLE_OPTIONS.find((o) => o.value === role);
+      return {
+        title: title || "No invitee",
+        subtitle: `Invited as ${option?.label.toLowerCase() ?? "host"}`,
+      };
+    },
+  },
+});
@@ -1,18 +1,34 @@
 import { type SchemaTypeDefinition } from "sanity";
-import { userType } from "./userType";
+import { availabilityOverrideType } from "./availabilityOverrideType";
+import { availabilityRuleType } from "./availabilityRuleType";
 import { availabilitySlotType } from "./availabilitySlotType";
-import { connectedAccountType } from "./connectedAccountType";
+import { bookingLinkType } from "./bookingLinkType";
 import { bookingType } from "./bookingType";
-import { meetingTypeType } from "./meetingTypeType";
+import { connectedAccountType } from "./connectedAccountType";
 import { feedbackType } from "./feedbackType";
+import { hostInvitationType } from "./hostInvitationType";
+import { intakeAnswerType } from "./intakeAnswerType";
+import { intakeQuestionType } from "./intakeQuestionType";
+import { meetingTypeType } from "./meetingTypeType";
+import { roundRobinHostType } from "./roundRobinHostType";
+import { scheduleType } from "./scheduleType";
+import { userType } from "./userType";
 
 export const schema: { types: SchemaTypeDefinition[] } = {
   types: [
     userType,
     availabilitySlotType,
+    availabilityRuleType,
+    availabilityOverrideType,
     connectedAccountType,
     bookingType,
     meetingTypeType,
+    scheduleType,
     feedbackType,
+    intakeQuestionType,
+    intakeAnswerType,
+    bookingLinkType,
+    roundRobinHostType,
+    hostInvitationType,
   ],
-};
\ No newline at end of file
+};
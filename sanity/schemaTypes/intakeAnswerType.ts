@@ -0,0 +1,28 @@
+import { CommentIcon } from "@sanity/icons";
+import { defineField, defineType } from "sanity";
+
+export const intakeAnswerType = defineType({
+  name: "intakeAnswer",
+  title: "Intake Answer",
+  type: "object",
+  icon: CommentIcon,
+  fields: [
+    defineField({
+      name: "question",
+      title: "Question",
+      type: "string",
+      description: "The question as it was asked when the guest booked",
+      readOnly: true,
+    }),
+    defineField({
+      name: "answer",
+      title: "Answer",
+      type: "text",
+      rows: 2,
+      readOnly: true,
+    }),
+  ],
+  preview: {
+    select: { title: "question", subtitle: "answer" },
+  },
+});
@@ -0,0 +1,67 @@
+import { HelpCircleIcon } from "@sanity/icons";
+import { defineArrayMember, defineField, defineType } from "sanity";
+import { INTAKE_QUESTION_TYPES } from "../../lib/intake-questions";
+
+export const intakeQuestionType = defineType({
+  name: "intakeQuestion",
+  title: "Intake Question",
+  type: "object",
+  icon: HelpCircleIcon,
+  fields: [
+    defineField({
+      name: "label",
+      title: "Question",
+      type: "string",
+      validation: (Rule) => Rule.required().max(200),
+    }),
+    defineField({
+      name: "type",
+      title: "Answer Type",
+      type: "string",
+      options: {
+        list: INTAKE_QUESTION_TYPES.map(({ value, label }) => ({
+          title: label,
+          value,
+        })),
+      },
+      initialValue: "shortText",
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "required",
+      title: "Required",
+      type: "boolean",
+      description: "For checkboxes, guests must tick the box to book",
+      initialValue: false,
+    }),
+    defineField({
+      name: "options",
+      title: "Choices",
+      type: "array",
+      of: [defineArrayMember({ type: "string" })],
+      hidden: ({ parent }) =>
+        parent?.type !== "singleChoice" && parent?.type !== "multiChoice",
+      validation: (Rule) =>
+        Rule.unique().custom((options: string[] | undefined, context) => {
+          const parent = context.parent as { type?: string };
+          const isChoice =
+            parent?.type === "singleChoice" || parent?.type === "multiChoice";
+          if (isChoice && (options?.length ?? 0) < 2) {
+            return "Add at least two choices";
+          }
+          return true;
+        }),
+    }),
+  ],
+  preview: {
+    select: { label: "label", type: "type", required: "required" },
+    prepare({ label, type, required }) {
+      const typeLabel =
+        INTAKE_QUESTION_TYPES.find((t) => t.value === type)?.label ?? type;
+      return {
+        title: label || "Untitled question",
+        subtitle: `${typeLabel}${required ? " · Required" : ""}`,
+      };
+    },
+  },
+});
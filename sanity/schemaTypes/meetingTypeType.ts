@@ -1,5 +1,19 @@
-import { defineField, defineType } from "sanity";
 import { Clock } from "lucide-react";
+import { defineArrayMember, defineField, defineType } from "sanity";
+import {
+  isValidDuration,
+  MAX_MEETING_DURATION,
+  MIN_MEETING_DURATION,
+} from "../../lib/durations";
+import {
+  DEFAULT_JITSI_DOMAIN,
+  LOCATION_TYPE_OPTIONS,
+} from "../../lib/locations";
+import {
+  ROUND_ROBIN_STRATEGY_OPTIONS,
+  SCHEDULING_TYPE_OPTIONS,
+} from "../../lib/scheduling";
+import { apiVersion } from "../env";
 
 export const meetingTypeType = defineType({
   name: "meetingType",
@@ -22,26 +36,197 @@ export const meetingTypeType = defineType({
       options: {
         source: "name",
         maxLength: 50,
+        // Slugs only need to be unique among the host's own meeting types
+        isUnique: async (slug, context) => {
+          const { document, getClient } = context;
+          const host = document?.host as { _ref?: string } | undefined;
+          if (!host?._ref) return true;
+
+          const id = document?._id.replace(/^drafts\./, "") ?? "";
+          const count = await getClient({ apiVersion }).fetch<number>(
+            `count(*[
+              _type == "meetingType"
+              && host._ref == $hostId
+              && slug.current == $slug
+              && !(_id in [$draftId, $publishedId])
+            ])`,
+            {
+              hostId: host._ref,
+              slug,
+              draftId: `drafts.${id}`,
+              publishedId: id,
+            },
+          );
+          return count === 0;
+        },
       },
       validation: (Rule) =>
         Rule.required().error("Slug is required for the booking URL"),
     }),
+    defineField({
+      name: "previousSlugs",
+      title: "Previous Slugs",
+      type: "array",
+      of: [{ type: "string" }],
+      description:
+        "Old slugs of this meeting type. Booking links using them redirect to the current slug",
+      readOnly: true,
+    }),
     defineField({
       name: "duration",
       type: "number",
-      description: "Duration in minutes",
+      description: "Default duration in minutes",
+      initialValue: 30,
+      validation: (Rule) => [
+        Rule.required().error("Duration is required"),
+        Rule.integer()
+          .min(MIN_MEETING_DURATION)
+          .max(MAX_MEETING_DURATION)
+          .error(
+            `Duration must be ${MIN_MEETING_DURATION} to ${MAX_MEETING_DURATION} minutes`,
+          ),
+      ],
+    }),
+    defineField({
+      name: "durationOptions",
+      title: "Other Durations",
+      type: "array",
+      of: [{ type: "number" }],
+      description:
+        "Other durations in minutes guests can pick instead of the default",
+      validation: (Rule) => [
+        Rule.unique(),
+        Rule.custom((options: number[] | undefined) =>
+          (options ?? []).every(isValidDuration)
+            ? true
+            : `Durations must be ${MIN_MEETING_DURATION} to ${MAX_MEETING_DURATION} minutes`,
+        ),
+      ],
+    }),
+    defineField({
+      name: "slotInterval",
+      title: "Start Time Interval",
+      type: "number",
+      description:
+        "How often meetings can start. Leave empty to use the meeting duration",
       options: {
         list: [
-          { title: "15 minutes", value: 15 },
-          { title: "30 minutes", value: 30 },
-          { title: "45 minutes", value: 45 },
-          { title: "60 minutes", value: 60 },
-          { title: "90 minutes", value: 90 },
+          { title: "Every 10 minutes", value: 10 },
+          { title: "Every 15 minutes", value: 15 },
+          { title: "Every 20 minutes", value: 20 },
+          { title: "Every 30 minutes", value: 30 },
+          { title: "On the hour", value: 60 },
         ],
-        layout: "radio",
       },
-      initialValue: 30,
-      validation: (Rule) => Rule.required().error("Duration is required"),
+    }),
+    defineField({
+      name: "bufferBefore",
+      title: "Buffer Before",
+      type: "number",
+      description: "Minutes to keep free before each meeting",
+      initialValue: 0,
+      validation: (Rule) => Rule.min(0).max(240).integer(),
+    }),
+    defineField({
+      name: "bufferAfter",
+      title: "Buffer After",
+      type: "number",
+      description: "Minutes to keep free after each meeting",
+      initialValue: 0,
+      validation: (Rule) => Rule.min(0).max(240).integer(),
+    }),
+    defineField({
+      name: "minimumNotice",
+      title: "Minimum Notice",
+      type: "object",
+      description: "How far in advance guests must book",
+      options: { columns: 2 },
+      fields: [
+        defineField({
+          name: "amount",
+          type: "number",
+          initialValue: 0,
+          validation: (Rule) => Rule.min(0).integer(),
+        }),
+        defineField({
+          name: "unit",
+          type: "string",
+          options: {
+            list: [
+              { title: "Minutes", value: "minutes" },
+              { title: "Hours", value: "hours" },
+              { title: "Days", value: "days" },
+              { title: "Business days", value: "businessDays" },
+            ],
+          },
+          initialValue: "hours",
+        }),
+      ],
+    }),
+    defineField({
+      name: "bookingWindow",
+      title: "Booking Window",
+      type: "object",
+      description: "How far ahead guests can book",
+      fields: [
+        defineField({
+          name: "mode",
+          type: "string",
+          options: {
+            list: [
+              { title: "Indefinitely", value: "unlimited" },
+              { title: "Days into the future", value: "rolling" },
+              { title: "Until a date", value: "until" },
+            ],
+            layout: "radio",
+          },
+          initialValue: "unlimited",
+        }),
+        defineField({
+          name: "days",
+          type: "number",
+          description: "Number of days from today",
+          hidden: ({ parent }) => parent?.mode !== "rolling",
+          validation: (Rule) => Rule.min(1).integer(),
+        }),
+        defineField({
+          name: "untilDate",
+          title: "Until",
+          type: "date",
+          hidden: ({ parent }) => parent?.mode !== "until",
+        }),
+      ],
+    }),
+    defineField({
+      name: "maxBookingsPerDay",
+      title: "Max Bookings Per Day",
+      type: "number",
+      description: "Leave empty for no limit",
+      validation: (Rule) => Rule.min(1).integer(),
+    }),
+    defineField({
+      name: "maxBookingsPerWeek",
+      title: "Max Bookings Per Week",
+      type: "number",
+      description: "Monday to Sunday. Leave empty for no limit",
+      validation: (Rule) => Rule.min(1).integer(),
+    }),
+    defineField({
+      name: "seats",
+      title: "Seats",
+      type: "number",
+      description:
+        "Guests per time slot, for group events. Guests who book the same slot join the same meeting",
+      initialValue: 1,
+      validation: (Rule) =>
+        Rule.min(1)
+          .integer()
+          .custom((seats, context) =>
+            (seats ?? 1) > 1 &&
+            context.document?.schedulingType === "roundRobin"
+              ? "Round-robin meeting types have one guest per slot"
+              : true,
+          ),
     }),
     defineField({
       name: "description",
@@ -49,30 +234,205 @@ export const meetingTypeType = defineType({
       rows: 2,
       description: "Brief description shown on the booking page",
     }),
+    defineField({
+      name: "location",
+      title: "Location",
+      type: "object",
+      description: "Where meetings take place. Defaults to Google Meet",
+      fields: [
+        defineField({
+          name: "type",
+          type: "string",
+          options: {
+            list: LOCATION_TYPE_OPTIONS.map(({ value, label }) => ({
+              title: label,
+              value,
+            })),
+          },
+          initialValue: "googleMeet",
+        }),
+        defineField({
+          name: "address",
+          type: "text",
+          rows: 2,
+          hidden: ({ parent }) => parent?.type !== "inPerson",
+        }),
+        defineField({
+          name: "phone",
+          type: "string",
+          description: "Number guests call",
+          hidden: ({ parent }) => parent?.type !== "hostPhone",
+        }),
+        defineField({
+          name: "url",
+          title: "Video Link",
+          type: "url",
+          hidden: ({ parent }) => parent?.type !== "customVideo",
+        }),
+        defineField({
+          name: "jitsiDomain",
+          title: "Jitsi Server",
+          type: "string",
+          description: `A room is created on this server for each booking. Defaults to ${DEFAULT_JITSI_DOMAIN}`,
+          hidden: ({ parent }) => parent?.type !== "jitsi",
+        }),
+      ],
+    }),
+    defineField({
+      name: "questions",
+      title: "Intake Questions",
+      type: "array",
+      description: "Questions guests answer when they book",
+      of: [defineArrayMember({ type: "intakeQuestion" })],
+    }),
     defineField({
       name: "host",
       type: "reference",
       to: [{ type: "user" }],
       validation: (Rule) => Rule.required().error("Host is required"),
     }),
+    defineField({
+      name: "schedulingType",
+      title: "Scheduling Type",
+      type: "string",
+      options: {
+        list: SCHEDULING_TYPE_OPTIONS.map(({ value, label }) => ({
+          title: label,
+          value,
+        })),
+        layout: "radio",
+      },
+      initialValue: "individual",
+    }),
+    defineField({
+      name: "coHosts",
+      title: "Co-hosts",
+      type: "array",
+      description:
+        "Other hosts who attend every meeting. Slots are only offered when all hosts are free",
+      of: [defineArrayMember({ type: "reference", to: [{ type: "user" }] })],
+      hidden: ({ document }) => document?.schedulingType !== "collective",
+      validation: (Rule) =>
+        Rule.unique().custom((coHosts, context) => {
+          if (context.document?.schedulingType !== "collective") return true;
+          // Invited co-hosts count while they haven't answered
+          const invitations = context.document?.hostInvitations as
+            | Array<{ role?: string }>
+            | undefined;
+          return coHosts?.length ||
+            invitations?.some((invitation) => invitation.role === "coHost")
+            ? true
+            : "Collective meeting types need at least one co-host";
+        }),
+    }),
+    defineField({
+      name: "hostInvitations",
+      title: "Host Invitations",
+      type: "array",
+      description:
+        "Hosts asked to join who haven't accepted yet. They get no bookings until they do",
+      of: [defineArrayMember({ type: "hostInvitation" })],
+      hidden: ({ document }) =>
+        document?.schedulingType !== "collective" &&
+        document?.schedulingType !== "roundRobin",
+      readOnly: true,
+    }),
+    defineField({
+      name: "roundRobinHosts",
+      title: "Round-robin Hosts",
+      type: "array",
+      description:
+        "Hosts who take turns. Each booking goes to one of them who is free",
+      of: [defineArrayMember({ type: "roundRobinHost" })],
+      hidden: ({ document }) => document?.schedulingType !== "roundRobin",
+      validation: (Rule) =>
+        Rule.custom((hosts, context) => {
+          if (context.document?.schedulingType !== "roundRobin") return true;
+          // Invited hosts count while they haven't answered
+          const invitations = context.document?.hostInvitations as
+            | Array<{ role?: string }>
+            | undefined;
+          return hosts?.length ||
+            invitations?.some(
+              (invitation) => invitation.role === "roundRobinHost",
+            )
+            ? true
+            : "Round-robin meeting types need at least one host";
+        }),
+    }),
+    defineField({
+      name: "roundRobinStrategy",
+      title: "Round-robin Strategy",
+      type: "string",
+      description: "How the next host is picked",
+      options: {
+        list: ROUND_ROBIN_STRATEGY_OPTIONS.map(({ value, label }) => ({
+          title: label,
+          value,
+        })),
+      },
+      initialValue: "leastRecentlyBooked",
+      hidden: ({ document }) => document?.schedulingType !== "roundRobin",
+    }),
+    defineField({
+      name: "schedule",
+      type: "reference",
+      to: [{ type: "schedule" }],
+      description:
+        "Availability used for this meeting type. Leave empty to use the host's own availability",
+      options: {
+        filter: ({ document }) => {
+          const host = document.host as { _ref?: string } | undefined;
+          return {
+            filter: "host._ref == $hostId",
+            params: { hostId: host?._ref ?? "" },
+          };
+        },
+      },
+    }),
     defineField({
       name: "isDefault",
       type: "boolean",
-      description: "Make this the default meeting type for your booking page",
+      description:
+        "Make this the default meeting type for your booking page (only one per host)",
       initialValue: false,
     }),
+    defineField({
+      name: "archived",
+      type: "boolean",
+      description:
+        "Archived meeting types are hidden from your booking page but keep their bookings",
+      initialValue: false,
+    }),
+    defineField({
+      name: "hidden",
+      type: "boolean",
+      description:
+        "Hidden meeting types aren't listed on your booking page, but can be booked by direct link",
+      initialValue: false,
+    }),
+    defineField({
+      name: "sortOrder",
+      title: "Sort Order",
+      type: "number",
+      description: "Position in the host's list of meeting types",
+      validation: (Rule) => Rule.integer().min(0),
+    }),
   ],
   preview: {
     select: {
       title: "name",
       duration: "duration",
       hostName: "host.name",
+      archived: "archived",
+      hidden: "hidden",
     },
-    prepare({ title, duration, hostName }) {
+    prepare({ title, duration, hostName, archived, hidden }) {
+      const state = archived ? " (archived)" : hidden ? " (hidden)" : "";
       return {
-        title: title || "Untitled",
+        title: `${title || "Untitled"}${state}`,
         subtitle: `${duration} min · ${hostName || "No host"}`,
       };
     },
   },
-});
\ No newline at end of file
+});
@@ -0,0 +1,41 @@
+import { UsersIcon } from "@sanity/icons";
+import { defineField, defineType } from "sanity";
+import {
+  DEFAULT_ROUND_ROBIN_PRIORITY,
+  MAX_ROUND_ROBIN_PRIORITY,
+  MIN_ROUND_ROBIN_PRIORITY,
+} from "../../lib/scheduling";
+
+export const roundRobinHostType = defineType({
+  name: "roundRobinHost",
+  title: "Round-robin Host",
+  type: "object",
+  icon: UsersIcon,
+  fields: [
+    defineField({
+      name: "host",
+      type: "reference",
+      to: [{ type: "user" }],
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "priority",
+      type: "number",
+      description: `With weighted priority, hosts get bookings in proportion to their priority (${MIN_ROUND_ROBIN_PRIORITY} to ${MAX_ROUND_ROBIN_PRIORITY})`,
+      initialValue: DEFAULT_ROUND_ROBIN_PRIORITY,
+      validation: (Rule) =>
+        Rule.integer()
+          .min(MIN_ROUND_ROBIN_PRIORITY)
+          .max(MAX_ROUND_ROBIN_PRIORITY),
+    }),
+  ],
+  preview: {
+    select: { title: "host.name", priority: "priority" },
+    prepare({ title, priority }) {
+      return {
+        title: title || "No host",
+        subtitle: `Priority ${priority ?? DEFAULT_ROUND_ROBIN_PRIORITY}`,
+      };
+    },
+  },
+});
@@ -0,0 +1,67 @@
+import { CalendarIcon } from "@sanity/icons";
+import { defineArrayMember, defineField, defineType } from "sanity";
+
+export const scheduleType = defineType({
+  name: "schedule",
+  title: "Schedule",
+  type: "document",
+  icon: CalendarIcon,
+  fields: [
+    defineField({
+      name: "name",
+      type: "string",
+      description: "e.g., 'Office hours', 'Sales calls'",
+      validation: (Rule) => [
+        Rule.required().error("Schedule name is required"),
+        Rule.max(50).warning("Keep it short and descriptive"),
+      ],
+    }),
+    defineField({
+      name: "host",
+      type: "reference",
+      to: [{ type: "user" }],
+      validation: (Rule) => Rule.required().error("Host is required"),
+    }),
+    defineField({
+      name: "timezone",
+      title: "Timezone",
+      type: "string",
+      description: "IANA timezone for this schedule's days, e.g. Europe/Berlin",
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: "availability",
+      title: "Availability",
+      type: "array",
+      of: [defineArrayMember({ type: "availabilitySlot" })],
+      description: "One-off time blocks when the host is available",
+    }),
+    defineField({
+      name: "availabilityRules",
+      title: "Weekly Availability",
+      type: "array",
+      of: [defineArrayMember({ type: "availabilityRule" })],
+      description: "Recurring weekly hours",
+    }),
+    defineField({
+      name: "availabilityOverrides",
+      title: "Date Overrides",
+      type: "array",
+      of: [defineArrayMember({ type: "availabilityOverride" })],
+      description: "Time off and custom hours for specific dates",
+    }),
+  ],
+  preview: {
+    select: {
+      title: "name",
+      hostName: "host.name",
+      timezone: "timezone",
+    },
+    prepare({ title, hostName, timezone }) {
+      return {
+        title: title || "Untitled",
+        subtitle: `${hostName || "No host"}${timezone ? ` · ${timezone}` : ""}`,
+      };
+    },
+  },
+});
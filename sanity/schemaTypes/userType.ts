@@ -1,5 +1,5 @@
-import { defineField, defineType, defineArrayMember } from "sanity";
 import { UserIcon } from "@sanity/icons";
+import { defineArrayMember, defineField, defineType } from "sanity";
 
 export const userType = defineType({
   name: "user",
@@ -32,6 +32,13 @@ export const userType = defineType({
       options: { source: "name" },
       description: "Used for the public booking page URL",
     }),
+    defineField({
+      name: "timezone",
+      title: "Timezone",
+      type: "string",
+      description:
+        "IANA timezone for working hours and day boundaries, e.g. Europe/Berlin (defaults to the browser's timezone)",
+    }),
     defineField({
       name: "availability",
       title: "Availability",
@@ -39,6 +46,77 @@ export const userType = defineType({
       of: [defineArrayMember({ type: "availabilitySlot" })],
       description: "Time blocks when the user is available",
     }),
+    defineField({
+      name: "availabilityRules",
+      title: "Weekly Availability",
+      type: "array",
+      of: [defineArrayMember({ type: "availabilityRule" })],
+      description:
+        "Recurring weekly hours, expanded on the fly alongside the one-off blocks above",
+    }),
+    defineField({
+      name: "availabilityOverrides",
+      title: "Date Overrides",
+      type: "array",
+      of: [defineArrayMember({ type: "availabilityOverride" })],
+      description:
+        "Time off and custom hours for specific dates (take precedence over all other availability)",
+    }),
+    defineField({
+      name: "availabilityCalendar",
+      title: "Availability Calendar",
+      type: "object",
+      description:
+        "A Google calendar whose events are read as open hours (on top of, or instead of, the blocks above)",
+      fields: [
+        defineField({
+          name: "accountKey",
+          title: "Connected Account Key",
+          type: "string",
+          validation: (Rule) => Rule.required(),
+        }),
+        defineField({
+          name: "calendarId",
+          title: "Calendar ID",
+          type: "string",
+          validation: (Rule) => Rule.required(),
+        }),
+        defineField({
+          name: "calendarName",
+          title: "Calendar Name",
+          type: "string",
+        }),
+        defineField({
+          name: "mode",
+          title: "Mode",
+          type: "string",
+          options: {
+            list: [
+              { title: "Add to availability blocks", value: "merge" },
+              { title: "Replace availability blocks", value: "replace" },
+            ],
+            layout: "radio",
+          },
+          initialValue: "merge",
+          validation: (Rule) => Rule.required(),
+        }),
+      ],
+    }),
+    defineField({
+      name: "maxBookingsPerDay",
+      title: "Max Bookings Per Day",
+      type: "number",
+      description: "Across all meeting types. Leave empty for no limit",
+      validation: (Rule) => Rule.min(1).integer(),
+    }),
+    defineField({
+      name: "maxBookingsPerWeek",
+      title: "Max Bookings Per Week",
+      type: "number",
+      description:
+        "Across all meeting types, Monday to Sunday. Leave empty for no limit",
+      validation: (Rule) => Rule.min(1).integer(),
+    }),
     defineField({
       name: "connectedAccounts",
       title: "Connected Accounts",
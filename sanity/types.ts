@@ -13,6 +13,75 @@
  */
 
 // Source: schema.json
+export type HostInvitation = {
+  _type: "hostInvitation";
+  invitee: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "user";
+  };
+  role: "coHost" | "roundRobinHost";
+  priority?: number;
+  invitedAt?: string;
+};
+
+export type RoundRobinHost = {
+  _type: "roundRobinHost";
+  host: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "user";
+  };
+  priority?: number;
+};
+
+export type BookingLink = {
+  _id: string;
+  _type: "bookingLink";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  token: string;
+  host: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "user";
+  };
+  meetingType: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "meetingType";
+  };
+  singleUse?: boolean;
+  expiresAt?: string;
+  usedAt?: string;
+  booking?: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "booking";
+  };
+  createdAt?: string;
+};
+
+export type IntakeAnswer = {
+  _type: "intakeAnswer";
+  question?: string;
+  answer?: string;
+};
+
+export type IntakeQuestion = {
+  _type: "intakeQuestion";
+  label: string;
+  type: "shortText" | "longText" | "singleChoice" | "multiChoice" | "phone" | "checkbox";
+  required?: boolean;
+  options?: Array<string>;
+};
+
 export type Feedback = {
   _id: string;
   _type: "feedback";
@@ -42,19 +111,52 @@ export type Booking = {
     _weak?: boolean;
     [internalGroqTypeReferenceTo]?: "user";
   };
+  coHosts?: Array<{
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    _key: string;
+    [internalGroqTypeReferenceTo]?: "user";
+  }>;
   meetingType?: {
     _ref: string;
     _type: "reference";
     _weak?: boolean;
     [internalGroqTypeReferenceTo]?: "meetingType";
   };
+  meetingTypeName?: string;
   guestName: string;
   guestEmail: string;
   startTime: string;
   endTime: string;
+  status: "pending" | "confirmed" | "cancelled" | "rescheduled" | "declined" | "noShow" | "completed";
+  statusChangedAt?: string;
+  cancelledBy?: "host" | "guest";
+  cancellationReason?: string;
+  rescheduledFrom?: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "booking";
+  };
+  rescheduledTo?: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "booking";
+  };
   googleEventId?: string;
+  manageToken?: string;
+  duration?: number;
+  location?: {
+    type?: "googleMeet" | "jitsi" | "customVideo" | "inPerson" | "guestPhone" | "hostPhone";
+    value?: string;
+  };
   meetLink?: string;
   notes?: string;
+  answers?: Array<{
+    _key: string;
+  } & IntakeAnswer>;
 };
 
 export type MeetingType = {
@@ -65,15 +167,91 @@ export type MeetingType = {
   _rev: string;
   name: string;
   slug: Slug;
-  duration: 15 | 30 | 45 | 60 | 90;
+  previousSlugs?: Array<string>;
+  duration: number;
+  durationOptions?: Array<number>;
+  slotInterval?: 10 | 15 | 20 | 30 | 60;
+  bufferBefore?: number;
+  bufferAfter?: number;
+  minimumNotice?: {
+    amount?: number;
+    unit?: "minutes" | "hours" | "days" | "businessDays";
+  };
+  bookingWindow?: {
+    mode?: "unlimited" | "rolling" | "until";
+    days?: number;
+    untilDate?: string;
+  };
+  maxBookingsPerDay?: number;
+  maxBookingsPerWeek?: number;
+  seats?: number;
   description?: string;
+  location?: {
+    type?: "googleMeet" | "jitsi" | "customVideo" | "inPerson" | "guestPhone" | "hostPhone";
+    address?: string;
+    phone?: string;
+    url?: string;
+    jitsiDomain?: string;
+  };
+  questions?: Array<{
+    _key: string;
+  } & IntakeQuestion>;
   host: {
     _ref: string;
     _type: "reference";
     _weak?: boolean;
     [internalGroqTypeReferenceTo]?: "user";
   };
+  schedulingType?: "individual" | "collective" | "roundRobin";
+  coHosts?: Array<{
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    _key: string;
+    [internalGroqTypeReferenceTo]?: "user";
+  }>;
+  hostInvitations?: Array<{
+    _key: string;
+  } & HostInvitation>;
+  roundRobinHosts?: Array<{
+    _key: string;
+  } & RoundRobinHost>;
+  roundRobinStrategy?: "leastRecentlyBooked" | "fewestThisWeek" | "weighted";
+  schedule?: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "schedule";
+  };
   isDefault?: boolean;
+  archived?: boolean;
+  hidden?: boolean;
+  sortOrder?: number;
+};
+
+export type Schedule = {
+  _id: string;
+  _type: "schedule";
+  _createdAt: string;
+  _updatedAt: string;
+  _rev: string;
+  name: string;
+  host: {
+    _ref: string;
+    _type: "reference";
+    _weak?: boolean;
+    [internalGroqTypeReferenceTo]?: "user";
+  };
+  timezone: string;
+  availability?: Array<{
+    _key: string;
+  } & AvailabilitySlot>;
+  availabilityRules?: Array<{
+    _key: string;
+  } & AvailabilityRule>;
+  availabilityOverrides?: Array<{
+    _key: string;
+  } & AvailabilityOverride>;
 };
 
 export type Slug = {
@@ -91,9 +269,42 @@ export type ConnectedAccount = {
   refreshToken?: string;
   expiryDate?: number;
   isDefault?: boolean;
+  busyRules?: {
+    allDay?: boolean;
+    tentative?: boolean;
+    free?: boolean;
+    declined?: boolean;
+    workingLocation?: boolean;
+    outOfOffice?: boolean;
+  };
   connectedAt?: string;
 };
 
+export type AvailabilityOverride = {
+  _type: "availabilityOverride";
+  type: "unavailable" | "custom";
+  startDate: string;
+  endDate?: string;
+  hours?: Array<{
+    startTime: string;
+    endTime: string;
+    _type: "timeRange";
+    _key: string;
+  }>;
+  timezone: string;
+  label?: string;
+};
+
+export type AvailabilityRule = {
+  _type: "availabilityRule";
+  days: Array<string>;
+  startTime: string;
+  endTime: string;
+  timezone: string;
+  effectiveFrom?: string;
+  effectiveUntil?: string;
+};
+
 export type AvailabilitySlot = {
   _type: "availabilitySlot";
   startDateTime: string;
@@ -110,9 +321,24 @@ export type User = {
   name?: string;
   email?: string;
   slug?: Slug;
+  timezone?: string;
   availability?: Array<{
     _key: string;
   } & AvailabilitySlot>;
+  availabilityRules?: Array<{
+    _key: string;
+  } & AvailabilityRule>;
+  availabilityOverrides?: Array<{
+    _key: string;
+  } & AvailabilityOverride>;
+  availabilityCalendar?: {
+    accountKey: string;
+    calendarId: string;
+    calendarName?: string;
+    mode: "merge" | "replace";
+  };
+  maxBookingsPerDay?: number;
+  maxBookingsPerWeek?: number;
   connectedAccounts?: Array<{
     _key: string;
   } & ConnectedAccount>;
@@ -230,19 +456,111 @@ export type Geopoint = {
   alt?: number;
 };
 
-export type AllSanitySchemaTypes = Feedback | Booking | MeetingType | Slug | ConnectedAccount | AvailabilitySlot | User | SanityImagePaletteSwatch | SanityImagePalette | SanityImageDimensions | SanityImageMetadata | SanityImageHotspot | SanityImageCrop | SanityFileAsset | SanityAssetSourceData | SanityImageAsset | Geopoint;
+export type AllSanitySchemaTypes = HostInvitation | RoundRobinHost | BookingLink | IntakeAnswer | IntakeQuestion | Feedback | Booking | MeetingType | Schedule | Slug | ConnectedAccount | AvailabilityOverride | AvailabilityRule | AvailabilitySlot | User | SanityImagePaletteSwatch | SanityImagePalette | SanityImageDimensions | SanityImageMetadata | SanityImageHotspot | SanityImageCrop | SanityFileAsset | SanityAssetSourceData | SanityImageAsset | Geopoint;
 export declare const internalGroqTypeReferenceTo: unique symbol;
 // Source: lib/actions/availability.ts
+// Variable: AVAILABILITY_REVISION_QUERY
+// Query: *[_id == $documentId][0]{  _rev,  availability[]{    _key,    startDateTime,    endDateTime  }}
+export type AVAILABILITY_REVISION_QUERYResult = {
+  _rev: string;
+  availability: null;
+} | {
+  _rev: string;
+  availability: Array<{
+    _key: string;
+    startDateTime: string;
+    endDateTime: string;
+  }> | null;
+} | null;
 // Variable: COUNT_USER_BOOKINGS_QUERY
-// Query: count(*[  _type == "booking"  && host->clerkId == $clerkId  && startTime >= $monthStart  && startTime < $monthEnd])
+// Query: count(*[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && host->clerkId == $clerkId  && startTime >= $monthStart  && startTime < $monthEnd])
 export type COUNT_USER_BOOKINGS_QUERYResult = number;
 // Variable: HAS_CONNECTED_ACCOUNT_QUERY
 // Query: count(*[  _type == "user"  && clerkId == $clerkId  && defined(connectedAccounts)  && length(connectedAccounts) > 0]) > 0
 export type HAS_CONNECTED_ACCOUNT_QUERYResult = boolean;
 
+// Source: lib/actions/meetingTypes.ts
+// Variable: MEETING_TYPE_ORDER_QUERY
+// Query: *[  _type == "meetingType"  && host._ref == $hostId] | order(coalesce(sortOrder, 0) asc, name asc) {  _id,  isDefault,  archived}
+export type MEETING_TYPE_ORDER_QUERYResult = Array<{
+  _id: string;
+  isDefault: boolean | null;
+  archived: boolean | null;
+}>;
+// Variable: MEETING_TYPE_FOR_HOST_QUERY
+// Query: *[  _type == "meetingType"  && _id == $meetingTypeId  && host->clerkId == $clerkId][0]{  _id,  name,  "slug": slug.current,  isDefault,  archived,  previousSlugs,  "hostId": host._ref}
+export type MEETING_TYPE_FOR_HOST_QUERYResult = {
+  _id: string;
+  name: string;
+  slug: string;
+  isDefault: boolean | null;
+  archived: boolean | null;
+  previousSlugs: Array<string> | null;
+  hostId: string;
+} | null;
+// Variable: MEETING_TYPE_SLUGS_QUERY
+// Query: *[  _type == "meetingType"  && host._ref == $hostId  && _id != $excludeId] {  "slug": slug.current,  previousSlugs}
+export type MEETING_TYPE_SLUGS_QUERYResult = Array<{
+  slug: string;
+  previousSlugs: Array<string> | null;
+}>;
+// Variable: USERS_BY_EMAILS_QUERY
+// Query: *[  _type == "user"  && lower(email) in $emails] {  _id,  email}
+export type USERS_BY_EMAILS_QUERYResult = Array<{
+  _id: string;
+  email: string | null;
+}>;
+// Variable: MEETING_TYPE_HOSTS_QUERY
+// Query: *[  _type == "meetingType"  && _id == $meetingTypeId][0]{  _rev,  "coHostIds": coHosts[]._ref,  "roundRobinHostIds": roundRobinHosts[].host._ref,  hostInvitations[] {    role,    invitedAt,    "inviteeId": invitee._ref  }}
+export type MEETING_TYPE_HOSTS_QUERYResult = {
+  _rev: string;
+  coHostIds: Array<string> | null;
+  roundRobinHostIds: Array<string> | null;
+  hostInvitations: Array<{
+    role: "coHost" | "roundRobinHost";
+    invitedAt: string | null;
+    inviteeId: string;
+  }> | null;
+} | null;
+// Variable: HOST_INVITATION_QUERY
+// Query: *[  _type == "meetingType"  && _id == $meetingTypeId  && archived != true][0]{  _rev,  "invitation": hostInvitations[invitee._ref == $userId][0] {    _key,    role,    priority  }}
+export type HOST_INVITATION_QUERYResult = {
+  _rev: string;
+  invitation: {
+    _key: string;
+    role: "coHost" | "roundRobinHost";
+    priority: number | null;
+  } | null;
+} | null;
+// Variable: BOOKING_IDS_BY_MEETING_TYPE_QUERY
+// Query: *[  _type == "booking"  && meetingType._ref == $meetingTypeId]._id
+export type BOOKING_IDS_BY_MEETING_TYPE_QUERYResult = Array<string>;
+// Variable: BOOKING_LINK_IDS_BY_MEETING_TYPE_QUERY
+// Query: *[  _type == "bookingLink"  && meetingType._ref == $meetingTypeId]._id
+export type BOOKING_LINK_IDS_BY_MEETING_TYPE_QUERYResult = Array<string>;
+
+// Source: lib/actions/schedule.ts
+// Variable: MEETING_TYPE_ID_FOR_HOST_QUERY
+// Query: *[  _type == "meetingType"  && _id == $meetingTypeId  && host->clerkId == $clerkId][0]._id
+export type MEETING_TYPE_ID_FOR_HOST_QUERYResult = string | null;
+// Variable: MEETING_TYPE_IDS_BY_SCHEDULE_QUERY
+// Query: *[  _type == "meetingType"  && schedule._ref == $scheduleId]._id
+export type MEETING_TYPE_IDS_BY_SCHEDULE_QUERYResult = Array<string>;
+
+// Source: sanity/queries/bookingLinks.ts
+// Variable: BOOKING_LINK_BY_TOKEN_QUERY
+// Query: *[  _type == "bookingLink"  && token == $linkToken  && host->slug.current == $hostSlug  && meetingType->slug.current == $meetingTypeSlug][0] {  _id,  _rev,  singleUse,  expiresAt,  usedAt}
+export type BOOKING_LINK_BY_TOKEN_QUERYResult = {
+  _id: string;
+  _rev: string;
+  singleUse: boolean | null;
+  expiresAt: string | null;
+  usedAt: string | null;
+} | null;
+
 // Source: sanity/queries/bookings.ts
 // Variable: BOOKINGS_BY_HOST_QUERY
-// Query: *[  _type == "booking"  && host._ref == $hostId] | order(startTime asc) {  _id,  _type,  guestName,  guestEmail,  startTime,  endTime,  notes,  googleEventId,  meetLink}
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && host._ref == $hostId] | order(startTime asc) {  _id,  _type,  guestName,  guestEmail,  startTime,  endTime,  notes,  googleEventId,  meetLink}
 export type BOOKINGS_BY_HOST_QUERYResult = Array<{
   _id: string;
   _type: "booking";
@@ -255,16 +573,17 @@ export type BOOKINGS_BY_HOST_QUERYResult = Array<{
   meetLink: string | null;
 }>;
 // Variable: BOOKINGS_IN_RANGE_QUERY
-// Query: *[  _type == "booking"  && host._ref == $hostId  && startTime >= $startDate  && startTime <= $endDate] | order(startTime asc) {  _id,  startTime,  endTime,  googleEventId,  guestEmail}
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && host._ref == $hostId  && startTime >= $startDate  && startTime <= $endDate] | order(startTime asc) {  _id,  startTime,  endTime,  googleEventId,  guestEmail,  "meetingTypeId": meetingType._ref}
 export type BOOKINGS_IN_RANGE_QUERYResult = Array<{
   _id: string;
   startTime: string;
   endTime: string;
   googleEventId: string | null;
   guestEmail: string;
+  meetingTypeId: string | null;
 }>;
 // Variable: BOOKING_BY_ID_QUERY
-// Query: *[  _type == "booking"  && _id == $bookingId][0]{  _id,  _type,  host->{    _id,    name,    email  },  guestName,  guestEmail,  startTime,  endTime,  notes,  googleEventId,  meetLink}
+// Query: *[  _type == "booking"  && _id == $bookingId][0]{  _id,  _type,  host->{    _id,    name,    email  },  guestName,  guestEmail,  startTime,  endTime,  status,  notes,  googleEventId,  meetLink}
 export type BOOKING_BY_ID_QUERYResult = {
   _id: string;
   _type: "booking";
@@ -277,17 +596,20 @@ export type BOOKING_BY_ID_QUERYResult = {
   guestEmail: string;
   startTime: string;
   endTime: string;
+  status: "cancelled" | "completed" | "confirmed" | "declined" | "noShow" | "pending" | "rescheduled";
   notes: string | null;
   googleEventId: string | null;
   meetLink: string | null;
 } | null;
 // Variable: BOOKING_WITH_HOST_CALENDAR_QUERY
-// Query: *[  _type == "booking"  && _id == $bookingId][0]{  _id,  googleEventId,  host->{    _id,    connectedAccounts[isDefault == true][0]{      _key,      accountId,      email,      accessToken,      refreshToken,      expiryDate,      isDefault    }  }}
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && _id == $bookingId][0]{  _id,  googleEventId,  guestEmail,  host->{    _id,    clerkId,    connectedAccounts[isDefault == true][0]{      _key,      accountId,      email,      accessToken,      refreshToken,      expiryDate,      isDefault    }  }}
 export type BOOKING_WITH_HOST_CALENDAR_QUERYResult = {
   _id: string;
   googleEventId: string | null;
+  guestEmail: string;
   host: {
     _id: string;
+    clerkId: string;
     connectedAccounts: {
       _key: string;
       accountId: string;
@@ -299,8 +621,57 @@ export type BOOKING_WITH_HOST_CALENDAR_QUERYResult = {
     } | null;
   };
 } | null;
+// Variable: BOOKING_BY_MANAGE_TOKEN_QUERY
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && manageToken == $manageToken][0]{  _id,  guestName,  guestEmail,  startTime,  endTime,  duration,  googleEventId,  meetLink,  location {    type,    value  },  "meetingTypeId": meetingType._ref,  "meetingTypeName": coalesce(meetingType->name, meetingTypeName),  "meetingTypeSlug": meetingType->slug.current,  "meetingTypeHostSlug": meetingType->host->slug.current,  "meetingTypeArchived": meetingType->archived,  host->{    _id,    name,    "slug": slug.current,    connectedAccounts[isDefault == true][0]{      _key,      accountId,      email,      accessToken,      refreshToken,      expiryDate,      isDefault    }  }}
+export type BOOKING_BY_MANAGE_TOKEN_QUERYResult = {
+  _id: string;
+  guestName: string;
+  guestEmail: string;
+  startTime: string;
+  endTime: string;
+  duration: number | null;
+  googleEventId: string | null;
+  meetLink: string | null;
+  location: {
+    type: "customVideo" | "googleMeet" | "guestPhone" | "hostPhone" | "inPerson" | "jitsi" | null;
+    value: string | null;
+  } | null;
+  meetingTypeId: string | null;
+  meetingTypeName: string | null;
+  meetingTypeSlug: string | null;
+  meetingTypeHostSlug: string | null;
+  meetingTypeArchived: boolean | null;
+  host: {
+    _id: string;
+    name: string | null;
+    slug: string | null;
+    connectedAccounts: {
+      _key: string;
+      accountId: string;
+      email: string;
+      accessToken: string | null;
+      refreshToken: string | null;
+      expiryDate: number | null;
+      isDefault: boolean | null;
+    } | null;
+  };
+} | null;
+// Variable: OTHER_BOOKINGS_ON_EVENT_COUNT_QUERY
+// Query: count(*[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && googleEventId == $googleEventId  && _id != $bookingId])
+export type OTHER_BOOKINGS_ON_EVENT_COUNT_QUERYResult = number;
+// Variable: GROUP_MEETING_BOOKING_QUERY
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && host._ref == $hostId  && meetingType._ref == $meetingTypeId  && startTime == $startTime  && endTime == $endTime] | order(_createdAt asc)[0] {  _id,  googleEventId,  meetLink,  location {    type,    value  }}
+export type GROUP_MEETING_BOOKING_QUERYResult = {
+  _id: string;
+  googleEventId: string | null;
+  meetLink: string | null;
+  location: {
+    type: "customVideo" | "googleMeet" | "guestPhone" | "hostPhone" | "inPerson" | "jitsi" | null;
+    value: string | null;
+  } | null;
+} | null;
 // Variable: HOST_BOOKINGS_BY_CLERK_ID_QUERY
-// Query: *[  _type == "booking"  && host->clerkId == $clerkId] | order(startTime desc) {  _id,  _type,  guestName,  guestEmail,  startTime,  endTime,  notes,  googleEventId,  meetLink}
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && host->clerkId == $clerkId] | order(startTime asc) {  _id,  _type,  guestName,  guestEmail,  startTime,  endTime,  notes,  answers[] {    _key,    question,    answer  },  location {    type,    value  },  googleEventId,  meetLink}
 export type HOST_BOOKINGS_BY_CLERK_ID_QUERYResult = Array<{
   _id: string;
   _type: "booking";
@@ -309,11 +680,20 @@ export type HOST_BOOKINGS_BY_CLERK_ID_QUERYResult = Array<{
   startTime: string;
   endTime: string;
   notes: string | null;
+  answers: Array<{
+    _key: string;
+    question: string | null;
+    answer: string | null;
+  }> | null;
+  location: {
+    type: "customVideo" | "googleMeet" | "guestPhone" | "hostPhone" | "inPerson" | "jitsi" | null;
+    value: string | null;
+  } | null;
   googleEventId: string | null;
   meetLink: string | null;
 }>;
 // Variable: HOST_UPCOMING_BOOKINGS_QUERY
-// Query: *[  _type == "booking"  && host->clerkId == $clerkId  && startTime >= $startDate] | order(startTime asc) {  _id,  guestName,  guestEmail,  startTime,  endTime,  googleEventId,  meetLink}
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && host->clerkId == $clerkId  && startTime >= $startDate] | order(startTime asc) {  _id,  guestName,  guestEmail,  startTime,  endTime,  googleEventId,  meetLink}
 export type HOST_UPCOMING_BOOKINGS_QUERYResult = Array<{
   _id: string;
   guestName: string;
@@ -324,51 +704,331 @@ export type HOST_UPCOMING_BOOKINGS_QUERYResult = Array<{
   meetLink: string | null;
 }>;
 // Variable: BOOKINGS_BY_HOST_SLUG_IN_RANGE_QUERY
-// Query: *[  _type == "booking"  && host->slug.current == $hostSlug  && startTime >= $startDate  && startTime <= $endDate] | order(startTime asc) {  _id,  startTime,  endTime}
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && host->slug.current == $hostSlug  && startTime >= $startDate  && startTime <= $endDate] | order(startTime asc) {  _id,  startTime,  endTime}
 export type BOOKINGS_BY_HOST_SLUG_IN_RANGE_QUERYResult = Array<{
   _id: string;
   startTime: string;
   endTime: string;
 }>;
 // Variable: ALL_BOOKINGS_BY_HOST_SLUG_QUERY
-// Query: *[  _type == "booking"  && host->slug.current == $hostSlug] | order(startTime asc) {  _id,  startTime,  endTime,  googleEventId,  guestEmail}
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && host->slug.current == $hostSlug] | order(startTime asc) {  _id,  startTime,  endTime,  googleEventId,  guestEmail,  "meetingTypeId": meetingType._ref}
 export type ALL_BOOKINGS_BY_HOST_SLUG_QUERYResult = Array<{
   _id: string;
   startTime: string;
   endTime: string;
   googleEventId: string | null;
   guestEmail: string;
+  meetingTypeId: string | null;
+}>;
+// Variable: BOOKINGS_ATTENDED_BY_HOSTS_QUERY
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && host._ref != $hostId  && (host._ref in $hostIds || count(coHosts[_ref in $hostIds]) > 0)  && startTime < $endDate  && endTime > $startDate] | order(startTime asc) {  _id,  startTime,  endTime}
+export type BOOKINGS_ATTENDED_BY_HOSTS_QUERYResult = Array<{
+  _id: string;
+  startTime: string;
+  endTime: string;
+}>;
+// Variable: BOOKINGS_ATTENDED_BY_HOST_QUERY
+// Query: *[  _type == "booking"  && !(status in ["cancelled", "rescheduled", "declined"])  && (host._ref == $hostId || $hostId in coHosts[]._ref)  && startTime < $endDate  && endTime > $startDate] | order(startTime asc) {  _id,  startTime,  endTime,  "meetingTypeId": meetingType._ref}
+export type BOOKINGS_ATTENDED_BY_HOST_QUERYResult = Array<{
+  _id: string;
+  startTime: string;
+  endTime: string;
+  meetingTypeId: string | null;
+}>;
+// Variable: ROUND_ROBIN_HISTORY_QUERY
+// Query: *[  _type == "user"  && _id in $hostIds] {  _id,  "lastBookedAt": *[    _type == "booking"    && !(status in ["cancelled", "rescheduled", "declined"])    && meetingType._ref == $meetingTypeId    && host._ref == ^._id  ] | order(_createdAt desc)[0]._createdAt,  "weekBookings": count(*[    _type == "booking"    && !(status in ["cancelled", "rescheduled", "declined"])    && meetingType._ref == $meetingTypeId    && host._ref == ^._id    && startTime >= $weekStart    && startTime < $weekEnd  ])}
+export type ROUND_ROBIN_HISTORY_QUERYResult = Array<{
+  _id: string;
+  lastBookedAt: string | null;
+  weekBookings: number;
 }>;
 
 // Source: sanity/queries/meetingTypes.ts
 // Variable: MEETING_TYPES_BY_HOST_QUERY
-// Query: *[  _type == "meetingType"  && host->clerkId == $clerkId] | order(isDefault desc, name asc) {  _id,  name,  "slug": slug.current,  duration,  description,  isDefault}
+// Query: *[  _type == "meetingType"  && host->clerkId == $clerkId] | order(coalesce(sortOrder, 0) asc, name asc) {  _id,  name,  "slug": slug.current,  duration,  durationOptions,  description,  isDefault,  archived,  hidden,  seats,  schedulingType,  "coHostEmails": coHosts[]->email,  hostInvitations[] {    _key,    role,    priority,    "email": invitee->email  },  roundRobinStrategy,  roundRobinHosts[] {    _key,    priority,    "email": host->email  },  location {    type,    address,    phone,    url,    jitsiDomain  },  questions[] {    _key,    label,    type,    required,    options  },  "scheduleId": schedule._ref,  "bookingCount": count(*[    _type == "booking"    && !(status in ["cancelled", "rescheduled", "declined"])    && references(^._id)  ])}
 export type MEETING_TYPES_BY_HOST_QUERYResult = Array<{
   _id: string;
   name: string;
   slug: string;
-  duration: 15 | 30 | 45 | 60 | 90;
+  duration: number;
+  durationOptions: Array<number> | null;
   description: string | null;
   isDefault: boolean | null;
+  archived: boolean | null;
+  hidden: boolean | null;
+  seats: number | null;
+  schedulingType: "collective" | "individual" | "roundRobin" | null;
+  coHostEmails: Array<string | null> | null;
+  hostInvitations: Array<{
+    _key: string;
+    role: "coHost" | "roundRobinHost";
+    priority: number | null;
+    email: string | null;
+  }> | null;
+  roundRobinStrategy: "fewestThisWeek" | "leastRecentlyBooked" | "weighted" | null;
+  roundRobinHosts: Array<{
+    _key: string;
+    priority: number | null;
+    email: string | null;
+  }> | null;
+  location: {
+    type: "customVideo" | "googleMeet" | "guestPhone" | "hostPhone" | "inPerson" | "jitsi" | null;
+    address: string | null;
+    phone: string | null;
+    url: string | null;
+    jitsiDomain: string | null;
+  } | null;
+  questions: Array<{
+    _key: string;
+    label: string;
+    type: "checkbox" | "longText" | "multiChoice" | "phone" | "shortText" | "singleChoice";
+    required: boolean | null;
+    options: Array<string> | null;
+  }> | null;
+  scheduleId: string | null;
+  bookingCount: number;
+}>;
+// Variable: HOST_INVITATIONS_QUERY
+// Query: *[  _type == "meetingType"  && archived != true  && *[_type == "user" && clerkId == $clerkId][0]._id in hostInvitations[].invitee._ref] | order(name asc) {  _id,  name,  schedulingType,  "ownerName": host->name,  "invitation": hostInvitations[invitee->clerkId == $clerkId][0] {    role,    invitedAt  }}
+export type HOST_INVITATIONS_QUERYResult = Array<{
+  _id: string;
+  name: string;
+  schedulingType: "collective" | "individual" | "roundRobin" | null;
+  ownerName: string | null;
+  invitation: {
+    role: "coHost" | "roundRobinHost";
+    invitedAt: string | null;
+  } | null;
 }>;
 // Variable: MEETING_TYPE_BY_SLUGS_QUERY
-// Query: *[  _type == "meetingType"  && host->slug.current == $hostSlug  && slug.current == $meetingTypeSlug][0] {  _id,  name,  "slug": slug.current,  duration,  description,  host-> {    _id,    name,    email,    "slug": slug.current,    availability[] {      _key,      startDateTime,      endDateTime    },    connectedAccounts[] {      _key,      accountId,      email,      isDefault,      accessToken,      refreshToken,      expiryDate    }  }}
+// Query: *[  _type == "meetingType"  && host->slug.current == $hostSlug  && slug.current == $meetingTypeSlug  && archived != true][0] {  _id,  name,  "slug": slug.current,  duration,  durationOptions,  bufferBefore,  bufferAfter,  slotInterval,  minimumNotice,  bookingWindow,  maxBookingsPerDay,  maxBookingsPerWeek,  seats,  description,  location {    type,    address,    phone,    url,    jitsiDomain  },  questions[] {    _key,    label,    type,    required,    options  },  schedule-> {    _id,    timezone,    availability[] {      _key,      startDateTime,      endDateTime    },    availabilityRules[] {      _key,      days,      startTime,      endTime,      timezone,      effectiveFrom,      effectiveUntil    },    availabilityOverrides[] {      _key,      type,      startDate,      endDate,      hours[] {        _key,        startTime,        endTime      },      timezone,      label    }  },  schedulingType,  coHosts[]-> {    _id,    name,    email,    timezone,    availability[] {      _key,      startDateTime,      endDateTime    },    availabilityRules[] {      _key,      days,      startTime,      endTime,      timezone,      effectiveFrom,      effectiveUntil    },    availabilityOverrides[] {      _key,      type,      startDate,      endDate,      hours[] {        _key,        startTime,        endTime      },      timezone,      label    },    availabilityCalendar {      accountKey,      calendarId,      mode    },    connectedAccounts[] {      _key,      accountId,      email,      isDefault,      accessToken,      refreshToken,      expiryDate,      busyRules    }  },  "invitedCoHostCount": count(hostInvitations[role == "coHost"]),  roundRobinStrategy,  roundRobinHosts[] {    _key,    priority,    host-> {      _id,      name,      email,      slug,      timezone,      maxBookingsPerDay,      maxBookingsPerWeek,      availability[] {        _key,        startDateTime,        endDateTime      },      availabilityRules[] {        _key,        days,        startTime,        endTime,        timezone,        effectiveFrom,        effectiveUntil      },      availabilityOverrides[] {        _key,        type,        startDate,        endDate,        hours[] {          _key,          startTime,          endTime        },        timezone,        label      },      availabilityCalendar {        accountKey,        calendarId,        mode      },      connectedAccounts[] {        _key,        accountId,        email,        accessToken,        refreshToken,        expiryDate,        isDefault,        busyRules      }    }  },  host-> {    _id,    name,    email,    "slug": slug.current,    timezone,    maxBookingsPerDay,    maxBookingsPerWeek,    availability[] {      _key,      startDateTime,      endDateTime    },    availabilityRules[] {      _key,      days,      startTime,      endTime,      timezone,      effectiveFrom,      effectiveUntil    },    availabilityOverrides[] {      _key,      type,      startDate,      endDate,      hours[] {        _key,        startTime,        endTime      },      timezone,      label    },    availabilityCalendar {      accountKey,      calendarId,      mode    },    connectedAccounts[] {      _key,      accountId,      email,      isDefault,      accessToken,      refreshToken,      expiryDate,      busyRules    }  }}
 export type MEETING_TYPE_BY_SLUGS_QUERYResult = {
   _id: string;
   name: string;
   slug: string;
-  duration: 15 | 30 | 45 | 60 | 90;
+  duration: number;
+  durationOptions: Array<number> | null;
+  bufferBefore: number | null;
+  bufferAfter: number | null;
+  slotInterval: 10 | 15 | 20 | 30 | 60 | null;
+  minimumNotice: {
+    amount?: number;
+    unit?: "businessDays" | "days" | "hours" | "minutes";
+  } | null;
+  bookingWindow: {
+    mode?: "rolling" | "unlimited" | "until";
+    days?: number;
+    untilDate?: string;
+  } | null;
+  maxBookingsPerDay: number | null;
+  maxBookingsPerWeek: number | null;
+  seats: number | null;
   description: string | null;
+  location: {
+    type: "customVideo" | "googleMeet" | "guestPhone" | "hostPhone" | "inPerson" | "jitsi" | null;
+    address: string | null;
+    phone: string | null;
+    url: string | null;
+    jitsiDomain: string | null;
+  } | null;
+  questions: Array<{
+    _key: string;
+    label: string;
+    type: "checkbox" | "longText" | "multiChoice" | "phone" | "shortText" | "singleChoice";
+    required: boolean | null;
+    options: Array<string> | null;
+  }> | null;
+  schedule: {
+    _id: string;
+    timezone: string;
+    availability: Array<{
+      _key: string;
+      startDateTime: string;
+      endDateTime: string;
+    }> | null;
+    availabilityRules: Array<{
+      _key: string;
+      days: Array<string>;
+      startTime: string;
+      endTime: string;
+      timezone: string;
+      effectiveFrom: string | null;
+      effectiveUntil: string | null;
+    }> | null;
+    availabilityOverrides: Array<{
+      _key: string;
+      type: "custom" | "unavailable";
+      startDate: string;
+      endDate: string | null;
+      hours: Array<{
+        _key: string;
+        startTime: string;
+        endTime: string;
+      }> | null;
+      timezone: string;
+      label: string | null;
+    }> | null;
+  } | null;
+  schedulingType: "collective" | "individual" | "roundRobin" | null;
+  coHosts: Array<{
+    _id: string;
+    name: string | null;
+    email: string | null;
+    timezone: string | null;
+    availability: Array<{
+      _key: string;
+      startDateTime: string;
+      endDateTime: string;
+    }> | null;
+    availabilityRules: Array<{
+      _key: string;
+      days: Array<string>;
+      startTime: string;
+      endTime: string;
+      timezone: string;
+      effectiveFrom: string | null;
+      effectiveUntil: string | null;
+    }> | null;
+    availabilityOverrides: Array<{
+      _key: string;
+      type: "custom" | "unavailable";
+      startDate: string;
+      endDate: string | null;
+      hours: Array<{
+        _key: string;
+        startTime: string;
+        endTime: string;
+      }> | null;
+      timezone: string;
+      label: string | null;
+    }> | null;
+    availabilityCalendar: {
+      accountKey: string;
+      calendarId: string;
+      mode: "merge" | "replace";
+    } | null;
+    connectedAccounts: Array<{
+      _key: string;
+      accountId: string;
+      email: string;
+      isDefault: boolean | null;
+      accessToken: string | null;
+      refreshToken: string | null;
+      expiryDate: number | null;
+      busyRules: {
+        allDay?: boolean;
+        tentative?: boolean;
+        free?: boolean;
+        declined?: boolean;
+        workingLocation?: boolean;
+        outOfOffice?: boolean;
+      } | null;
+    }> | null;
+  }> | null;
+  invitedCoHostCount: number | null;
+  roundRobinStrategy: "fewestThisWeek" | "leastRecentlyBooked" | "weighted" | null;
+  roundRobinHosts: Array<{
+    _key: string;
+    priority: number | null;
+    host: {
+      _id: string;
+      name: string | null;
+      email: string | null;
+      slug: Slug | null;
+      timezone: string | null;
+      maxBookingsPerDay: number | null;
+      maxBookingsPerWeek: number | null;
+      availability: Array<{
+        _key: string;
+        startDateTime: string;
+        endDateTime: string;
+      }> | null;
+      availabilityRules: Array<{
+        _key: string;
+        days: Array<string>;
+        startTime: string;
+        endTime: string;
+        timezone: string;
+        effectiveFrom: string | null;
+        effectiveUntil: string | null;
+      }> | null;
+      availabilityOverrides: Array<{
+        _key: string;
+        type: "custom" | "unavailable";
+        startDate: string;
+        endDate: string | null;
+        hours: Array<{
+          _key: string;
+          startTime: string;
+          endTime: string;
+        }> | null;
+        timezone: string;
+        label: string | null;
+      }> | null;
+      availabilityCalendar: {
+        accountKey: string;
+        calendarId: string;
+        mode: "merge" | "replace";
+      } | null;
+      connectedAccounts: Array<{
+        _key: string;
+        accountId: string;
+        email: string;
+        accessToken: string | null;
+        refreshToken: string | null;
+        expiryDate: number | null;
+        isDefault: boolean | null;
+        busyRules: {
+          allDay?: boolean;
+          tentative?: boolean;
+          free?: boolean;
+          declined?: boolean;
+          workingLocation?: boolean;
+          outOfOffice?: boolean;
+        } | null;
+      }> | null;
+    };
+  }> | null;
   host: {
     _id: string;
     name: string | null;
     email: string | null;
     slug: string | null;
+    timezone: string | null;
+    maxBookingsPerDay: number | null;
+    maxBookingsPerWeek: number | null;
     availability: Array<{
       _key: string;
       startDateTime: string;
       endDateTime: string;
     }> | null;
+    availabilityRules: Array<{
+      _key: string;
+      days: Array<string>;
+      startTime: string;
+      endTime: string;
+      timezone: string;
+      effectiveFrom: string | null;
+      effectiveUntil: string | null;
+    }> | null;
+    availabilityOverrides: Array<{
+      _key: string;
+      type: "custom" | "unavailable";
+      startDate: string;
+      endDate: string | null;
+      hours: Array<{
+        _key: string;
+        startTime: string;
+        endTime: string;
+      }> | null;
+      timezone: string;
+      label: string | null;
+    }> | null;
+    availabilityCalendar: {
+      accountKey: string;
+      calendarId: string;
+      mode: "merge" | "replace";
+    } | null;
     connectedAccounts: Array<{
       _key: string;
       accountId: string;
@@ -377,16 +1037,28 @@ export type MEETING_TYPE_BY_SLUGS_QUERYResult = {
       accessToken: string | null;
       refreshToken: string | null;
       expiryDate: number | null;
+      busyRules: {
+        allDay?: boolean;
+        tentative?: boolean;
+        free?: boolean;
+        declined?: boolean;
+        workingLocation?: boolean;
+        outOfOffice?: boolean;
+      } | null;
     }> | null;
   };
 } | null;
+// Variable: MEETING_TYPE_SLUG_REDIRECT_QUERY
+// Query: *[  _type == "meetingType"  && host->slug.current == $hostSlug  && $meetingTypeSlug in previousSlugs  && archived != true] | order(_updatedAt desc)[0].slug.current
+export type MEETING_TYPE_SLUG_REDIRECT_QUERYResult = string | null;
 // Variable: MEETING_TYPES_BY_HOST_SLUG_QUERY
-// Query: *[  _type == "meetingType"  && host->slug.current == $hostSlug] | order(isDefault desc, name asc) {  _id,  name,  "slug": slug.current,  duration,  description,  isDefault}
+// Query: *[  _type == "meetingType"  && host->slug.current == $hostSlug  && archived != true  && hidden != true] | order(coalesce(sortOrder, 0) asc, name asc) {  _id,  name,  "slug": slug.current,  duration,  durationOptions,  description,  isDefault}
 export type MEETING_TYPES_BY_HOST_SLUG_QUERYResult = Array<{
   _id: string;
   name: string;
   slug: string;
-  duration: 15 | 30 | 45 | 60 | 90;
+  duration: number;
+  durationOptions: Array<number> | null;
   description: string | null;
   isDefault: boolean | null;
 }>;
@@ -394,6 +1066,54 @@ export type MEETING_TYPES_BY_HOST_SLUG_QUERYResult = Array<{
 // Query: *[  _type == "user"  && clerkId == $clerkId][0]._id
 export type HOST_ID_BY_CLERK_ID_QUERYResult = string | null;
 
+// Source: sanity/queries/schedules.ts
+// Variable: SCHEDULES_BY_HOST_QUERY
+// Query: *[  _type == "schedule"  && host->clerkId == $clerkId] | order(name asc) {  _id,  name,  timezone,  "meetingTypeIds": *[_type == "meetingType" && references(^._id)]._id}
+export type SCHEDULES_BY_HOST_QUERYResult = Array<{
+  _id: string;
+  name: string;
+  timezone: string;
+  meetingTypeIds: Array<string>;
+}>;
+// Variable: SCHEDULE_WITH_AVAILABILITY_QUERY
+// Query: *[  _type == "schedule"  && _id == $scheduleId  && host->clerkId == $clerkId][0]{  _id,  _rev,  name,  timezone,  availability[]{    _key,    startDateTime,    endDateTime  },  availabilityRules[]{    _key,    days,    startTime,    endTime,    timezone,    effectiveFrom,    effectiveUntil  },  availabilityOverrides[]{    _key,    type,    startDate,    endDate,    hours[]{      _key,      startTime,      endTime    },    timezone,    label  }}
+export type SCHEDULE_WITH_AVAILABILITY_QUERYResult = {
+  _id: string;
+  _rev: string;
+  name: string;
+  timezone: string;
+  availability: Array<{
+    _key: string;
+    startDateTime: string;
+    endDateTime: string;
+  }> | null;
+  availabilityRules: Array<{
+    _key: string;
+    days: Array<string>;
+    startTime: string;
+    endTime: string;
+    timezone: string;
+    effectiveFrom: string | null;
+    effectiveUntil: string | null;
+  }> | null;
+  availabilityOverrides: Array<{
+    _key: string;
+    type: "custom" | "unavailable";
+    startDate: string;
+    endDate: string | null;
+    hours: Array<{
+      _key: string;
+      startTime: string;
+      endTime: string;
+    }> | null;
+    timezone: string;
+    label: string | null;
+  }> | null;
+} | null;
+// Variable: SCHEDULE_ID_FOR_HOST_QUERY
+// Query: *[  _type == "schedule"  && _id == $scheduleId  && host->clerkId == $clerkId][0]._id
+export type SCHEDULE_ID_FOR_HOST_QUERYResult = string | null;
+
 // Source: sanity/queries/users.ts
 // Variable: USER_BY_CLERK_ID_QUERY
 // Query: *[  _type == "user"  && clerkId == $clerkId][0]{  _id,  _type,  clerkId,  name,  email,  slug,  availability[]{    _key,    startDateTime,    endDateTime  },  connectedAccounts[]{    _key,    accountId,    email,    provider,    isDefault,    connectedAt  }}
@@ -433,9 +1153,10 @@ export type USER_BY_SLUG_QUERYResult = {
   }> | null;
 } | null;
 // Variable: USER_WITH_TOKENS_QUERY
-// Query: *[  _type == "user"  && clerkId == $clerkId][0]{  _id,  connectedAccounts[]{    _key,    accountId,    email,    accessToken,    refreshToken,    expiryDate,    isDefault  }}
+// Query: *[  _type == "user"  && clerkId == $clerkId][0]{  _id,  "availabilityCalendarAccountKey": availabilityCalendar.accountKey,  connectedAccounts[]{    _key,    accountId,    email,    accessToken,    refreshToken,    expiryDate,    isDefault,    busyRules  }}
 export type USER_WITH_TOKENS_QUERYResult = {
   _id: string;
+  availabilityCalendarAccountKey: string | null;
   connectedAccounts: Array<{
     _key: string;
     accountId: string;
@@ -444,6 +1165,14 @@ export type USER_WITH_TOKENS_QUERYResult = {
     refreshToken: string | null;
     expiryDate: number | null;
     isDefault: boolean | null;
+    busyRules: {
+      allDay?: boolean;
+      tentative?: boolean;
+      free?: boolean;
+      declined?: boolean;
+      workingLocation?: boolean;
+      outOfOffice?: boolean;
+    } | null;
   }> | null;
 } | null;
 // Variable: USER_ID_BY_ACCOUNT_KEY_QUERY
@@ -452,19 +1181,44 @@ export type USER_ID_BY_ACCOUNT_KEY_QUERYResult = {
   _id: string;
 } | null;
 // Variable: USER_ID_BY_CLERK_ID_QUERY
-// Query: *[  _type == "user"  && clerkId == $clerkId][0]{  _id}
+// Query: *[  _type == "user"  && clerkId == $clerkId][0]{  _id,  timezone}
 export type USER_ID_BY_CLERK_ID_QUERYResult = {
   _id: string;
+  timezone: string | null;
 } | null;
 // Variable: USER_WITH_AVAILABILITY_QUERY
-// Query: *[  _type == "user"  && clerkId == $clerkId][0]{  _id,  availability[]{    _key,    startDateTime,    endDateTime  }}
+// Query: *[  _type == "user"  && clerkId == $clerkId][0]{  _id,  _rev,  timezone,  availability[]{    _key,    startDateTime,    endDateTime  },  availabilityRules[]{    _key,    days,    startTime,    endTime,    timezone,    effectiveFrom,    effectiveUntil  },  availabilityOverrides[]{    _key,    type,    startDate,    endDate,    hours[]{      _key,      startTime,      endTime    },    timezone,    label  }}
 export type USER_WITH_AVAILABILITY_QUERYResult = {
   _id: string;
+  _rev: string;
+  timezone: string | null;
   availability: Array<{
     _key: string;
     startDateTime: string;
     endDateTime: string;
   }> | null;
+  availabilityRules: Array<{
+    _key: string;
+    days: Array<string>;
+    startTime: string;
+    endTime: string;
+    timezone: string;
+    effectiveFrom: string | null;
+    effectiveUntil: string | null;
+  }> | null;
+  availabilityOverrides: Array<{
+    _key: string;
+    type: "custom" | "unavailable";
+    startDate: string;
+    endDate: string | null;
+    hours: Array<{
+      _key: string;
+      startTime: string;
+      endTime: string;
+    }> | null;
+    timezone: string;
+    label: string | null;
+  }> | null;
 } | null;
 // Variable: USER_WITH_CONNECTED_ACCOUNTS_QUERY
 // Query: *[  _type == "user"  && clerkId == $clerkId][0]{  _id,  connectedAccounts[]{    accountId  }}
@@ -475,17 +1229,47 @@ export type USER_WITH_CONNECTED_ACCOUNTS_QUERYResult = {
   }> | null;
 } | null;
 // Variable: HOST_BY_SLUG_WITH_TOKENS_QUERY
-// Query: *[  _type == "user"  && slug.current == $slug][0]{  _id,  name,  email,  slug,  availability[]{    _key,    startDateTime,    endDateTime  },  connectedAccounts[]{    _key,    accountId,    email,    accessToken,    refreshToken,    expiryDate,    isDefault  }}
+// Query: *[  _type == "user"  && slug.current == $slug][0]{  _id,  name,  email,  slug,  timezone,  maxBookingsPerDay,  maxBookingsPerWeek,  availability[]{    _key,    startDateTime,    endDateTime  },  availabilityRules[]{    _key,    days,    startTime,    endTime,    timezone,    effectiveFrom,    effectiveUntil  },  availabilityOverrides[]{    _key,    type,    startDate,    endDate,    hours[]{      _key,      startTime,      endTime    },    timezone,    label  },  availabilityCalendar{    accountKey,    calendarId,    mode  },  connectedAccounts[]{    _key,    accountId,    email,    accessToken,    refreshToken,    expiryDate,    isDefault,    busyRules  }}
 export type HOST_BY_SLUG_WITH_TOKENS_QUERYResult = {
   _id: string;
   name: string | null;
   email: string | null;
   slug: Slug | null;
+  timezone: string | null;
+  maxBookingsPerDay: number | null;
+  maxBookingsPerWeek: number | null;
   availability: Array<{
     _key: string;
     startDateTime: string;
     endDateTime: string;
   }> | null;
+  availabilityRules: Array<{
+    _key: string;
+    days: Array<string>;
+    startTime: string;
+    endTime: string;
+    timezone: string;
+    effectiveFrom: string | null;
+    effectiveUntil: string | null;
+  }> | null;
+  availabilityOverrides: Array<{
+    _key: string;
+    type: "custom" | "unavailable";
+    startDate: string;
+    endDate: string | null;
+    hours: Array<{
+      _key: string;
+      startTime: string;
+      endTime: string;
+    }> | null;
+    timezone: string;
+    label: string | null;
+  }> | null;
+  availabilityCalendar: {
+    accountKey: string;
+    calendarId: string;
+    mode: "merge" | "replace";
+  } | null;
   connectedAccounts: Array<{
     _key: string;
     accountId: string;
@@ -494,17 +1278,40 @@ export type HOST_BY_SLUG_WITH_TOKENS_QUERYResult = {
     refreshToken: string | null;
     expiryDate: number | null;
     isDefault: boolean | null;
+    busyRules: {
+      allDay?: boolean;
+      tentative?: boolean;
+      free?: boolean;
+      declined?: boolean;
+      workingLocation?: boolean;
+      outOfOffice?: boolean;
+    } | null;
   }> | null;
 } | null;
 // Variable: USER_CONNECTED_ACCOUNTS_DISPLAY_QUERY
-// Query: *[  _type == "user"  && clerkId == $clerkId][0]{  connectedAccounts[]{    _key,    accountId,    email,    isDefault  }}
+// Query: *[  _type == "user"  && clerkId == $clerkId][0]{  timezone,  connectedAccounts[]{    _key,    accountId,    email,    isDefault,    busyRules  },  availabilityCalendar{    accountKey,    calendarId,    calendarName,    mode  }}
 export type USER_CONNECTED_ACCOUNTS_DISPLAY_QUERYResult = {
+  timezone: string | null;
   connectedAccounts: Array<{
     _key: string;
     accountId: string;
     email: string;
     isDefault: boolean | null;
+    busyRules: {
+      allDay?: boolean;
+      tentative?: boolean;
+      free?: boolean;
+      declined?: boolean;
+      workingLocation?: boolean;
+      outOfOffice?: boolean;
+    } | null;
   }> | null;
+  availabilityCalendar: {
+    accountKey: string;
+    calendarId: string;
+    calendarName: string | null;
+    mode: "merge" | "replace";
+  } | null;
 } | null;
 // Variable: USER_SLUG_QUERY
 // Query: *[  _type == "user"  && clerkId == $clerkId][0]{  _id,  name,  slug}
@@ -518,29 +1325,52 @@ export type USER_SLUG_QUERYResult = {
 import "@sanity/client";
 declare module "@sanity/client" {
   interface SanityQueries {
-    "count(*[\n  _type == \"booking\"\n  && host->clerkId == $clerkId\n  && startTime >= $monthStart\n  && startTime < $monthEnd\n])": COUNT_USER_BOOKINGS_QUERYResult;
+    "*[_id == $documentId][0]{\n  _rev,\n  availability[]{\n    _key,\n    startDateTime,\n    endDateTime\n  }\n}": AVAILABILITY_REVISION_QUERYResult;
+    "count(*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && host->clerkId == $clerkId\n  && startTime >= $monthStart\n  && startTime < $monthEnd\n])": COUNT_USER_BOOKINGS_QUERYResult;
     "count(*[\n  _type == \"user\"\n  && clerkId == $clerkId\n  && defined(connectedAccounts)\n  && length(connectedAccounts) > 0\n]) > 0": HAS_CONNECTED_ACCOUNT_QUERYResult;
-    "*[\n  _type == \"booking\"\n  && host._ref == $hostId\n] | order(startTime asc) {\n  _id,\n  _type,\n  guestName,\n  guestEmail,\n  startTime,\n  endTime,\n  notes,\n  googleEventId,\n  meetLink\n}": BOOKINGS_BY_HOST_QUERYResult;
-    "*[\n  _type == \"booking\"\n  && host._ref == $hostId\n  && startTime >= $startDate\n  && startTime <= $endDate\n] | order(startTime asc) {\n  _id,\n  startTime,\n  endTime,\n  googleEventId,\n  guestEmail\n}": BOOKINGS_IN_RANGE_QUERYResult;
-    "*[\n  _type == \"booking\"\n  && _id == $bookingId\n][0]{\n  _id,\n  _type,\n  host->{\n    _id,\n    name,\n    email\n  },\n  guestName,\n  guestEmail,\n  startTime,\n  endTime,\n  notes,\n  googleEventId,\n  meetLink\n}": BOOKING_BY_ID_QUERYResult;
-    "*[\n  _type == \"booking\"\n  && _id == $bookingId\n][0]{\n  _id,\n  googleEventId,\n  host->{\n    _id,\n    connectedAccounts[isDefault == true][0]{\n      _key,\n      accountId,\n      email,\n      accessToken,\n      refreshToken,\n      expiryDate,\n      isDefault\n    }\n  }\n}": BOOKING_WITH_HOST_CALENDAR_QUERYResult;
-    "*[\n  _type == \"booking\"\n  && host->clerkId == $clerkId\n] | order(startTime desc) {\n  _id,\n  _type,\n  guestName,\n  guestEmail,\n  startTime,\n  endTime,\n  notes,\n  googleEventId,\n  meetLink\n}": HOST_BOOKINGS_BY_CLERK_ID_QUERYResult;
-    "*[\n  _type == \"booking\"\n  && host->clerkId == $clerkId\n  && startTime >= $startDate\n] | order(startTime asc) {\n  _id,\n  guestName,\n  guestEmail,\n  startTime,\n  endTime,\n  googleEventId,\n  meetLink\n}": HOST_UPCOMING_BOOKINGS_QUERYResult;
-    "*[\n  _type == \"booking\"\n  && host->slug.current == $hostSlug\n  && startTime >= $startDate\n  && startTime <= $endDate\n] | order(startTime asc) {\n  _id,\n  startTime,\n  endTime\n}": BOOKINGS_BY_HOST_SLUG_IN_RANGE_QUERYResult;
-    "*[\n  _type == \"booking\"\n  && host->slug.current == $hostSlug\n] | order(startTime asc) {\n  _id,\n  startTime,\n  endTime,\n  googleEventId,\n  guestEmail\n}": ALL_BOOKINGS_BY_HOST_SLUG_QUERYResult;
-    "*[\n  _type == \"meetingType\"\n  && host->clerkId == $clerkId\n] | order(isDefault desc, name asc) {\n  _id,\n  name,\n  \"slug\": slug.current,\n  duration,\n  description,\n  isDefault\n}": MEETING_TYPES_BY_HOST_QUERYResult;
-    "*[\n  _type == \"meetingType\"\n  && host->slug.current == $hostSlug\n  && slug.current == $meetingTypeSlug\n][0] {\n  _id,\n  name,\n  \"slug\": slug.current,\n  duration,\n  description,\n  host-> {\n    _id,\n    name,\n    email,\n    \"slug\": slug.current,\n    availability[] {\n      _key,\n      startDateTime,\n      endDateTime\n    },\n    connectedAccounts[] {\n      _key,\n      accountId,\n      email,\n      isDefault,\n      accessToken,\n      refreshToken,\n      expiryDate\n    }\n  }\n}": MEETING_TYPE_BY_SLUGS_QUERYResult;
-    "*[\n  _type == \"meetingType\"\n  && host->slug.current == $hostSlug\n] | order(isDefault desc, name asc) {\n  _id,\n  name,\n  \"slug\": slug.current,\n  duration,\n  description,\n  isDefault\n}": MEETING_TYPES_BY_HOST_SLUG_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && host._ref == $hostId\n] | order(coalesce(sortOrder, 0) asc, name asc) {\n  _id,\n  isDefault,\n  archived\n}": MEETING_TYPE_ORDER_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && _id == $meetingTypeId\n  && host->clerkId == $clerkId\n][0]{\n  _id,\n  name,\n  \"slug\": slug.current,\n  isDefault,\n  archived,\n  previousSlugs,\n  \"hostId\": host._ref\n}": MEETING_TYPE_FOR_HOST_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && host._ref == $hostId\n  && _id != $excludeId\n] {\n  \"slug\": slug.current,\n  previousSlugs\n}": MEETING_TYPE_SLUGS_QUERYResult;
+    "*[\n  _type == \"user\"\n  && lower(email) in $emails\n] {\n  _id,\n  email\n}": USERS_BY_EMAILS_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && _id == $meetingTypeId\n][0]{\n  _rev,\n  \"coHostIds\": coHosts[]._ref,\n  \"roundRobinHostIds\": roundRobinHosts[].host._ref,\n  hostInvitations[] {\n    role,\n    invitedAt,\n    \"inviteeId\": invitee._ref\n  }\n}": MEETING_TYPE_HOSTS_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && _id == $meetingTypeId\n  && archived != true\n][0]{\n  _rev,\n  \"invitation\": hostInvitations[invitee._ref == $userId][0] {\n    _key,\n    role,\n    priority\n  }\n}": HOST_INVITATION_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && meetingType._ref == $meetingTypeId\n]._id": BOOKING_IDS_BY_MEETING_TYPE_QUERYResult;
+    "*[\n  _type == \"bookingLink\"\n  && meetingType._ref == $meetingTypeId\n]._id": BOOKING_LINK_IDS_BY_MEETING_TYPE_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && _id == $meetingTypeId\n  && host->clerkId == $clerkId\n][0]._id": MEETING_TYPE_ID_FOR_HOST_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && schedule._ref == $scheduleId\n]._id": MEETING_TYPE_IDS_BY_SCHEDULE_QUERYResult;
+    "*[\n  _type == \"bookingLink\"\n  && token == $linkToken\n  && host->slug.current == $hostSlug\n  && meetingType->slug.current == $meetingTypeSlug\n][0] {\n  _id,\n  _rev,\n  singleUse,\n  expiresAt,\n  usedAt\n}": BOOKING_LINK_BY_TOKEN_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && host._ref == $hostId\n] | order(startTime asc) {\n  _id,\n  _type,\n  guestName,\n  guestEmail,\n  startTime,\n  endTime,\n  notes,\n  googleEventId,\n  meetLink\n}": BOOKINGS_BY_HOST_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && host._ref == $hostId\n  && startTime >= $startDate\n  && startTime <= $endDate\n] | order(startTime asc) {\n  _id,\n  startTime,\n  endTime,\n  googleEventId,\n  guestEmail,\n  \"meetingTypeId\": meetingType._ref\n}": BOOKINGS_IN_RANGE_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && _id == $bookingId\n][0]{\n  _id,\n  _type,\n  host->{\n    _id,\n    name,\n    email\n  },\n  guestName,\n  guestEmail,\n  startTime,\n  endTime,\n  status,\n  notes,\n  googleEventId,\n  meetLink\n}": BOOKING_BY_ID_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && _id == $bookingId\n][0]{\n  _id,\n  googleEventId,\n  guestEmail,\n  host->{\n    _id,\n    clerkId,\n    connectedAccounts[isDefault == true][0]{\n      _key,\n      accountId,\n      email,\n      accessToken,\n      refreshToken,\n      expiryDate,\n      isDefault\n    }\n  }\n}": BOOKING_WITH_HOST_CALENDAR_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && manageToken == $manageToken\n][0]{\n  _id,\n  guestName,\n  guestEmail,\n  startTime,\n  endTime,\n  duration,\n  googleEventId,\n  meetLink,\n  location {\n    type,\n    value\n  },\n  \"meetingTypeId\": meetingType._ref,\n  \"meetingTypeName\": coalesce(meetingType->name, meetingTypeName),\n  \"meetingTypeSlug\": meetingType->slug.current,\n  \"meetingTypeHostSlug\": meetingType->host->slug.current,\n  \"meetingTypeArchived\": meetingType->archived,\n  host->{\n    _id,\n    name,\n    \"slug\": slug.current,\n    connectedAccounts[isDefault == true][0]{\n      _key,\n      accountId,\n      email,\n      accessToken,\n      refreshToken,\n      expiryDate,\n      isDefault\n    }\n  }\n}": BOOKING_BY_MANAGE_TOKEN_QUERYResult;
+    "count(*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && googleEventId == $googleEventId\n  && _id != $bookingId\n])": OTHER_BOOKINGS_ON_EVENT_COUNT_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && host._ref == $hostId\n  && meetingType._ref == $meetingTypeId\n  && startTime == $startTime\n  && endTime == $endTime\n] | order(_createdAt asc)[0] {\n  _id,\n  googleEventId,\n  meetLink,\n  location {\n    type,\n    value\n  }\n}": GROUP_MEETING_BOOKING_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && host->clerkId == $clerkId\n] | order(startTime asc) {\n  _id,\n  _type,\n  guestName,\n  guestEmail,\n  startTime,\n  endTime,\n  notes,\n  answers[] {\n    _key,\n    question,\n    answer\n  },\n  location {\n    type,\n    value\n  },\n  googleEventId,\n  meetLink\n}": HOST_BOOKINGS_BY_CLERK_ID_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && host->clerkId == $clerkId\n  && startTime >= $startDate\n] | order(startTime asc) {\n  _id,\n  guestName,\n  guestEmail,\n  startTime,\n  endTime,\n  googleEventId,\n  meetLink\n}": HOST_UPCOMING_BOOKINGS_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && host->slug.current == $hostSlug\n  && startTime >= $startDate\n  && startTime <= $endDate\n] | order(startTime asc) {\n  _id,\n  startTime,\n  endTime\n}": BOOKINGS_BY_HOST_SLUG_IN_RANGE_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && host->slug.current == $hostSlug\n] | order(startTime asc) {\n  _id,\n  startTime,\n  endTime,\n  googleEventId,\n  guestEmail,\n  \"meetingTypeId\": meetingType._ref\n}": ALL_BOOKINGS_BY_HOST_SLUG_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && host._ref != $hostId\n  && (host._ref in $hostIds || count(coHosts[_ref in $hostIds]) > 0)\n  && startTime < $endDate\n  && endTime > $startDate\n] | order(startTime asc) {\n  _id,\n  startTime,\n  endTime\n}": BOOKINGS_ATTENDED_BY_HOSTS_QUERYResult;
+    "*[\n  _type == \"booking\"\n  && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n  && (host._ref == $hostId || $hostId in coHosts[]._ref)\n  && startTime < $endDate\n  && endTime > $startDate\n] | order(startTime asc) {\n  _id,\n  startTime,\n  endTime,\n  \"meetingTypeId\": meetingType._ref\n}": BOOKINGS_ATTENDED_BY_HOST_QUERYResult;
+    "*[\n  _type == \"user\"\n  && _id in $hostIds\n] {\n  _id,\n  \"lastBookedAt\": *[\n    _type == \"booking\"\n    && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n    && meetingType._ref == $meetingTypeId\n    && host._ref == ^._id\n  ] | order(_createdAt desc)[0]._createdAt,\n  \"weekBookings\": count(*[\n    _type == \"booking\"\n    && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n    && meetingType._ref == $meetingTypeId\n    && host._ref == ^._id\n    && startTime >= $weekStart\n    && startTime < $weekEnd\n  ])\n}": ROUND_ROBIN_HISTORY_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && host->clerkId == $clerkId\n] | order(coalesce(sortOrder, 0) asc, name asc) {\n  _id,\n  name,\n  \"slug\": slug.current,\n  duration,\n  durationOptions,\n  description,\n  isDefault,\n  archived,\n  hidden,\n  seats,\n  schedulingType,\n  \"coHostEmails\": coHosts[]->email,\n  hostInvitations[] {\n    _key,\n    role,\n    priority,\n    \"email\": invitee->email\n  },\n  roundRobinStrategy,\n  roundRobinHosts[] {\n    _key,\n    priority,\n    \"email\": host->email\n  },\n  location {\n    type,\n    address,\n    phone,\n    url,\n    jitsiDomain\n  },\n  questions[] {\n    _key,\n    label,\n    type,\n    required,\n    options\n  },\n  \"scheduleId\": schedule._ref,\n  \"bookingCount\": count(*[\n    _type == \"booking\"\n    && !(status in [\"cancelled\", \"rescheduled\", \"declined\"])\n    && references(^._id)\n  ])\n}": MEETING_TYPES_BY_HOST_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && archived != true\n  && *[_type == \"user\" && clerkId == $clerkId][0]._id in hostInvitations[].invitee._ref\n] | order(name asc) {\n  _id,\n  name,\n  schedulingType,\n  \"ownerName\": host->name,\n  \"invitation\": hostInvitations[invitee->clerkId == $clerkId][0] {\n    role,\n    invitedAt\n  }\n}": HOST_INVITATIONS_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && host->slug.current == $hostSlug\n  && slug.current == $meetingTypeSlug\n  && archived != true\n][0] {\n  _id,\n  name,\n  \"slug\": slug.current,\n  duration,\n  durationOptions,\n  bufferBefore,\n  bufferAfter,\n  slotInterval,\n  minimumNotice,\n  bookingWindow,\n  maxBookingsPerDay,\n  maxBookingsPerWeek,\n  seats,\n  description,\n  location {\n    type,\n    address,\n    phone,\n    url,\n    jitsiDomain\n  },\n  questions[] {\n    _key,\n    label,\n    type,\n    required,\n    options\n  },\n  schedule-> {\n    _id,\n    timezone,\n    availability[] {\n      _key,\n      startDateTime,\n      endDateTime\n    },\n    availabilityRules[] {\n      _key,\n      days,\n      startTime,\n      endTime,\n      timezone,\n      effectiveFrom,\n      effectiveUntil\n    },\n    availabilityOverrides[] {\n      _key,\n      type,\n      startDate,\n      endDate,\n      hours[] {\n        _key,\n        startTime,\n        endTime\n      },\n      timezone,\n      label\n    }\n  },\n  schedulingType,\n  coHosts[]-> {\n    _id,\n    name,\n    email,\n    timezone,\n    availability[] {\n      _key,\n      startDateTime,\n      endDateTime\n    },\n    availabilityRules[] {\n      _key,\n      days,\n      startTime,\n      endTime,\n      timezone,\n      effectiveFrom,\n      effectiveUntil\n    },\n    availabilityOverrides[] {\n      _key,\n      type,\n      startDate,\n      endDate,\n      hours[] {\n        _key,\n        startTime,\n        endTime\n      },\n      timezone,\n      label\n    },\n    availabilityCalendar {\n      accountKey,\n      calendarId,\n      mode\n    },\n    connectedAccounts[] {\n      _key,\n      accountId,\n      email,\n      isDefault,\n      accessToken,\n      refreshToken,\n      expiryDate,\n      busyRules\n    }\n  },\n  \"invitedCoHostCount\": count(hostInvitations[role == \"coHost\"]),\n  roundRobinStrategy,\n  roundRobinHosts[] {\n    _key,\n    priority,\n    host-> {\n      _id,\n      name,\n      email,\n      slug,\n      timezone,\n      maxBookingsPerDay,\n      maxBookingsPerWeek,\n      availability[] {\n        _key,\n        startDateTime,\n        endDateTime\n      },\n      availabilityRules[] {\n        _key,\n        days,\n        startTime,\n        endTime,\n        timezone,\n        effectiveFrom,\n        effectiveUntil\n      },\n      availabilityOverrides[] {\n        _key,\n        type,\n        startDate,\n        endDate,\n        hours[] {\n          _key,\n          startTime,\n          endTime\n        },\n        timezone,\n        label\n      },\n      availabilityCalendar {\n        accountKey,\n        calendarId,\n        mode\n      },\n      connectedAccounts[] {\n        _key,\n        accountId,\n        email,\n        accessToken,\n        refreshToken,\n        expiryDate,\n        isDefault,\n        busyRules\n      }\n    }\n  },\n  host-> {\n    _id,\n    name,\n    email,\n    \"slug\": slug.current,\n    timezone,\n    maxBookingsPerDay,\n    maxBookingsPerWeek,\n    availability[] {\n      _key,\n      startDateTime,\n      endDateTime\n    },\n    availabilityRules[] {\n      _key,\n      days,\n      startTime,\n      endTime,\n      timezone,\n      effectiveFrom,\n      effectiveUntil\n    },\n    availabilityOverrides[] {\n      _key,\n      type,\n      startDate,\n      endDate,\n      hours[] {\n        _key,\n        startTime,\n        endTime\n      },\n      timezone,\n      label\n    },\n    availabilityCalendar {\n      accountKey,\n      calendarId,\n      mode\n    },\n    connectedAccounts[] {\n      _key,\n      accountId,\n      email,\n      isDefault,\n      accessToken,\n      refreshToken,\n      expiryDate,\n      busyRules\n    }\n  }\n}": MEETING_TYPE_BY_SLUGS_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && host->slug.current == $hostSlug\n  && $meetingTypeSlug in previousSlugs\n  && archived != true\n] | order(_updatedAt desc)[0].slug.current": MEETING_TYPE_SLUG_REDIRECT_QUERYResult;
+    "*[\n  _type == \"meetingType\"\n  && host->slug.current == $hostSlug\n  && archived != true\n  && hidden != true\n] | order(coalesce(sortOrder, 0) asc, name asc) {\n  _id,\n  name,\n  \"slug\": slug.current,\n  duration,\n  durationOptions,\n  description,\n  isDefault\n}": MEETING_TYPES_BY_HOST_SLUG_QUERYResult;
     "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]._id": HOST_ID_BY_CLERK_ID_QUERYResult;
+    "*[\n  _type == \"schedule\"\n  && host->clerkId == $clerkId\n] | order(name asc) {\n  _id,\n  name,\n  timezone,\n  \"meetingTypeIds\": *[_type == \"meetingType\" && references(^._id)]._id\n}": SCHEDULES_BY_HOST_QUERYResult;
+    "*[\n  _type == \"schedule\"\n  && _id == $scheduleId\n  && host->clerkId == $clerkId\n][0]{\n  _id,\n  _rev,\n  name,\n  timezone,\n  availability[]{\n    _key,\n    startDateTime,\n    endDateTime\n  },\n  availabilityRules[]{\n    _key,\n    days,\n    startTime,\n    endTime,\n    timezone,\n    effectiveFrom,\n    effectiveUntil\n  },\n  availabilityOverrides[]{\n    _key,\n    type,\n    startDate,\n    endDate,\n    hours[]{\n      _key,\n      startTime,\n      endTime\n    },\n    timezone,\n    label\n  }\n}": SCHEDULE_WITH_AVAILABILITY_QUERYResult;
+    "*[\n  _type == \"schedule\"\n  && _id == $scheduleId\n  && host->clerkId == $clerkId\n][0]._id": SCHEDULE_ID_FOR_HOST_QUERYResult;
     "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  _id,\n  _type,\n  clerkId,\n  name,\n  email,\n  slug,\n  availability[]{\n    _key,\n    startDateTime,\n    endDateTime\n  },\n  connectedAccounts[]{\n    _key,\n    accountId,\n    email,\n    provider,\n    isDefault,\n    connectedAt\n  }\n}": USER_BY_CLERK_ID_QUERYResult;
     "*[\n  _type == \"user\"\n  && slug.current == $slug\n][0]{\n  _id,\n  _type,\n  name,\n  email,\n  slug,\n  availability[]{\n    _key,\n    startDateTime,\n    endDateTime\n  }\n}": USER_BY_SLUG_QUERYResult;
-    "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  _id,\n  connectedAccounts[]{\n    _key,\n    accountId,\n    email,\n    accessToken,\n    refreshToken,\n    expiryDate,\n    isDefault\n  }\n}": USER_WITH_TOKENS_QUERYResult;
+    "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  _id,\n  \"availabilityCalendarAccountKey\": availabilityCalendar.accountKey,\n  connectedAccounts[]{\n    _key,\n    accountId,\n    email,\n    accessToken,\n    refreshToken,\n    expiryDate,\n    isDefault,\n    busyRules\n  }\n}": USER_WITH_TOKENS_QUERYResult;
     "*[\n  _type == \"user\"\n  && defined(connectedAccounts[_key == $accountKey])\n][0]{\n  _id\n}": USER_ID_BY_ACCOUNT_KEY_QUERYResult;
-    "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  _id\n}": USER_ID_BY_CLERK_ID_QUERYResult;
-    "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  _id,\n  availability[]{\n    _key,\n    startDateTime,\n    endDateTime\n  }\n}": USER_WITH_AVAILABILITY_QUERYResult;
+    "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  _id,\n  timezone\n}": USER_ID_BY_CLERK_ID_QUERYResult;
+    "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  _id,\n  _rev,\n  timezone,\n  availability[]{\n    _key,\n    startDateTime,\n    endDateTime\n  },\n  availabilityRules[]{\n    _key,\n    days,\n    startTime,\n    endTime,\n    timezone,\n    effectiveFrom,\n    effectiveUntil\n  },\n  availabilityOverrides[]{\n    _key,\n    type,\n    startDate,\n    endDate,\n    hours[]{\n      _key,\n      startTime,\n      endTime\n    },\n    timezone,\n    label\n  }\n}": USER_WITH_AVAILABILITY_QUERYResult;
     "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  _id,\n  connectedAccounts[]{\n    accountId\n  }\n}": USER_WITH_CONNECTED_ACCOUNTS_QUERYResult;
-    "*[\n  _type == \"user\"\n  && slug.current == $slug\n][0]{\n  _id,\n  name,\n  email,\n  slug,\n  availability[]{\n    _key,\n    startDateTime,\n    endDateTime\n  },\n  connectedAccounts[]{\n    _key,\n    accountId,\n    email,\n    accessToken,\n    refreshToken,\n    expiryDate,\n    isDefault\n  }\n}": HOST_BY_SLUG_WITH_TOKENS_QUERYResult;
-    "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  connectedAccounts[]{\n    _key,\n    accountId,\n    email,\n    isDefault\n  }\n}": USER_CONNECTED_ACCOUNTS_DISPLAY_QUERYResult;
+    "*[\n  _type == \"user\"\n  && slug.current == $slug\n][0]{\n  _id,\n  name,\n  email,\n  slug,\n  timezone,\n  maxBookingsPerDay,\n  maxBookingsPerWeek,\n  availability[]{\n    _key,\n    startDateTime,\n    endDateTime\n  },\n  availabilityRules[]{\n    _key,\n    days,\n    startTime,\n    endTime,\n    timezone,\n    effectiveFrom,\n    effectiveUntil\n  },\n  availabilityOverrides[]{\n    _key,\n    type,\n    startDate,\n    endDate,\n    hours[]{\n      _key,\n      startTime,\n      endTime\n    },\n    timezone,\n    label\n  },\n  availabilityCalendar{\n    accountKey,\n    calendarId,\n    mode\n  },\n  connectedAccounts[]{\n    _key,\n    accountId,\n    email,\n    accessToken,\n    refreshToken,\n    expiryDate,\n    isDefault,\n    busyRules\n  }\n}": HOST_BY_SLUG_WITH_TOKENS_QUERYResult;
+    "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  timezone,\n  connectedAccounts[]{\n    _key,\n    accountId,\n    email,\n    isDefault,\n    busyRules\n  },\n  availabilityCalendar{\n    accountKey,\n    calendarId,\n    calendarName,\n    mode\n  }\n}": USER_CONNECTED_ACCOUNTS_DISPLAY_QUERYResult;
     "*[\n  _type == \"user\"\n  && clerkId == $clerkId\n][0]{\n  _id,\n  name,\n  slug\n}": USER_SLUG_QUERYResult;
   }
 }
\ No newline at end of file